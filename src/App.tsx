@@ -1,30 +1,119 @@
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import DiagnoseView, { type DiagnoseHandle } from "./components/DiagnoseView";
 import HistoryDrawer from "./components/HistoryDrawer";
+import PatientPage from "./components/PatientPage";
+import PatientsPanel from "./components/PatientsPanel";
 import Recorder, { type RecorderHandle } from "./components/RecorderClean";
+import SettingsPanel from "./components/SettingsPanel";
 import TranscriptView from "./components/TranscriptView";
 import { ui } from "./lib/i18n";
 import VideoCallCapture, { type VideoCallCaptureHandle } from "./components/VideoCallCapture";
+import VoiceEnrollment from "./components/VoiceEnrollment";
+import { useSettings } from "./hooks/useSettings";
+import { useAutoLockHold } from "./hooks/useVault";
+import { purgeExpiredTrash } from "./lib/history";
+import { isMockEnvEnabled } from "./lib/mockBackend";
+import { startRetention } from "./lib/retention";
+import type { PatientSelection } from "./lib/patients";
+import { loadSettings } from "./lib/settings";
+import { hasTranscriptContent, resolvePendingSegment } from "./lib/transcript";
+import {
+	startQueueProcessor,
+	type TranscriptionRecoveredDetail,
+} from "./lib/transcriptionQueue";
+import type { HistoryItem, Patient, TranscriptSegment } from "./lib/types";
+import { loadCurrentClinician, saveCurrentClinician } from "./lib/voiceProfiles";
+
+const newConsultationId = () => crypto.randomUUID?.() || String(Date.now());
 
 export default function App() {
 	const [language, setLanguage] = useState<"pt" | "en">("pt");
-	const [transcript, setTranscript] = useState("");
+	const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+	// Transcrição da consulta reaberta do histórico, enquanto não é editada
+	const [openedSegments, setOpenedSegments] = useState<TranscriptSegment[] | null>(null);
 	const [showDiagnosis, setShowDiagnosis] = useState(false);
 	const [sidebarOpen, setSidebarOpen] = useState(false);
-	const [currentPatientName, setCurrentPatientName] = useState("");
+	// Paciente escolhido no gravador, usado também pela videochamada e pelo diagnóstico
+	const [patient, setPatient] = useState<PatientSelection>({ name: "" });
+	const [clinician, setClinician] = useState(loadCurrentClinician);
+	const [consultationId, setConsultationId] = useState(newConsultationId);
+	// Página do paciente aberta no lugar do espaço de trabalho (que continua montado)
+	const [patientPageId, setPatientPageId] = useState<string | null>(null);
 	const recRef = useRef<RecorderHandle>(null);
 	const diagnoseRef = useRef<DiagnoseHandle>(null);
 	const videoCallRef = useRef<VideoCallCaptureHandle>(null);
+	const [settings] = useSettings();
+	const mockBackend = isMockEnvEnabled() || settings.mockBackend;
 	const t = ui[language];
 
+	// Consulta em andamento ainda não salva: o bloqueio automático a descartaria
+	useAutoLockHold(hasTranscriptContent(segments) && segments !== openedSegments);
+
+	// Reprocessa áudio que ficou sem transcrição quando o servidor volta
+	useEffect(() => startQueueProcessor(), []);
+
+	// Política de retenção: ao abrir e depois de cada consulta salva
+	useEffect(() => startRetention(), []);
+
+	// Apaga de vez as consultas que passaram do prazo da lixeira
+	useEffect(() => {
+		purgeExpiredTrash(loadSettings().trashRetentionDays).catch((error) =>
+			console.error("Erro ao esvaziar a lixeira:", error),
+		);
+	}, []);
+
+	// Troca o texto provisório na consulta aberta (o histórico é atualizado pela fila)
+	useEffect(() => {
+		const handler = (event: Event) => {
+			const detail = (event as CustomEvent<TranscriptionRecoveredDetail>).detail;
+			if (detail.consultationId !== consultationId) return;
+			setSegments((prev) => resolvePendingSegment(prev, detail.segmentId, detail.text));
+		};
+		window.addEventListener("transcription-recovered", handler);
+		return () => window.removeEventListener("transcription-recovered", handler);
+	}, [consultationId]);
+
+	const handleClinicianChange = (name: string) => {
+		setClinician(name);
+		saveCurrentClinician(name);
+	};
+
 	const handleNewConsultation = () => {
 		recRef.current?.reset();
 		diagnoseRef.current?.reset(); 
 		videoCallRef.current?.reset(); 
-		setTranscript("");
+		setSegments([]);
+		setConsultationId(newConsultationId());
 		setShowDiagnosis(false);
 		setSidebarOpen(false); 
-		setCurrentPatientName(""); 
+		setPatient({ name: "" });
+		setPatientPageId(null);
+	};
+
+	// Reabre uma consulta do histórico; o que for salvo vira nova revisão dela
+	const handleOpenConsultation = (item: HistoryItem) => {
+		recRef.current?.reset();
+		videoCallRef.current?.reset();
+		setLanguage(item.language);
+		setSegments(item.segments);
+		setOpenedSegments(item.segments);
+		setPatient({ id: item.patientId, name: item.patientName ?? "" });
+		setConsultationId(newConsultationId());
+		diagnoseRef.current?.open(item);
+		setShowDiagnosis(false);
+		setSidebarOpen(false);
+		setPatientPageId(null);
+	};
+
+	// Nova consulta já com o paciente escolhido
+	const handleNewPatientConsultation = (selected: Patient) => {
+		handleNewConsultation();
+		setPatient({ id: selected.id, name: selected.name });
+	};
+
+	const handleOpenPatient = (patientId: string) => {
+		setPatientPageId(patientId);
+		setSidebarOpen(false);
 	};
 
 	return (
@@ -35,6 +124,14 @@ export default function App() {
 					<h1 className="text-2xl font-bold">
 						🩺 {t.title}
 					</h1>
+					{mockBackend && (
+						<span
+							className="ml-3 bg-yellow-300 text-yellow-900 text-xs font-bold px-2 py-0.5 rounded"
+							title={language === "pt" ? "Respostas simuladas no navegador" : "Responses simulated in the browser"}
+						>
+							{language === "pt" ? "SIMULADO" : "MOCK"}
+						</span>
+					)}
 				</div>
 
 				<div className="flex items-center gap-4">
@@ -105,32 +202,53 @@ export default function App() {
 					</div>
 
 					{/* Histórico */}
-					<div className="flex-1 p-4">
+					<div className="flex-1 p-4 space-y-4">
+						<SettingsPanel language={language} />
+						<PatientsPanel language={language} onOpen={handleOpenPatient} />
 						<section className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
-							<HistoryDrawer />
+							<HistoryDrawer onOpen={handleOpenConsultation} />
 						</section>
 					</div>
 				</aside>
 
 			{/* Content Principal */}
 			<main className="flex-1 p-4 lg:p-6 overflow-y-auto">
+				{patientPageId && (
+					<PatientPage
+						language={language}
+						patientId={patientPageId}
+						onClose={() => setPatientPageId(null)}
+						onOpenConsultation={handleOpenConsultation}
+						onNewConsultation={handleNewPatientConsultation}
+					/>
+				)}
 				{/* Layout Responsivo */}
-				<div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6 max-w-7xl mx-auto">
+				<div className={`${patientPageId ? "hidden" : "grid"} grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6 max-w-7xl mx-auto`}>
 					{/* Seção Gravação */}
 					<section className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 lg:p-6 flex flex-col">
 					<h2 className="text-xl font-bold text-gray-800 flex items-center gap-2 mb-4">
 						{language === "pt" ? "Gravação" : "Recording"}
 					</h2>
+							<VoiceEnrollment
+								language={language}
+								clinician={clinician}
+								onClinicianChange={handleClinicianChange}
+							/>
 							<Recorder
 								ref={recRef}
 								language={language}
-								onTranscriptChange={setTranscript}
+								clinician={clinician}
+								consultationId={consultationId}
+								onSegmentsChange={setSegments}
+								patient={patient}
+								onPatientChange={setPatient}
 							/>
 							<VideoCallCapture
 								ref={videoCallRef}
 								language={language}
-								onTranscriptChange={setTranscript}
-								patientName={currentPatientName}
+								consultationId={consultationId}
+								onSegmentsChange={setSegments}
+								patientName={patient.name.trim()}
 							/>
 						
 					</section>
@@ -144,8 +262,8 @@ export default function App() {
 						<div className="flex-1">
 							<TranscriptView
 								language={language}
-								value={transcript}
-								onChange={setTranscript}
+								segments={segments}
+								onChange={setSegments}
 							/>
 						</div>
 					</section>
@@ -159,14 +277,15 @@ export default function App() {
 							<DiagnoseView
 								ref={diagnoseRef}
 								language={language}
-								transcript={transcript}
-								patientName={
-									currentPatientName || recRef.current?.getPatientName()
-								}
+								segments={segments}
+								consultationId={consultationId}
+								patientName={patient.name.trim()}
+								patientId={patient.id}
 								onBeforeFinalize={() => recRef.current?.stop()}
 								onFinalizeComplete={() => {
 									recRef.current?.reset();
-									setTranscript("");
+									setSegments([]);
+									setConsultationId(newConsultationId());
 									setShowDiagnosis(false);
 								}}
 								autoStart={showDiagnosis}
@@ -0,0 +1,44 @@
+import { ApiError, apiErrorMessage } from "../lib/apiClient";
+import { formatIssue, ResponseValidationError } from "../lib/validation";
+
+type Props = {
+	language: "pt" | "en";
+	error: unknown;
+	onRetry?: () => void;
+};
+
+// Exibição padrão de falhas de chamada ao backend (mesmo texto em todos os componentes)
+export default function ApiErrorNotice({ language, error, onRetry }: Props) {
+	const issues =
+		error instanceof ApiError || error instanceof ResponseValidationError ? error.issues : [];
+	const requestId = error instanceof ApiError ? error.requestId : undefined;
+
+	return (
+		<div className="bg-red-50 border border-red-200 rounded-xl p-6 space-y-3">
+			<p className="text-red-800 font-semibold">{apiErrorMessage(error, language)}</p>
+
+			{issues.length > 0 && (
+				<ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+					{issues.map((issue) => (
+						<li key={`${issue.field}-${issue.code}`}>{formatIssue(issue, language)}</li>
+					))}
+				</ul>
+			)}
+
+			{requestId && (
+				<p className="text-xs text-red-500 font-mono">
+					{language === "pt" ? "Id da requisição" : "Request id"}: {requestId}
+				</p>
+			)}
+
+			{onRetry && (
+				<button
+					onClick={onRetry}
+					className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+				>
+					{language === "pt" ? "Tentar novamente" : "Try again"}
+				</button>
+			)}
+		</div>
+	);
+}
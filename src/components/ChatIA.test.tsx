@@ -0,0 +1,73 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { diagnosis } from "../test/fixtures";
+import { failMockApi } from "../test/mockApi";
+import ChatIA from "./ChatIA";
+
+function ask(question: string, language: "pt" | "en" = "pt") {
+	render(<ChatIA language={language} diagnosis={diagnosis()} transcript="Paciente: febre" />);
+	fireEvent.change(
+		screen.getByPlaceholderText(
+			language === "pt"
+				? "Digite sua pergunta sobre o diagnóstico..."
+				: "Type your question about the diagnosis...",
+		),
+		{ target: { value: question } },
+	);
+	fireEvent.click(screen.getByRole("button", { name: language === "pt" ? /Enviar/ : /Send/ }));
+}
+
+describe("ChatIA", () => {
+	it("mostra a pergunta e a resposta da IA", async () => {
+		ask("Posso tomar ibuprofeno?");
+
+		expect(screen.getByText("Posso tomar ibuprofeno?")).toBeInTheDocument();
+		expect(await screen.findByText(/Sobre "Posso tomar ibuprofeno\?"/)).toBeInTheDocument();
+	});
+
+	it("mostra a mensagem de erro do servidor", async () => {
+		failMockApi("server");
+		ask("E agora?");
+
+		expect(
+			await screen.findByText(
+				"O servidor encontrou um erro. Tente novamente em instantes. (HTTP 500)",
+			),
+		).toBeInTheDocument();
+		expect(screen.getByRole("button", { name: /Enviar/ })).toBeDisabled();
+	});
+
+	it("mostra a falta de conexão", async () => {
+		failMockApi("network");
+		ask("E agora?");
+
+		expect(
+			await screen.findByText("Sem conexão com o servidor. Verifique a internet e tente novamente."),
+		).toBeInTheDocument();
+	});
+
+	it("lista os campos que faltaram na resposta", async () => {
+		failMockApi("malformed");
+		ask("E agora?");
+
+		expect(
+			await screen.findByText(
+				"O servidor devolveu uma resposta incompleta. (response: texto ausente)",
+			),
+		).toBeInTheDocument();
+	});
+
+	it("traduz os campos que faltaram na resposta", async () => {
+		failMockApi("malformed");
+		ask("What now?", "en");
+
+		expect(
+			await screen.findByText("The server returned an incomplete response. (response: missing text)"),
+		).toBeInTheDocument();
+	});
+
+	it("não mostra o chat sem diagnóstico", () => {
+		const { container } = render(<ChatIA language="pt" diagnosis={null} transcript="" />);
+		expect(container).toBeEmptyDOMElement();
+	});
+});
@@ -1,6 +1,8 @@
 import { useState } from "react";
-import { API_URL } from "../lib/api";
+import { sendChatMessage } from "../lib/api";
+import { ApiError, apiErrorMessage } from "../lib/apiClient";
 import type { DiagnosisResponse } from "../lib/types";
+import { formatIssue } from "../lib/validation";
 
 type Props = {
 	language: "pt" | "en";
@@ -24,40 +26,32 @@ export default function ChatIA({ language, diagnosis, transcript }: Props) {
 		setInputMessage("");
 
 		try {
-			const response = await fetch(`${API_URL}/api/chat`, {
-				method: "POST",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({
-					message: inputMessage,
-					context: {
-						diagnosis: diagnosis.diagnosis,
-						conditions: diagnosis.conditions,
-						exams: diagnosis.exams,
-						medications: diagnosis.medications,
-						transcript,
-					},
-					language,
-				}),
-			});
-
-			if (!response.ok) {
-				throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-			}
-
-			const data = await response.json();
+			const data = await sendChatMessage(
+				inputMessage,
+				{
+					diagnosis: diagnosis.diagnosis,
+					conditions: diagnosis.conditions,
+					exams: diagnosis.exams,
+					medications: diagnosis.medications,
+					transcript,
+				},
+				language,
+			);
 			const assistantMessage = {
 				role: "assistant" as const,
-				content: data.response || "Não foi possível processar sua pergunta.",
+				content: data.response,
 			};
 			setMessages((prev) => [...prev, assistantMessage]);
 		} catch (error) {
 			console.error("Chat error:", error);
+			// Mesma mensagem de erro dos demais componentes, com os campos que faltaram
+			const issues =
+				error instanceof ApiError && error.issues.length > 0
+					? ` (${error.issues.map((issue) => formatIssue(issue, language)).join("; ")})`
+					: "";
 			const errorMsg = {
 				role: "assistant" as const,
-				content:
-					language === "pt"
-						? "Desculpe, houve um erro. Tente novamente."
-						: "Sorry, there was an error. Please try again.",
+				content: apiErrorMessage(error, language) + issues,
 			};
 			setMessages((prev) => [...prev, errorMsg]);
 		} finally {
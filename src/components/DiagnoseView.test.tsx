@@ -0,0 +1,129 @@
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { createRef } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { loadHistory, saveHistoryItem } from "../lib/history";
+import { consultationSegments, diagnosis, historyItem } from "../test/fixtures";
+import { failMockApi } from "../test/mockApi";
+import DiagnoseView, { type DiagnoseHandle } from "./DiagnoseView";
+
+// O diagnóstico simulado chega em streaming, em pedaços
+const STREAM_TIMEOUT = { timeout: 5000 };
+
+function renderDiagnose(props: Partial<Parameters<typeof DiagnoseView>[0]> = {}) {
+	const ref = createRef<DiagnoseHandle>();
+	const callbacks = { onBeforeFinalize: vi.fn(), onFinalizeComplete: vi.fn() };
+	render(
+		<DiagnoseView
+			ref={ref}
+			language="pt"
+			segments={consultationSegments()}
+			consultationId="consulta-1"
+			patientName="Ana"
+			{...callbacks}
+			{...props}
+		/>,
+	);
+	return { ref, ...callbacks };
+}
+
+const finalize = () => fireEvent.click(screen.getByRole("button", { name: /Finalizar Consulta/ }));
+
+describe("DiagnoseView", () => {
+	it("finaliza, mostra o relatório e salva no histórico", async () => {
+		const { onBeforeFinalize, onFinalizeComplete } = renderDiagnose({ patientId: "paciente-ana" });
+		finalize();
+		expect(onBeforeFinalize).toHaveBeenCalled();
+
+		await waitFor(() => expect(onFinalizeComplete).toHaveBeenCalled(), STREAM_TIMEOUT);
+		expect(
+			screen.getByText("Infecção de vias aéreas superiores, provavelmente viral."),
+		).toBeInTheDocument();
+
+		const [item] = await loadHistory();
+		expect(item).toMatchObject({ id: "consulta-1", patientName: "Ana", patientId: "paciente-ana", language: "pt" });
+		expect(item.segments).toHaveLength(2);
+		expect(item.result.conditions).toContain("Faringite viral");
+	});
+
+	it("volta ao estado inicial no reset", async () => {
+		const { ref, onFinalizeComplete } = renderDiagnose();
+		finalize();
+		await waitFor(() => expect(onFinalizeComplete).toHaveBeenCalled(), STREAM_TIMEOUT);
+
+		act(() => ref.current?.reset());
+
+		expect(screen.queryByText("Relatório de Consulta")).not.toBeInTheDocument();
+		expect(screen.getByRole("button", { name: /Finalizar Consulta/ })).toBeEnabled();
+	});
+
+	it("mostra os campos que faltaram e não salva resposta incompleta", async () => {
+		failMockApi("malformed");
+		const { onFinalizeComplete } = renderDiagnose();
+		finalize();
+
+		expect(
+			await screen.findByText("O servidor devolveu uma resposta incompleta."),
+		).toBeInTheDocument();
+		expect(screen.getByText("diagnosis: texto ausente")).toBeInTheDocument();
+		expect(screen.getByRole("button", { name: "Tentar novamente" })).toBeInTheDocument();
+		expect(onFinalizeComplete).not.toHaveBeenCalled();
+		expect(await loadHistory()).toEqual([]);
+	});
+
+	it("mantém a consulta aberta quando o navegador não grava e permite tentar de novo", async () => {
+		const put = vi.spyOn(IDBObjectStore.prototype, "put").mockImplementation(() => {
+			throw new DOMException("quota", "QuotaExceededError");
+		});
+		const { onFinalizeComplete } = renderDiagnose();
+		finalize();
+
+		expect(
+			await screen.findByText(/A consulta não foi salva no histórico/, undefined, STREAM_TIMEOUT),
+		).toHaveTextContent("Sem espaço no navegador");
+		expect(onFinalizeComplete).not.toHaveBeenCalled();
+
+		put.mockRestore();
+		fireEvent.click(screen.getByRole("button", { name: "Tentar salvar novamente" }));
+
+		await waitFor(() => expect(onFinalizeComplete).toHaveBeenCalled());
+		expect(await loadHistory()).toHaveLength(1);
+		expect(screen.queryByText(/A consulta não foi salva/)).not.toBeInTheDocument();
+	});
+
+	it("reabre uma consulta e salva a nova revisão sem alterar a original", async () => {
+		const original = historyItem({ id: "original", patientName: "Bia", result: diagnosis({ diagnosis: "Gripe" }) });
+		await saveHistoryItem(original);
+		const { ref, onFinalizeComplete } = renderDiagnose({ consultationId: "revisao-1", patientName: "" });
+
+		act(() => ref.current?.open(original));
+		expect(screen.getByText("Gripe")).toBeInTheDocument();
+		expect(screen.getByRole("button", { name: /Chat com IA Médica/ })).toBeInTheDocument();
+
+		finalize();
+		await waitFor(() => expect(onFinalizeComplete).toHaveBeenCalled(), STREAM_TIMEOUT);
+
+		const [revision, kept] = await loadHistory();
+		expect(revision).toMatchObject({ id: "revisao-1", revisionOf: "original", patientName: "Bia" });
+		expect(revision.result.diagnosis).not.toBe("Gripe");
+		expect(kept).toEqual(original);
+	});
+
+	it("salva a revisão mantendo o diagnóstico reaberto", async () => {
+		const original = historyItem({ id: "original", result: diagnosis({ diagnosis: "Gripe" }) });
+		const { ref, onFinalizeComplete } = renderDiagnose({ consultationId: "revisao-1" });
+
+		act(() => ref.current?.open(original));
+		fireEvent.click(screen.getByRole("button", { name: "Salvar revisão sem novo diagnóstico" }));
+
+		await waitFor(() => expect(onFinalizeComplete).toHaveBeenCalled());
+		const [revision] = await loadHistory();
+		expect(revision).toMatchObject({ id: "revisao-1", revisionOf: "original", result: original.result });
+		expect(screen.queryByText(/reaberta/)).not.toBeInTheDocument();
+	});
+
+	it("não envia transcrição vazia", () => {
+		const { onBeforeFinalize } = renderDiagnose({ segments: [] });
+		finalize();
+		expect(onBeforeFinalize).not.toHaveBeenCalled();
+	});
+});
@@ -1,13 +1,20 @@
-import { forwardRef, useEffect, useImperativeHandle, useState } from "react";
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
 import { diagnose, streamDiagnose } from "../lib/api";
-import { saveHistoryItem } from "../lib/history";
-import type { DiagnosisResponse, HistoryItem } from "../lib/types";
+import { useAutoLockHold } from "../hooks/useVault";
+import { HistoryStorageError, historyErrorMessage, saveHistoryItem } from "../lib/history";
+import { type PartialJson, parsePartialJson } from "../lib/partialJson";
+import { finalSegments, serializeTranscript } from "../lib/transcript";
+import type { DiagnosisResponse, HistoryItem, TranscriptSegment } from "../lib/types";
+import { validateDiagnosis } from "../lib/validation";
+import ApiErrorNotice from "./ApiErrorNotice";
 import ChatIA from "./ChatIA";
 
 type Props = {
 	language: "pt" | "en";
-	transcript: string;
+	segments: TranscriptSegment[];
+	consultationId: string; // Também é o id do item no histórico
 	patientName?: string;
+	patientId?: string; // Paciente cadastrado escolhido no gravador
 	onBeforeFinalize?: () => void;
 	onFinalizeComplete?: () => void;
 	autoStart?: boolean;
@@ -15,14 +22,36 @@ type Props = {
 
 export type DiagnoseHandle = {
 	reset: () => void;
+	// Mostra o diagnóstico de uma consulta do histórico; ao salvar, vira nova revisão dela
+	open: (item: HistoryItem) => void;
 };
 
+type DiagnosisSection = "diagnosis" | "conditions" | "exams" | "medications" | "explanation";
+
+// Campos já utilizáveis do diagnóstico que ainda está chegando
+function toPartialDiagnosis(value: unknown): Partial<DiagnosisResponse> {
+	if (!value || typeof value !== "object") return {};
+	const data = value as Record<string, unknown>;
+	const text = (v: unknown) => (typeof v === "string" ? v : undefined);
+	const list = (v: unknown) =>
+		Array.isArray(v) ? v.filter((item): item is string => typeof item === "string") : undefined;
+	return {
+		diagnosis: text(data.diagnosis),
+		conditions: list(data.conditions),
+		exams: list(data.exams),
+		medications: list(data.medications),
+		explanation: text(data.explanation),
+	};
+}
+
 const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 	(
 		{
 			language,
-			transcript,
+			segments,
+			consultationId,
 			patientName,
+			patientId,
 			onBeforeFinalize,
 			onFinalizeComplete,
 			autoStart = false,
@@ -32,6 +61,20 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 		const [loading, setLoading] = useState(false);
 		const [result, setResult] = useState<DiagnosisResponse | null>(null);
 		const [showChat, setShowChat] = useState(false);
+		// Diagnóstico parcial enquanto o streaming não termina
+		const [streamed, setStreamed] = useState<PartialJson | null>(null);
+		const [error, setError] = useState<unknown>(null);
+		// Consulta com diagnóstico pronto que o navegador não conseguiu gravar
+		const [unsaved, setUnsaved] = useState<{ item: HistoryItem; error: HistoryStorageError } | null>(null);
+		// Consulta do histórico reaberta no espaço de trabalho
+		const [reopened, setReopened] = useState<HistoryItem | null>(null);
+		// Cancela o streaming em andamento (nova consulta, cancelar ou desmontar)
+		const abortRef = useRef<AbortController | null>(null);
+		// Diagnóstico chegando ou esperando para ser gravado: bloquear o perderia
+		useAutoLockHold(loading || unsaved !== null);
+
+		// Texto com prefixos enviado ao backend (apenas segmentos finais)
+		const transcript = serializeTranscript(segments, language);
 
 		// Auto-iniciar diagnóstico quando finalizar consulta
 		useEffect(() => {
@@ -40,37 +83,82 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 			}
 		}, [autoStart]); // Executa apenas quando autoStart mudar
 
+		useEffect(() => () => abortRef.current?.abort(), []);
+
 		// Expor função reset para o componente pai
 		useImperativeHandle(
 			ref,
 			() => ({
 				reset: () => {
+					abortRef.current?.abort();
 					setLoading(false);
 					setResult(null);
+					setStreamed(null);
+					setError(null);
+					setUnsaved(null);
+					setReopened(null);
+					setShowChat(false);
+				},
+				open: (item) => {
+					abortRef.current?.abort();
+					setLoading(false);
+					setResult(item.result);
+					setStreamed(null);
+					setError(null);
+					setUnsaved(null);
+					setReopened(item);
 					setShowChat(false);
 				},
 			}),
 			[],
 		);
 
-		async function saveAndReset(json: DiagnosisResponse) {
-			setResult(json);
-			const item: HistoryItem = {
-				id: crypto.randomUUID?.() || String(Date.now()),
+		// Consulta atual pronta para o histórico; a reaberta nunca é sobrescrita
+		function toHistoryItem(json: DiagnosisResponse): HistoryItem {
+			return {
+				id: consultationId,
 				timestamp: Date.now(),
 				language,
-				transcript,
+				segments: finalSegments(segments),
 				result: json,
-				patientName, // Incluir nome do paciente
+				patientName: patientName || reopened?.patientName, // Incluir nome do paciente
+				patientId: patientName ? patientId : reopened?.patientId,
+				revisionOf: reopened?.id,
 			};
-			saveHistoryItem(item);
-			onFinalizeComplete?.();
+		}
+
+		async function saveAndReset(json: DiagnosisResponse) {
+			setResult(json);
+			setStreamed(null);
+			await persist(toHistoryItem(json));
 			setLoading(false);
 		}
 
-		async function doFallbackRequest() {
-			const json = await diagnose(transcript, language);
-			await saveAndReset(json);
+		// Só conclui a consulta depois de gravada; se falhar, mantém para tentar de novo
+		async function persist(item: HistoryItem) {
+			try {
+				await saveHistoryItem(item);
+				setUnsaved(null);
+				setReopened(null);
+				onFinalizeComplete?.();
+			} catch (error) {
+				if (!(error instanceof HistoryStorageError)) throw error;
+				console.error("Erro ao salvar no histórico:", error);
+				setUnsaved({ item, error });
+			}
+		}
+
+		async function doFallbackRequest(signal: AbortSignal) {
+			try {
+				const json = await diagnose(transcript, language, signal);
+				await saveAndReset(json);
+			} catch (error) {
+				if (signal.aborted) return;
+				console.error("Erro ao gerar diagnóstico:", error);
+				setError(error);
+				setStreamed(null);
+				setLoading(false);
+			}
 		}
 
 		const onFinalize = async () => {
@@ -78,36 +166,68 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 			onBeforeFinalize?.(); 
 			setLoading(true);
 			setResult(null);
+			setStreamed(null);
+			setError(null);
+
+			abortRef.current?.abort();
+			const controller = new AbortController();
+			abortRef.current = controller;
 
 			try {
-				let accumulatedData = "";
-				const stop = streamDiagnose(transcript, language, (chunk) => {
-					accumulatedData += chunk;
-					// Não atualizar streamText para evitar mostrar JSON bruto
+				// Termina assim que o servidor sinaliza o fim do stream
+				let received = "";
+				const { text, complete } = await streamDiagnose(transcript, language, {
+					signal: controller.signal,
+					onChunk: (chunk) => {
+						received += chunk;
+						setStreamed(parsePartialJson(received));
+					},
 				});
-				
-				setTimeout(async () => {
-					stop();
-					
-					// Tentar processar dados acumulados do streaming
-					if (accumulatedData) {
-						try {
-							const parsedResult = JSON.parse(accumulatedData);
-							await saveAndReset(parsedResult);
-							return;
-						} catch (parseError) {
-							console.warn("Erro ao processar streaming, usando fallback:", parseError);
-						}
+				if (controller.signal.aborted) return;
+
+				if (text) {
+					try {
+						const json = validateDiagnosis(JSON.parse(text), language, "/api/diagnose/stream");
+						await saveAndReset(json);
+						return;
+					} catch (parseError) {
+						console.warn(
+							complete
+								? "Erro ao processar streaming, usando fallback:"
+								: "Streaming interrompido, usando fallback:",
+							parseError,
+						);
 					}
-					
-					// Fallback se streaming falhou
-					await doFallbackRequest();
-				}, 8000);
-			} catch {
-				await doFallbackRequest();
+				}
+			} catch (error) {
+				if (controller.signal.aborted) return;
+				console.warn("Erro no streaming, usando fallback:", error);
 			}
+
+			// Fallback se streaming falhou
+			await doFallbackRequest(controller.signal);
 		};
 
+		const cancel = () => {
+			abortRef.current?.abort();
+			setStreamed(null);
+			setLoading(false);
+		};
+
+		// Resultado final ou o que já chegou do streaming
+		const report: Partial<DiagnosisResponse> | null =
+			result ?? (streamed?.value ? toPartialDiagnosis(streamed.value) : null);
+		const isGenerating = (section: DiagnosisSection) =>
+			!result && !streamed?.completeKeys.includes(section);
+
+		const generatingMarker = (section: DiagnosisSection) =>
+			isGenerating(section) && (
+				<span className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-gray-500 animate-pulse">
+					<span className="w-1.5 h-1.5 bg-current rounded-full"></span>
+					{language === "pt" ? "gerando..." : "generating..."}
+				</span>
+			);
+
 	return (
 		<div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm space-y-6">
 			{/* Header com ícone e título */}
@@ -157,11 +277,64 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 									: "Analyzing symptoms with medical AI"}
 							</p>
 						</div>
+						<button
+							onClick={cancel}
+							className="text-sm text-blue-700 hover:text-blue-900 border border-blue-200 hover:bg-blue-100 px-3 py-1 rounded-md transition-colors"
+						>
+							{language === "pt" ? "Cancelar" : "Cancel"}
+						</button>
 					</div>
 				</div>
 			)}
 
-			{result && (
+			{reopened && (
+				<div className="bg-sky-50 border border-sky-200 rounded-xl p-4 space-y-2">
+					<p className="text-sky-800 text-sm">
+						🔁{" "}
+						{language === "pt"
+							? `Consulta de ${new Date(reopened.timestamp).toLocaleString()} reaberta. Ao finalizar, uma nova revisão é salva e a original é mantida.`
+							: `Consultation from ${new Date(reopened.timestamp).toLocaleString()} reopened. Finishing saves a new revision and keeps the original.`}
+					</p>
+					{/* Só a transcrição editada, mantendo o diagnóstico exibido */}
+					{result && !loading && transcript.trim() && (
+						<button
+							onClick={() => persist(toHistoryItem(result))}
+							className="bg-sky-500 hover:bg-sky-600 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+						>
+							{language === "pt" ? "Salvar revisão sem novo diagnóstico" : "Save revision without a new diagnosis"}
+						</button>
+					)}
+				</div>
+			)}
+
+			{unsaved && (
+				<div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-2">
+					<p className="text-amber-800 text-sm font-medium">
+						⚠️{" "}
+						{language === "pt"
+							? "A consulta não foi salva no histórico."
+							: "The consultation was not saved to the history."}{" "}
+						{historyErrorMessage(unsaved.error, language)}
+					</p>
+					<button
+						onClick={() => persist(unsaved.item)}
+						className="bg-amber-500 hover:bg-amber-600 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+					>
+						{language === "pt" ? "Tentar salvar novamente" : "Try saving again"}
+					</button>
+				</div>
+			)}
+
+			{/* Falha: mostra o que veio errado e permite tentar de novo */}
+			{error !== null && !loading && (
+				<ApiErrorNotice
+					language={language}
+					error={error}
+					onRetry={transcript.trim() ? onFinalize : undefined}
+				/>
+			)}
+
+			{report && (
 				<div className="space-y-6">
 					{/* Título principal reformulado */}
 					<div className="text-center pb-4">
@@ -192,8 +365,9 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 								<div className="flex-1">
 									<h4 className="text-lg font-semibold text-blue-800 mb-3">
 										{language === "pt" ? "Diagnóstico Provável" : "Probable Diagnosis"}
+										{generatingMarker("diagnosis")}
 									</h4>
-									<p className="text-blue-700 leading-relaxed text-base">{result.diagnosis}</p>
+									<p className="text-blue-700 leading-relaxed text-base">{report.diagnosis}</p>
 								</div>
 							</div>
 						</div>
@@ -209,9 +383,10 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 								<div className="flex-1">
 									<h4 className="text-lg font-semibold text-amber-800 mb-3">
 										{language === "pt" ? "Condições Identificadas" : "Identified Conditions"}
+										{generatingMarker("conditions")}
 									</h4>
 									<div className="flex flex-wrap gap-2">
-										{result.conditions.map((condition, index) => (
+										{(report.conditions ?? []).map((condition, index) => (
 											<span 
 												key={index} 
 												className="inline-flex items-center px-3 py-1.5 rounded-full text-sm font-medium bg-amber-100 text-amber-800 border border-amber-200"
@@ -235,9 +410,10 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 								<div className="flex-1">
 									<h4 className="text-lg font-semibold text-purple-800 mb-3">
 										{language === "pt" ? "Exames Sugeridos" : "Suggested Tests"}
+										{generatingMarker("exams")}
 									</h4>
 									<div className="space-y-2">
-										{result.exams.map((exam, index) => (
+										{(report.exams ?? []).map((exam, index) => (
 											<div 
 												key={index} 
 												className="flex items-center gap-2 p-2 bg-purple-50 rounded-lg border border-purple-100"
@@ -262,9 +438,10 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 								<div className="flex-1">
 									<h4 className="text-lg font-semibold text-emerald-800 mb-3">
 										{language === "pt" ? "Medicamentos Recomendados" : "Recommended Medications"}
+										{generatingMarker("medications")}
 									</h4>
 									<div className="space-y-2">
-										{result.medications.map((medication, index) => (
+										{(report.medications ?? []).map((medication, index) => (
 											<div 
 												key={index} 
 												className="flex items-start gap-3 p-3 bg-emerald-50 rounded-lg border border-emerald-100"
@@ -281,7 +458,7 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 						</div>
 
 						{/* Raciocínio da IA */}
-						{result.explanation && (
+						{report.explanation && (
 							<div className="bg-gradient-to-r from-gray-50 to-slate-50 border border-gray-200 rounded-xl p-6">
 								<div className="flex items-start gap-4">
 									<div className="w-10 h-10 bg-gray-500 rounded-full flex items-center justify-center flex-shrink-0">
@@ -292,8 +469,9 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 									<div className="flex-1">
 										<h4 className="text-lg font-semibold text-gray-800 mb-3">
 											{language === "pt" ? "Raciocínio da IA" : "AI Reasoning"}
+											{generatingMarker("explanation")}
 										</h4>
-										<p className="text-gray-700 leading-relaxed mb-4">{result.explanation}</p>
+										<p className="text-gray-700 leading-relaxed mb-4">{report.explanation}</p>
 										<div className="bg-gray-100 border border-gray-200 rounded-lg p-3">
 											<p className="text-xs text-gray-600 flex items-center gap-2">
 												<svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -309,29 +487,31 @@ const DiagnoseView = forwardRef<DiagnoseHandle, Props>(
 							</div>
 						)}
 
-						
-						<div className="flex justify-center pt-4">
-							<button
-								className="group bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white px-8 py-4 rounded-xl font-semibold transition-all duration-200 shadow-lg hover:shadow-xl transform hover:-translate-y-1 flex items-center gap-3"
-								onClick={() => setShowChat(!showChat)}
-								type="button"
-							>
-								<div className="w-8 h-8 bg-white/20 rounded-full flex items-center justify-center">
-									<svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-										<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-									</svg>
-								</div>
-								<span className="text-lg">
-									{showChat
-										? language === "pt"
-											? "Fechar Chat com IA"
-											: "Close AI Chat"
-										: language === "pt"
-											? "Chat com IA Médica"
-											: "Chat with Medical AI"}
-								</span>
-							</button>
-						</div>
+						{/* Chat só com o diagnóstico completo */}
+						{result && (
+							<div className="flex justify-center pt-4">
+								<button
+									className="group bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white px-8 py-4 rounded-xl font-semibold transition-all duration-200 shadow-lg hover:shadow-xl transform hover:-translate-y-1 flex items-center gap-3"
+									onClick={() => setShowChat(!showChat)}
+									type="button"
+								>
+									<div className="w-8 h-8 bg-white/20 rounded-full flex items-center justify-center">
+										<svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+										</svg>
+									</div>
+									<span className="text-lg">
+										{showChat
+											? language === "pt"
+												? "Fechar Chat com IA"
+												: "Close AI Chat"
+											: language === "pt"
+												? "Chat com IA Médica"
+												: "Chat with Medical AI"}
+									</span>
+								</button>
+							</div>
+						)}
 					</div>
 				</div>
 			)}
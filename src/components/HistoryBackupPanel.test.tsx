@@ -0,0 +1,77 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { getHistoryItem, loadHistory, saveHistoryItem } from "../lib/history";
+import { exportHistoryJson } from "../lib/historyBackup";
+import { saveSettings } from "../lib/settings";
+import { historyItem } from "../test/fixtures";
+import HistoryBackupPanel from "./HistoryBackupPanel";
+
+// O File do jsdom não tem text()
+const chooseFile = (content: string) =>
+	fireEvent.change(screen.getByLabelText("Arquivo de backup"), {
+		target: {
+			files: [
+				Object.assign(new File([content], "backup.json", { type: "application/json" }), {
+					text: async () => content,
+				}),
+			],
+		},
+	});
+
+describe("HistoryBackupPanel", () => {
+	it("mostra o resumo do arquivo e importa só depois de confirmar", async () => {
+		const existing = historyItem({ id: "a", patientName: "Ana" });
+		await saveHistoryItem(existing);
+		render(<HistoryBackupPanel items={[]} filtered={false} />);
+
+		chooseFile(exportHistoryJson([{ ...existing, patientName: "Ana Souza" }, historyItem({ id: "b" })]));
+
+		expect(await screen.findByText("1 nova(s)")).toBeInTheDocument();
+		expect(screen.getByText(/1 em conflito/)).toBeInTheDocument();
+		expect(await loadHistory()).toHaveLength(1);
+
+		fireEvent.click(screen.getByLabelText("Substituir pela versão do arquivo"));
+		fireEvent.click(screen.getByRole("button", { name: "Importar 2 consulta(s)" }));
+
+		expect(await screen.findByText("2 consulta(s) importada(s).")).toBeInTheDocument();
+		expect(await loadHistory()).toHaveLength(2);
+		expect((await getHistoryItem("a"))?.patientName).toBe("Ana Souza");
+	});
+
+	it("só revoga o link do arquivo exportado depois do clique", async () => {
+		// O jsdom não tem URLs de Blob
+		const createObjectURL = vi.fn(() => "blob:backup");
+		const revokeObjectURL = vi.fn();
+		vi.stubGlobal("URL", Object.assign(class extends URL {}, { createObjectURL, revokeObjectURL }));
+		const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+		render(<HistoryBackupPanel items={[historyItem()]} filtered={false} />);
+
+		fireEvent.click(screen.getByRole("button", { name: "Exportar JSON" }));
+
+		expect(click).toHaveBeenCalled();
+		expect(revokeObjectURL).not.toHaveBeenCalled();
+		await waitFor(() => expect(revokeObjectURL).toHaveBeenCalledWith("blob:backup"));
+	});
+
+	it("deixa de fora as consultas que a retenção apagaria", async () => {
+		saveSettings({ retentionDays: 30 });
+		render(<HistoryBackupPanel items={[]} filtered={false} />);
+
+		const old = Date.now() - 90 * 24 * 60 * 60 * 1000;
+		chooseFile(exportHistoryJson([historyItem({ id: "recente" }), historyItem({ id: "antiga", timestamp: old })]));
+
+		expect(await screen.findByText(/1 consulta\(s\) do arquivo estão fora da política de retenção/)).toBeInTheDocument();
+		fireEvent.click(screen.getByRole("button", { name: "Importar 1 consulta(s)" }));
+
+		expect(await screen.findByText("1 consulta(s) importada(s).")).toBeInTheDocument();
+		expect((await loadHistory()).map((item) => item.id)).toEqual(["recente"]);
+	});
+
+	it("avisa quando o arquivo não é um backup", async () => {
+		render(<HistoryBackupPanel items={[]} filtered={false} />);
+
+		chooseFile("não é json");
+
+		expect(await screen.findByText("O arquivo não é um JSON válido")).toBeInTheDocument();
+	});
+});
@@ -0,0 +1,220 @@
+import { type ChangeEvent, useEffect, useRef, useState } from "react";
+import { historyErrorMessage, saveHistoryItems } from "../lib/history";
+import {
+	exportHistoryCsv,
+	exportHistoryJson,
+	type HistoryImportPlan,
+	itemsToImport,
+	planHistoryImport,
+} from "../lib/historyBackup";
+import { previewImportRetention } from "../lib/retention";
+import type { HistoryItem } from "../lib/types";
+
+type Props = {
+	items: HistoryItem[]; // Consultas exportadas (as visíveis com os filtros atuais)
+	filtered: boolean;
+};
+
+function downloadFile(name: string, content: string, type: string) {
+	const url = URL.createObjectURL(new Blob([content], { type }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = name;
+	link.click();
+	// Alguns navegadores só começam o download depois do clique; revogar na hora cancela
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+const fileDate = () => new Date().toISOString().slice(0, 10);
+
+export default function HistoryBackupPanel({ items, filtered }: Props) {
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [plan, setPlan] = useState<HistoryImportPlan | null>(null);
+	const [replaceConflicts, setReplaceConflicts] = useState(false);
+	// Consultas do arquivo que a política de retenção apagaria de vez na próxima limpeza
+	const [expiring, setExpiring] = useState<Set<string>>(new Set());
+	const [skipExpiring, setSkipExpiring] = useState(true);
+	const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+	useEffect(() => {
+		let active = true;
+		setExpiring(new Set());
+		if (!plan) return;
+		previewImportRetention(itemsToImport(plan, replaceConflicts))
+			.then((candidates) => active && setExpiring(new Set(candidates.map(({ item }) => item.id))))
+			.catch((error) => console.error("Erro ao conferir a retenção do backup:", error));
+		return () => {
+			active = false;
+		};
+	}, [plan, replaceConflicts]);
+
+	const selectedItems = () =>
+		plan
+			? itemsToImport(plan, replaceConflicts).filter((item) => !(skipExpiring && expiring.has(item.id)))
+			: [];
+
+	const onFileChosen = async (event: ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		event.target.value = ""; // Permite escolher o mesmo arquivo de novo
+		if (!file) return;
+		setPlan(null);
+		setReplaceConflicts(false);
+		setSkipExpiring(true);
+		try {
+			setPlan(await planHistoryImport(await file.text()));
+			setMessage(null);
+		} catch (error) {
+			console.error("Erro ao ler backup:", error);
+			setMessage({ text: error instanceof Error ? error.message : String(error), error: true });
+		}
+	};
+
+	const confirmImport = async () => {
+		if (!plan) return;
+		const selected = selectedItems();
+		try {
+			await saveHistoryItems(selected);
+			setPlan(null);
+			setMessage({ text: `${selected.length} consulta(s) importada(s).`, error: false });
+		} catch (error) {
+			console.error("Erro ao importar backup:", error);
+			setMessage({ text: historyErrorMessage(error, "pt"), error: true });
+		}
+	};
+
+	const importCount = selectedItems().length;
+
+	return (
+		<details className="bg-gray-50 border border-gray-200 rounded-md text-xs">
+			<summary className="cursor-pointer p-3 hover:bg-gray-100 transition-colors font-medium text-gray-700">
+				💾 Backup
+			</summary>
+			<div className="border-t border-gray-200 p-3 space-y-3">
+				<div className="space-y-1">
+					<p className="text-gray-500">
+						{filtered
+							? `Exportar as ${items.length} consulta(s) filtrada(s):`
+							: `Exportar todas as ${items.length} consulta(s):`}
+					</p>
+					<div className="flex gap-2">
+						<button
+							onClick={() =>
+								downloadFile(`mednote-historico-${fileDate()}.json`, exportHistoryJson(items), "application/json")
+							}
+							disabled={items.length === 0}
+							className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-2 py-1 rounded transition-colors"
+						>
+							Exportar JSON
+						</button>
+						<button
+							onClick={() =>
+								downloadFile(`mednote-historico-${fileDate()}.csv`, exportHistoryCsv(items), "text/csv;charset=utf-8")
+							}
+							disabled={items.length === 0}
+							className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-2 py-1 rounded transition-colors"
+						>
+							Exportar CSV
+						</button>
+					</div>
+				</div>
+
+				<div className="space-y-2 border-t border-gray-200 pt-3">
+					<button
+						onClick={() => fileInputRef.current?.click()}
+						className="w-full border border-blue-300 text-blue-700 hover:bg-blue-50 px-2 py-1 rounded transition-colors"
+					>
+						Importar backup (JSON)
+					</button>
+					<input
+						ref={fileInputRef}
+						type="file"
+						accept="application/json,.json"
+						onChange={onFileChosen}
+						aria-label="Arquivo de backup"
+						className="hidden"
+					/>
+
+					{/* Resumo do arquivo antes de gravar */}
+					{plan && (
+						<div className="bg-white border border-gray-200 rounded-md p-2 space-y-2">
+							<ul className="text-gray-700 space-y-0.5">
+								<li>{plan.added.length} nova(s)</li>
+								<li>{plan.duplicates.length} já no histórico (ignoradas)</li>
+								<li>{plan.conflicts.length} em conflito (mesmo id, conteúdo diferente)</li>
+								<li>{plan.invalid.length} inválida(s)</li>
+							</ul>
+
+							{plan.conflicts.length > 0 && (
+								<div className="space-y-1">
+									<ul className="text-amber-700 space-y-0.5">
+										{plan.conflicts.map(({ existing }) => (
+											<li key={existing.id}>
+												⚠️ {existing.patientName || "Sem nome"} ·{" "}
+												{new Date(existing.timestamp).toLocaleString()}
+											</li>
+										))}
+									</ul>
+									<label className="flex items-center gap-2 text-gray-700">
+										<input
+											type="checkbox"
+											checked={replaceConflicts}
+											onChange={(e) => setReplaceConflicts(e.target.checked)}
+										/>
+										Substituir pela versão do arquivo
+									</label>
+								</div>
+							)}
+
+							{expiring.size > 0 && (
+								<div className="space-y-1">
+									<p className="text-amber-700">
+										⚠️ {expiring.size} consulta(s) do arquivo estão fora da política de retenção e
+										seriam apagadas de vez na próxima limpeza automática.
+									</p>
+									<label className="flex items-center gap-2 text-gray-700">
+										<input
+											type="checkbox"
+											checked={skipExpiring}
+											onChange={(e) => setSkipExpiring(e.target.checked)}
+										/>
+										Não importar essas consultas
+									</label>
+								</div>
+							)}
+
+							{plan.invalid.length > 0 && (
+								<ul className="text-red-700 space-y-0.5">
+									{plan.invalid.map(({ index, issues }) => (
+										<li key={index}>
+											Consulta {index}: {issues.join("; ")}
+										</li>
+									))}
+								</ul>
+							)}
+
+							<div className="flex gap-2">
+								<button
+									onClick={confirmImport}
+									disabled={importCount === 0}
+									className="flex-1 bg-green-500 hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-2 py-1 rounded transition-colors"
+								>
+									Importar {importCount} consulta(s)
+								</button>
+								<button
+									onClick={() => setPlan(null)}
+									className="flex-1 border border-gray-300 hover:bg-gray-100 px-2 py-1 rounded transition-colors"
+								>
+									Cancelar
+								</button>
+							</div>
+						</div>
+					)}
+
+					{message && (
+						<p className={message.error ? "text-red-700" : "text-green-700"}>{message.text}</p>
+					)}
+				</div>
+			</div>
+		</details>
+	);
+}
@@ -0,0 +1,84 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { loadHistory, loadTrash, saveHistoryItem } from "../lib/history";
+import { diagnosis, historyItem } from "../test/fixtures";
+import HistoryDrawer from "./HistoryDrawer";
+
+describe("HistoryDrawer", () => {
+	it("filtra as consultas pela busca e destaca as palavras encontradas", async () => {
+		await saveHistoryItem(historyItem({ patientName: "Ana", result: diagnosis({ diagnosis: "Faringite viral" }) }));
+		await saveHistoryItem(historyItem({ patientName: "Bruno", result: diagnosis({ diagnosis: "Enxaqueca" }) }));
+
+		render(<HistoryDrawer />);
+		await screen.findByText(/Bruno/);
+
+		fireEvent.change(screen.getByLabelText("Buscar no histórico"), { target: { value: "faringite" } });
+
+		expect(screen.getByText("1 de 2 consulta(s)")).toBeInTheDocument();
+		expect(screen.queryByText(/Bruno/)).not.toBeInTheDocument();
+		expect(screen.getByText("Faringite", { selector: "mark" })).toBeInTheDocument();
+	});
+
+	it("abre a consulta escolhida e indica as revisões", async () => {
+		const original = historyItem({ id: "original", patientName: "Ana", timestamp: 1000 });
+		await saveHistoryItem(original);
+		await saveHistoryItem(historyItem({ id: "revisao", patientName: "Ana", revisionOf: "original" }));
+		const onOpen = vi.fn();
+
+		render(<HistoryDrawer onOpen={onOpen} />);
+		expect(await screen.findByText(/Revisão da consulta de/)).toBeInTheDocument();
+
+		const buttons = screen.getAllByRole("button", { name: "Abrir" });
+		fireEvent.click(buttons[buttons.length - 1]);
+		expect(onOpen).toHaveBeenCalledWith(original);
+	});
+
+	it("exclui uma consulta e desfaz pelo aviso", async () => {
+		await saveHistoryItem(historyItem({ id: "ana", patientName: "Ana" }));
+		await saveHistoryItem(historyItem({ id: "bruno", patientName: "Bruno" }));
+
+		render(<HistoryDrawer />);
+		await screen.findByText(/Ana/);
+		const [, anaDelete] = screen.getAllByRole("button", { name: "Excluir" });
+		fireEvent.click(anaDelete);
+
+		expect(await screen.findByText("Consulta movida para a lixeira.")).toBeInTheDocument();
+		expect(screen.queryByText("Paciente: Ana")).not.toBeInTheDocument();
+		expect(screen.getByText("Paciente: Bruno")).toBeInTheDocument();
+		expect(screen.getByText("🗑️ Lixeira (1)")).toBeInTheDocument();
+
+		fireEvent.click(screen.getByRole("button", { name: "Desfazer" }));
+		await waitFor(() => expect(screen.queryByText(/Lixeira/)).not.toBeInTheDocument());
+		expect((await loadHistory()).map((item) => item.id)).toEqual(["bruno", "ana"]);
+	});
+
+	it("só limpa o histórico depois de confirmar", async () => {
+		await saveHistoryItem(historyItem({ patientName: "Ana" }));
+		const confirm = vi.spyOn(window, "confirm").mockReturnValue(false);
+
+		render(<HistoryDrawer />);
+		await screen.findByText(/Ana/);
+		fireEvent.click(screen.getByRole("button", { name: "Limpar" }));
+		expect(confirm).toHaveBeenCalled();
+		expect(await loadHistory()).toHaveLength(1);
+
+		confirm.mockReturnValue(true);
+		fireEvent.click(screen.getByRole("button", { name: "Limpar" }));
+
+		expect(await screen.findByText("Sem consultas salvas ainda.")).toBeInTheDocument();
+		expect(await loadTrash()).toHaveLength(1);
+	});
+
+	it("diferencia histórico vazio de busca sem resultados", async () => {
+		await saveHistoryItem(historyItem({ patientName: "Ana" }));
+
+		render(<HistoryDrawer />);
+		await screen.findByText(/Ana/);
+
+		fireEvent.change(screen.getByLabelText("Buscar no histórico"), { target: { value: "inexistente" } });
+		expect(screen.getByText("Nenhuma consulta encontrada.")).toBeInTheDocument();
+
+		fireEvent.click(screen.getByText("Limpar filtros"));
+		expect(screen.getByText(/Ana/)).toBeInTheDocument();
+	});
+});
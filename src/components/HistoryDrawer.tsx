@@ -1,15 +1,69 @@
-import { useEffect, useMemo, useState } from "react";
-import { clearHistory, loadHistory } from "../lib/history";
+import { type ReactNode, useEffect, useMemo, useState } from "react";
+import { useSettings } from "../hooks/useSettings";
+import {
+	clearHistory,
+	deleteHistoryItems,
+	emptyTrash,
+	historyErrorMessage,
+	historyStorageEstimate,
+	type HistoryUpdatedDetail,
+	loadHistory,
+	loadTrash,
+	purgeHistoryItems,
+	restoreHistoryItems,
+	setHistoryItemPinned,
+} from "../lib/history";
+import {
+	distinctValues,
+	EMPTY_FILTERS,
+	filterHistory,
+	hasActiveFilters,
+	type HistoryFilters,
+	matchRanges,
+	searchTerms,
+	toDateKey,
+} from "../lib/historySearch";
+import { serializeTranscript } from "../lib/transcript";
 import type { HistoryItem } from "../lib/types";
+import HistoryBackupPanel from "./HistoryBackupPanel";
 
 type Groups = Record<string, HistoryItem[]>;
 
-function toDateKey(ts: number) {
-	const d = new Date(ts);
-	const y = d.getFullYear();
-	const m = String(d.getMonth() + 1).padStart(2, "0");
-	const day = String(d.getDate()).padStart(2, "0");
-	return `${y}-${m}-${day}`; // chave local YYYY-MM-DD
+type Props = {
+	onOpen?: (item: HistoryItem) => void; // Reabre a consulta no espaço de trabalho
+};
+
+// Texto com as palavras buscadas destacadas
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+	const ranges = matchRanges(text, terms);
+	if (ranges.length === 0) return <>{text}</>;
+
+	const parts: ReactNode[] = [];
+	let cursor = 0;
+	for (const { start, end } of ranges) {
+		if (start > cursor) parts.push(text.slice(cursor, start));
+		parts.push(
+			<mark key={start} className="bg-yellow-200 text-inherit rounded-sm">
+				{text.slice(start, end)}
+			</mark>,
+		);
+		cursor = end;
+	}
+	parts.push(text.slice(cursor));
+	return <>{parts}</>;
+}
+
+// Tempo para desfazer pelo aviso; depois disso, só pela lixeira
+const UNDO_TIMEOUT_MS = 10000;
+
+// Aplica uma mudança do evento "history-updated" à lista ativa ou à lixeira
+function applyUpdate(list: HistoryItem[], detail: HistoryUpdatedDetail, inTrash: boolean) {
+	const changed = new Set(detail.type === "purged" ? detail.ids : detail.items.map((item) => item.id));
+	const rest = list.filter((item) => !changed.has(item.id));
+	if (detail.type !== (inTrash ? "deleted" : "saved")) return rest;
+	return [...rest, ...detail.items].sort((a, b) =>
+		inTrash ? b.deletedAt! - a.deletedAt! : b.timestamp - a.timestamp,
+	);
 }
 
 function formatDateLabel(key: string) {
@@ -22,22 +76,99 @@ function formatDateLabel(key: string) {
 	}); // ex: 12 Nov 2025
 }
 
-export default function HistoryDrawer() {
+function formatMegabytes(bytes: number) {
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function HistoryDrawer({ onOpen }: Props) {
 	const [items, setItems] = useState<HistoryItem[]>([]);
+	const [error, setError] = useState<unknown>(null);
+	const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+	const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+	const [trash, setTrash] = useState<HistoryItem[]>([]);
+	// Última exclusão, enquanto o aviso com "Desfazer" está visível
+	const [undo, setUndo] = useState<HistoryItem[] | null>(null);
+	const [settings] = useSettings();
+
+	const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) =>
+		setFilters((prev) => ({ ...prev, [key]: value }));
 
-	const refresh = () => setItems(loadHistory());
+	const refreshUsage = async () => setUsage(await historyStorageEstimate().catch(() => null));
+
+	const refresh = async () => {
+		try {
+			const [history, deleted] = await Promise.all([loadHistory(), loadTrash()]);
+			setItems(history);
+			setTrash(deleted);
+			setError(null);
+		} catch (loadError) {
+			console.error("Erro ao carregar histórico:", loadError);
+			setError(loadError);
+		}
+		await refreshUsage();
+	};
+
+	// Falhas das ações aparecem no aviso de erro do histórico
+	const run = (action: () => Promise<unknown>) =>
+		action().catch((actionError) => {
+			console.error("Erro ao atualizar histórico:", actionError);
+			setError(actionError);
+		});
+
+	const remove = (id: string) => run(async () => setUndo(await deleteHistoryItems([id])));
+
+	const clear = () => {
+		const days = settings.trashRetentionDays;
+		const message = `Mover as ${items.length} consultas para a lixeira? Elas podem ser restauradas por ${days} dia(s).`;
+		if (!window.confirm(message)) return;
+		run(async () => setUndo(await clearHistory()));
+	};
+
+	const undoDelete = () => {
+		if (!undo) return;
+		setUndo(null);
+		run(() => restoreHistoryItems(undo.map((item) => item.id)));
+	};
+
+	const purge = (id: string) => {
+		if (!window.confirm("Excluir esta consulta definitivamente? Não será possível desfazer.")) return;
+		run(() => purgeHistoryItems([id]));
+	};
+
+	const clearTrash = () => {
+		if (!window.confirm(`Excluir definitivamente as ${trash.length} consultas da lixeira?`)) return;
+		run(emptyTrash);
+	};
 
 	useEffect(() => {
 		refresh();
-		const handler = () => refresh();
+		const handler = (event: Event) => {
+			const { detail } = event as CustomEvent<HistoryUpdatedDetail>;
+			setItems((prev) => applyUpdate(prev, detail, false));
+			setTrash((prev) => applyUpdate(prev, detail, true));
+			refreshUsage();
+		};
 		window.addEventListener("history-updated", handler);
 		return () => window.removeEventListener("history-updated", handler);
 	}, []);
 
+	useEffect(() => {
+		if (!undo) return;
+		const timer = window.setTimeout(() => setUndo(null), UNDO_TIMEOUT_MS);
+		return () => window.clearTimeout(timer);
+	}, [undo]);
+
+	const filtering = hasActiveFilters(filters);
+	const terms = useMemo(() => searchTerms(filters.query), [filters.query]);
+	const visible = useMemo(() => filterHistory(items, filters), [items, filters]);
+	const byId = useMemo(() => new Map(items.map((item) => [item.id, item])), [items]);
+	const conditionOptions = useMemo(() => distinctValues(items, "conditions"), [items]);
+	const medicationOptions = useMemo(() => distinctValues(items, "medications"), [items]);
+
 	// Agrupa por data (mais recente primeiro por grupo e entre grupos)
 	const groups = useMemo<Groups>(() => {
 		const g: Groups = {};
-		for (const it of items) {
+		for (const it of visible) {
 			const key = toDateKey(it.timestamp);
 			(g[key] ||= []).push(it);
 		}
@@ -45,7 +176,7 @@ export default function HistoryDrawer() {
 		for (const k of Object.keys(g))
 			g[k].sort((a, b) => b.timestamp - a.timestamp);
 		return g;
-	}, [items]);
+	}, [visible]);
 
 	const orderedKeys = useMemo(
 		() => Object.keys(groups).sort((a, b) => (a < b ? 1 : -1)),
@@ -58,25 +189,142 @@ export default function HistoryDrawer() {
 			<div className="flex items-center justify-between">
 				<h3 className="text-lg font-semibold text-gray-800">Histórico</h3>
 				<button
-					onClick={() => clearHistory()}
-					className="text-xs bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded-md transition-colors"
+					onClick={clear}
+					disabled={items.length === 0}
+					className="text-xs bg-red-500 hover:bg-red-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md transition-colors"
 				>
 					Limpar
 				</button>
 			</div>
 
+			{/* Busca e filtros */}
+			<div className="space-y-2">
+				<input
+					type="search"
+					value={filters.query}
+					onChange={(e) => updateFilter("query", e.target.value)}
+					placeholder="Buscar paciente, sintoma, diagnóstico..."
+					aria-label="Buscar no histórico"
+					className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+				/>
+				<details className="text-xs">
+					<summary className="cursor-pointer text-gray-600 hover:text-gray-800">Filtros</summary>
+					<div className="grid grid-cols-2 gap-2 pt-2">
+						<label className="space-y-1">
+							<span className="block text-gray-500">De</span>
+							<input
+								type="date"
+								value={filters.from}
+								onChange={(e) => updateFilter("from", e.target.value)}
+								className="w-full border border-gray-300 rounded px-2 py-1"
+							/>
+						</label>
+						<label className="space-y-1">
+							<span className="block text-gray-500">Até</span>
+							<input
+								type="date"
+								value={filters.to}
+								onChange={(e) => updateFilter("to", e.target.value)}
+								className="w-full border border-gray-300 rounded px-2 py-1"
+							/>
+						</label>
+						<label className="space-y-1">
+							<span className="block text-gray-500">Idioma</span>
+							<select
+								value={filters.language}
+								onChange={(e) => updateFilter("language", e.target.value as HistoryFilters["language"])}
+								className="w-full border border-gray-300 rounded px-2 py-1 bg-white"
+							>
+								<option value="">Todos</option>
+								<option value="pt">PT</option>
+								<option value="en">EN</option>
+							</select>
+						</label>
+						<label className="space-y-1">
+							<span className="block text-gray-500">Condição</span>
+							<select
+								value={filters.condition}
+								onChange={(e) => updateFilter("condition", e.target.value)}
+								className="w-full border border-gray-300 rounded px-2 py-1 bg-white"
+							>
+								<option value="">Todas</option>
+								{conditionOptions.map((condition) => (
+									<option key={condition} value={condition}>
+										{condition}
+									</option>
+								))}
+							</select>
+						</label>
+						<label className="space-y-1 col-span-2">
+							<span className="block text-gray-500">Medicamento</span>
+							<select
+								value={filters.medication}
+								onChange={(e) => updateFilter("medication", e.target.value)}
+								className="w-full border border-gray-300 rounded px-2 py-1 bg-white"
+							>
+								<option value="">Todos</option>
+								{medicationOptions.map((medication) => (
+									<option key={medication} value={medication}>
+										{medication}
+									</option>
+								))}
+							</select>
+						</label>
+					</div>
+				</details>
+				{filtering && (
+					<div className="flex items-center justify-between text-xs text-gray-500">
+						<span>
+							{visible.length} de {items.length} consulta(s)
+						</span>
+						<button
+							onClick={() => setFilters(EMPTY_FILTERS)}
+							className="text-blue-600 hover:underline"
+						>
+							Limpar filtros
+						</button>
+					</div>
+				)}
+			</div>
+
+			{undo && (
+				<div className="flex items-center justify-between text-xs bg-gray-800 text-white rounded-md px-3 py-2">
+					<span>
+						{undo.length === 1
+							? "Consulta movida para a lixeira."
+							: `${undo.length} consultas movidas para a lixeira.`}
+					</span>
+					<button onClick={undoDelete} className="font-semibold text-yellow-300 hover:underline">
+						Desfazer
+					</button>
+				</div>
+			)}
+
+			{error !== null && (
+				<p className="text-xs text-red-700 bg-red-50 border border-red-200 rounded-md p-2">
+					{historyErrorMessage(error, "pt")}
+				</p>
+			)}
+
 			{/* Conteúdo */}
 			<div className="space-y-3 max-h-96 overflow-y-auto">
-				{items.length === 0 ? (
+				{visible.length === 0 ? (
 					<p className="text-gray-500 text-sm text-center py-4">
-						Sem consultas salvas ainda.
+						{items.length === 0
+							? "Sem consultas salvas ainda."
+							: "Nenhuma consulta encontrada."}
 					</p>
 				) : (
 					<div className="space-y-3">
 						{orderedKeys.map((key) => {
 							const list = groups[key];
 							return (
-								<details key={key} className="bg-gray-50 border border-gray-200 rounded-md">
+								<details
+									key={key}
+									// Com busca ativa os dias já vêm abertos, mostrando os resultados
+									open={filtering || undefined}
+									className="bg-gray-50 border border-gray-200 rounded-md"
+								>
 									<summary className="cursor-pointer p-3 hover:bg-gray-100 transition-colors flex items-center justify-between">
 										<div className="flex items-center gap-2">
 											<span className="text-gray-400">▶</span>
@@ -94,15 +342,53 @@ export default function HistoryDrawer() {
 															minute: "2-digit",
 														})}
 													</span>
-													<span className="bg-gray-200 text-gray-700 px-2 py-1 rounded">
-														{i.language.toUpperCase()}
-													</span>
+													<div className="flex items-center gap-2">
+														<span className="bg-gray-200 text-gray-700 px-2 py-1 rounded">
+															{i.language.toUpperCase()}
+														</span>
+														{onOpen && (
+															<button
+																onClick={() => onOpen(i)}
+																className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded transition-colors"
+															>
+																Abrir
+															</button>
+														)}
+														<button
+															onClick={() => run(() => setHistoryItemPinned(i.id, !i.pinned))}
+															title={i.pinned ? "Desafixar" : "Fixar (não é apagada pela retenção)"}
+															aria-label={i.pinned ? "Desafixar" : "Fixar"}
+															aria-pressed={!!i.pinned}
+															className={`px-2 py-1 rounded border transition-colors ${
+																i.pinned
+																	? "bg-amber-100 border-amber-300"
+																	: "border-gray-200 opacity-50 hover:opacity-100"
+															}`}
+														>
+															📌
+														</button>
+														<button
+															onClick={() => remove(i.id)}
+															className="text-red-600 hover:bg-red-50 border border-red-200 px-2 py-1 rounded transition-colors"
+														>
+															Excluir
+														</button>
+													</div>
 												</div>
 
+												{/* Revisão de uma consulta reaberta */}
+												{i.revisionOf && (
+													<div className="text-xs text-sky-700 bg-sky-50 px-2 py-1 rounded">
+														🔁 Revisão
+														{byId.has(i.revisionOf) &&
+															` da consulta de ${new Date(byId.get(i.revisionOf)!.timestamp).toLocaleString()}`}
+													</div>
+												)}
+
 												{/* Nome do Paciente */}
 												{i.patientName && (
 													<div className="text-xs font-semibold text-green-600 bg-green-50 px-2 py-1 rounded">
-														Paciente: {i.patientName}
+														Paciente: <Highlight text={i.patientName} terms={terms} />
 													</div>
 												)}
 
@@ -111,8 +397,8 @@ export default function HistoryDrawer() {
 														<div className="text-xs font-medium text-gray-500 mb-1">
 															Transcrição
 														</div>
-														<div className="text-xs text-gray-700 bg-gray-50 p-2 rounded text-wrap break-words">
-															{i.transcript}
+														<div className="text-xs text-gray-700 bg-gray-50 p-2 rounded text-wrap break-words whitespace-pre-line">
+															<Highlight text={serializeTranscript(i.segments, i.language)} terms={terms} />
 														</div>
 													</div>
 
@@ -122,20 +408,25 @@ export default function HistoryDrawer() {
 														</div>
 														<div className="text-xs space-y-1">
 															<p className="text-blue-700">
-																<span className="font-medium">Diagnóstico:</span> {i.result.diagnosis}
+																<span className="font-medium">Diagnóstico:</span>{" "}
+																<Highlight text={i.result.diagnosis} terms={terms} />
 															</p>
 															<p className="text-orange-700">
-																<span className="font-medium">Condições:</span> {i.result.conditions.join(", ")}
+																<span className="font-medium">Condições:</span>{" "}
+																<Highlight text={i.result.conditions.join(", ")} terms={terms} />
 															</p>
 															<p className="text-purple-700">
-																<span className="font-medium">Exames:</span> {i.result.exams.join(", ")}
+																<span className="font-medium">Exames:</span>{" "}
+																<Highlight text={i.result.exams.join(", ")} terms={terms} />
 															</p>
 															<p className="text-green-700">
-																<span className="font-medium">Medicamentos:</span> {i.result.medications.join(", ")}
+																<span className="font-medium">Medicamentos:</span>{" "}
+																<Highlight text={i.result.medications.join(", ")} terms={terms} />
 															</p>
 															{i.result.explanation && (
 																<p className="text-gray-700">
-																	<span className="font-medium">Explicação:</span> {i.result.explanation}
+																	<span className="font-medium">Explicação:</span>{" "}
+																	<Highlight text={i.result.explanation} terms={terms} />
 																</p>
 															)}
 														</div>
@@ -150,6 +441,53 @@ export default function HistoryDrawer() {
 					</div>
 				)}
 			</div>
+
+			{/* Lixeira: consultas excluídas, restauráveis até o prazo das configurações */}
+			{trash.length > 0 && (
+				<details className="bg-gray-50 border border-gray-200 rounded-md text-xs">
+					<summary className="cursor-pointer p-3 hover:bg-gray-100 transition-colors font-medium text-gray-700">
+						🗑️ Lixeira ({trash.length})
+					</summary>
+					<div className="border-t border-gray-200 p-3 space-y-2">
+						<p className="text-gray-500">
+							Excluídas definitivamente após {settings.trashRetentionDays} dia(s) na lixeira.
+						</p>
+						{trash.map((i) => (
+							<div
+								key={i.id}
+								className="flex items-center justify-between gap-2 bg-white border border-gray-100 rounded-md p-2"
+							>
+								<span className="truncate text-gray-700">
+									{i.patientName || "Sem nome"} · {new Date(i.timestamp).toLocaleDateString()}
+								</span>
+								<div className="flex gap-2 shrink-0">
+									<button
+										onClick={() => run(() => restoreHistoryItems([i.id]))}
+										className="text-blue-600 hover:underline"
+									>
+										Restaurar
+									</button>
+									<button onClick={() => purge(i.id)} className="text-red-600 hover:underline">
+										Excluir de vez
+									</button>
+								</div>
+							</div>
+						))}
+						<button onClick={clearTrash} className="text-red-600 hover:underline">
+							Esvaziar lixeira
+						</button>
+					</div>
+				</details>
+			)}
+
+			<HistoryBackupPanel items={visible} filtered={filtering} />
+
+			{/* Espaço ocupado no navegador (o limite varia por navegador e disco) */}
+			{usage && usage.quota > 0 && (
+				<p className="text-xs text-gray-400 text-right">
+					Armazenamento: {formatMegabytes(usage.usage)} de {formatMegabytes(usage.quota)}
+				</p>
+			)}
 		</div>
 	);
 }
@@ -0,0 +1,191 @@
+import { type FormEvent, useId, useState } from "react";
+import { usePatients } from "../hooks/usePatients";
+import { useAutoLockHold } from "../hooks/useVault";
+import { historyErrorMessage } from "../lib/history";
+import {
+	findPatientByName,
+	formatIdentifiers,
+	PATIENT_SEX_OPTIONS,
+	parseAllergies,
+	parseIdentifiers,
+	savePatient,
+} from "../lib/patients";
+import type { Patient, PatientSex } from "../lib/types";
+
+type Props = {
+	language: "pt" | "en";
+	patient?: Patient; // Sem paciente: novo cadastro
+	onSaved: (patient: Patient) => void;
+	onCancel: () => void;
+};
+
+export const sexLabels: Record<PatientSex, { pt: string; en: string }> = {
+	female: { pt: "Feminino", en: "Female" },
+	male: { pt: "Masculino", en: "Male" },
+	other: { pt: "Outro", en: "Other" },
+};
+
+const labels = {
+	pt: {
+		name: "Nome",
+		birthDate: "Data de nascimento",
+		sex: "Sexo",
+		unknown: "Não informado",
+		identifiers: "Documentos (um por linha, ex.: CPF: 000.000.000-00)",
+		allergies: "Alergias (separadas por vírgula)",
+		save: "Salvar",
+		cancel: "Cancelar",
+		duplicate: (name: string) => `Já existe um paciente chamado ${name}. Cadastrar outro mesmo assim?`,
+	},
+	en: {
+		name: "Name",
+		birthDate: "Birth date",
+		sex: "Sex",
+		unknown: "Not informed",
+		identifiers: "IDs (one per line, e.g. SSN: 000-00-0000)",
+		allergies: "Allergies (comma separated)",
+		save: "Save",
+		cancel: "Cancel",
+		duplicate: (name: string) => `A patient named ${name} already exists. Register another one anyway?`,
+	},
+};
+
+const inputClass = "w-full border border-gray-300 rounded-md px-2 py-1 bg-white text-sm";
+
+// Cadastro e edição dos dados do paciente
+export default function PatientForm({ language, patient, onSaved, onCancel }: Props) {
+	const patients = usePatients();
+	const id = useId();
+	const [name, setName] = useState(patient?.name ?? "");
+	const [birthDate, setBirthDate] = useState(patient?.birthDate ?? "");
+	const [sex, setSex] = useState<PatientSex | "">(patient?.sex ?? "");
+	const [identifiers, setIdentifiers] = useState(formatIdentifiers(patient?.identifiers ?? []));
+	const [allergies, setAllergies] = useState(patient?.allergies.join(", ") ?? "");
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const t = labels[language];
+	// Cadastro com alterações ainda não salvas não é descartado pelo bloqueio automático
+	useAutoLockHold(
+		name !== (patient?.name ?? "") ||
+			birthDate !== (patient?.birthDate ?? "") ||
+			sex !== (patient?.sex ?? "") ||
+			identifiers !== formatIdentifiers(patient?.identifiers ?? []) ||
+			allergies !== (patient?.allergies.join(", ") ?? ""),
+	);
+
+	const submit = async (event: FormEvent) => {
+		event.preventDefault();
+		// Homônimos existem: avisa, mas deixa cadastrar
+		const namesake = findPatientByName(patients ?? [], name);
+		if (namesake && namesake.id !== patient?.id && !window.confirm(t.duplicate(namesake.name))) return;
+
+		setBusy(true);
+		setError(null);
+		try {
+			const saved = await savePatient(
+				{
+					name,
+					birthDate: birthDate || undefined,
+					sex: sex || undefined,
+					identifiers: parseIdentifiers(identifiers),
+					allergies: parseAllergies(allergies),
+				},
+				patient?.id,
+			);
+			onSaved(saved);
+		} catch (saveError) {
+			console.error("Erro ao salvar o paciente:", saveError);
+			setError(historyErrorMessage(saveError, language));
+			setBusy(false);
+		}
+	};
+
+	return (
+		<form onSubmit={submit} className="space-y-2 text-sm">
+			<div className="space-y-1">
+				<label htmlFor={`${id}-name`} className="block text-xs text-gray-600">
+					{t.name}
+				</label>
+				<input
+					id={`${id}-name`}
+					value={name}
+					onChange={(e) => setName(e.target.value)}
+					required
+					className={inputClass}
+				/>
+			</div>
+			<div className="grid grid-cols-2 gap-2">
+				<div className="space-y-1">
+					<label htmlFor={`${id}-birthDate`} className="block text-xs text-gray-600">
+						{t.birthDate}
+					</label>
+					<input
+						id={`${id}-birthDate`}
+						type="date"
+						value={birthDate}
+						onChange={(e) => setBirthDate(e.target.value)}
+						className={inputClass}
+					/>
+				</div>
+				<div className="space-y-1">
+					<label htmlFor={`${id}-sex`} className="block text-xs text-gray-600">
+						{t.sex}
+					</label>
+					<select
+						id={`${id}-sex`}
+						value={sex}
+						onChange={(e) => setSex(e.target.value as PatientSex | "")}
+						className={inputClass}
+					>
+						<option value="">{t.unknown}</option>
+						{PATIENT_SEX_OPTIONS.map((option) => (
+							<option key={option} value={option}>
+								{sexLabels[option][language]}
+							</option>
+						))}
+					</select>
+				</div>
+			</div>
+			<div className="space-y-1">
+				<label htmlFor={`${id}-identifiers`} className="block text-xs text-gray-600">
+					{t.identifiers}
+				</label>
+				<textarea
+					id={`${id}-identifiers`}
+					value={identifiers}
+					onChange={(e) => setIdentifiers(e.target.value)}
+					rows={2}
+					className={inputClass}
+				/>
+			</div>
+			<div className="space-y-1">
+				<label htmlFor={`${id}-allergies`} className="block text-xs text-gray-600">
+					{t.allergies}
+				</label>
+				<input
+					id={`${id}-allergies`}
+					value={allergies}
+					onChange={(e) => setAllergies(e.target.value)}
+					className={inputClass}
+				/>
+			</div>
+			{error && <p className="text-xs text-red-600">{error}</p>}
+			<div className="flex gap-2">
+				<button
+					type="submit"
+					disabled={busy || !name.trim()}
+					className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md transition-colors"
+				>
+					{t.save}
+				</button>
+				<button
+					type="button"
+					onClick={onCancel}
+					className="flex-1 border border-gray-300 hover:bg-gray-100 px-3 py-1 rounded-md transition-colors"
+				>
+					{t.cancel}
+				</button>
+			</div>
+		</form>
+	);
+}
@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { usePatients } from "../hooks/usePatients";
+import { historyErrorMessage, loadHistory } from "../lib/history";
+import { conditionTimeline, patientAge, patientConsultations } from "../lib/patients";
+import type { HistoryItem, Patient } from "../lib/types";
+import PatientForm, { sexLabels } from "./PatientForm";
+
+type Props = {
+	language: "pt" | "en";
+	patientId: string;
+	onClose: () => void;
+	onOpenConsultation: (item: HistoryItem) => void;
+	onNewConsultation: (patient: Patient) => void;
+};
+
+const labels = {
+	pt: {
+		back: "← Voltar",
+		edit: "Editar",
+		newConsultation: "➕ Nova consulta",
+		notFound: "Paciente não encontrado.",
+		age: (years: number) => `${years} anos`,
+		born: "Nascimento:",
+		allergies: "Alergias:",
+		noAllergies: "Nenhuma alergia informada",
+		conditions: "Diagnósticos ao longo do tempo",
+		since: (first: string, last: string, count: number) =>
+			count === 1 ? `em ${first}` : `de ${first} a ${last} · ${count} consultas`,
+		timeline: "Consultas",
+		empty: "Nenhuma consulta salva para este paciente.",
+		revision: "Revisão",
+		medications: "Medicamentos:",
+		open: "Abrir",
+	},
+	en: {
+		back: "← Back",
+		edit: "Edit",
+		newConsultation: "➕ New consultation",
+		notFound: "Patient not found.",
+		age: (years: number) => `${years} years`,
+		born: "Born:",
+		allergies: "Allergies:",
+		noAllergies: "No allergies informed",
+		conditions: "Diagnoses over time",
+		since: (first: string, last: string, count: number) =>
+			count === 1 ? `on ${first}` : `from ${first} to ${last} · ${count} consultations`,
+		timeline: "Consultations",
+		empty: "No saved consultations for this patient.",
+		revision: "Revision",
+		medications: "Medications:",
+		open: "Open",
+	},
+};
+
+const formatDate = (ts: number) => new Date(ts).toLocaleDateString();
+
+// Dados do paciente e a linha do tempo das consultas dele, com os diagnósticos
+export default function PatientPage({ language, patientId, onClose, onOpenConsultation, onNewConsultation }: Props) {
+	const patients = usePatients();
+	const [history, setHistory] = useState<HistoryItem[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [editing, setEditing] = useState(false);
+	const t = labels[language];
+
+	useEffect(() => {
+		let active = true;
+		const refresh = () =>
+			loadHistory()
+				.then((items) => {
+					if (!active) return;
+					setHistory(items);
+					setError(null);
+				})
+				.catch((loadError) => {
+					console.error("Erro ao carregar o histórico do paciente:", loadError);
+					if (active) setError(historyErrorMessage(loadError, language));
+				});
+		refresh();
+		window.addEventListener("history-updated", refresh);
+		return () => {
+			active = false;
+			window.removeEventListener("history-updated", refresh);
+		};
+	}, [language]);
+
+	if (patients === null) return null;
+	const patient = patients.find((p) => p.id === patientId);
+
+	const header = (
+		<button type="button" onClick={onClose} className="text-sm text-blue-700 hover:underline">
+			{t.back}
+		</button>
+	);
+
+	if (!patient) {
+		return (
+			<section className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 lg:p-6 space-y-3 max-w-7xl mx-auto">
+				{header}
+				<p className="text-sm text-gray-500">{t.notFound}</p>
+			</section>
+		);
+	}
+
+	const consultations = history ? patientConsultations(patient, history) : [];
+	const conditions = conditionTimeline(consultations);
+	const age = patientAge(patient.birthDate);
+
+	return (
+		<section className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 lg:p-6 space-y-4 max-w-7xl mx-auto">
+			{header}
+
+			{editing ? (
+				<PatientForm
+					language={language}
+					patient={patient}
+					onSaved={() => setEditing(false)}
+					onCancel={() => setEditing(false)}
+				/>
+			) : (
+				<div className="space-y-2">
+					<div className="flex flex-wrap items-start justify-between gap-2">
+						<h2 className="text-xl font-bold text-gray-800">
+							👤 {patient.name}
+							{age !== null && <span className="text-base font-normal text-gray-600"> · {t.age(age)}</span>}
+						</h2>
+						<div className="flex gap-2">
+							<button
+								type="button"
+								onClick={() => setEditing(true)}
+								className="border border-gray-300 hover:bg-gray-100 px-3 py-1 rounded-md text-sm transition-colors"
+							>
+								{t.edit}
+							</button>
+							<button
+								type="button"
+								onClick={() => onNewConsultation(patient)}
+								className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded-md text-sm transition-colors"
+							>
+								{t.newConsultation}
+							</button>
+						</div>
+					</div>
+					<dl className="text-sm text-gray-700 space-y-0.5">
+						{patient.birthDate && (
+							<div>
+								<dt className="inline font-medium">{t.born}</dt>{" "}
+								<dd className="inline">
+									{new Date(`${patient.birthDate}T00:00`).toLocaleDateString()}
+									{patient.sex && ` · ${sexLabels[patient.sex][language]}`}
+								</dd>
+							</div>
+						)}
+						{patient.identifiers.map((identifier, index) => (
+							<div key={index}>
+								{identifier.label && <dt className="inline font-medium">{identifier.label}:</dt>}{" "}
+								<dd className="inline">{identifier.value}</dd>
+							</div>
+						))}
+					</dl>
+					{patient.allergies.length > 0 ? (
+						<p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+							⚠️ {t.allergies} {patient.allergies.join(", ")}
+						</p>
+					) : (
+						<p className="text-xs text-gray-500">{t.noAllergies}</p>
+					)}
+				</div>
+			)}
+
+			{error && <p className="text-sm text-red-600">{error}</p>}
+
+			{conditions.length > 0 && (
+				<div className="space-y-1">
+					<h3 className="font-semibold text-gray-800">{t.conditions}</h3>
+					<ul className="text-sm space-y-0.5">
+						{conditions.map((span) => (
+							<li key={span.condition}>
+								<span className="font-medium text-gray-800">{span.condition}</span>{" "}
+								<span className="text-gray-500">
+									{t.since(formatDate(span.first), formatDate(span.last), span.count)}
+								</span>
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+
+			{history && (
+				<div className="space-y-2">
+					<h3 className="font-semibold text-gray-800">
+						{t.timeline} ({consultations.length})
+					</h3>
+					{consultations.length === 0 ? (
+						<p className="text-sm text-gray-500">{t.empty}</p>
+					) : (
+						// Linha do tempo: da consulta mais recente para a mais antiga
+						<ol className="border-l-2 border-blue-200 pl-4 space-y-3">
+							{[...consultations].reverse().map((item) => (
+								<li key={item.id} className="relative">
+									<span className="absolute -left-[1.45rem] top-1 w-3 h-3 rounded-full bg-blue-400" />
+									<div className="flex items-start justify-between gap-2">
+										<div className="text-sm space-y-0.5">
+											<p className="text-xs text-gray-500">
+												{new Date(item.timestamp).toLocaleString()}
+												{item.revisionOf && ` · 🔁 ${t.revision}`}
+											</p>
+											<p className="font-medium text-gray-800">{item.result.diagnosis}</p>
+											{item.result.conditions.length > 0 && (
+												<p className="text-gray-600">{item.result.conditions.join(", ")}</p>
+											)}
+											{item.result.medications.length > 0 && (
+												<p className="text-xs text-gray-500">
+													{t.medications} {item.result.medications.join(", ")}
+												</p>
+											)}
+										</div>
+										<button
+											type="button"
+											onClick={() => onOpenConsultation(item)}
+											className="shrink-0 text-xs text-blue-700 hover:underline"
+										>
+											{t.open}
+										</button>
+									</div>
+								</li>
+							))}
+						</ol>
+					)}
+				</div>
+			)}
+		</section>
+	);
+}
@@ -0,0 +1,54 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { useState } from "react";
+import { describe, expect, it } from "vitest";
+import { loadPatients, type PatientSelection, savePatient } from "../lib/patients";
+import PatientPicker from "./PatientPicker";
+
+function Harness({ onChange }: { onChange?: (value: PatientSelection) => void }) {
+	const [value, setValue] = useState<PatientSelection>({ name: "" });
+	return (
+		<>
+			<PatientPicker
+				language="pt"
+				value={value}
+				onChange={(next) => {
+					setValue(next);
+					onChange?.(next);
+				}}
+			/>
+			<output aria-label="selecionado">{value.id ?? "nenhum"}</output>
+		</>
+	);
+}
+
+const type = (text: string) => fireEvent.change(screen.getByLabelText("Paciente:"), { target: { value: text } });
+
+describe("PatientPicker", () => {
+	it("sugere o paciente já cadastrado em vez de criar outro", async () => {
+		const maria = await savePatient({ name: "Maria Silva", birthDate: "1980-01-01", identifiers: [], allergies: ["Dipirona"] });
+		render(<Harness />);
+
+		type("maria silva");
+		fireEvent.click(await screen.findByRole("button", { name: /^Maria Silva/ }));
+
+		expect(screen.getByLabelText("selecionado")).toHaveTextContent(maria.id);
+		expect(screen.getByText(/Alergias: Dipirona/)).toBeInTheDocument();
+		expect(screen.queryByRole("button", { name: /Cadastrar/ })).not.toBeInTheDocument();
+	});
+
+	it("cadastra o nome digitado e o seleciona", async () => {
+		render(<Harness />);
+		type("João Pereira");
+		expect(screen.getByText(/Paciente não cadastrado/)).toBeInTheDocument();
+
+		fireEvent.click(await screen.findByRole("button", { name: /Cadastrar "João Pereira"/ }));
+
+		await waitFor(() => expect(screen.getByText("👤 João Pereira")).toBeInTheDocument());
+		const [patient] = await loadPatients();
+		expect(patient.name).toBe("João Pereira");
+		expect(screen.getByLabelText("selecionado")).toHaveTextContent(patient.id);
+
+		fireEvent.click(screen.getByRole("button", { name: "Trocar" }));
+		expect(screen.getByLabelText("Paciente:")).toHaveValue("");
+	});
+});
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { usePatients } from "../hooks/usePatients";
+import { historyErrorMessage } from "../lib/history";
+import {
+	findPatientByName,
+	type PatientSelection,
+	patientAge,
+	savePatient,
+	searchPatients,
+} from "../lib/patients";
+import type { Patient } from "../lib/types";
+
+type Props = {
+	language: "pt" | "en";
+	value: PatientSelection;
+	onChange: (value: PatientSelection) => void;
+	disabled?: boolean;
+};
+
+// Sugestões exibidas enquanto o nome é digitado
+const MAX_SUGGESTIONS = 5;
+
+const labels = {
+	pt: {
+		label: "Paciente:",
+		placeholder: "Busque pelo nome ou documento",
+		create: (name: string) => `➕ Cadastrar "${name}"`,
+		unlinked: "Paciente não cadastrado: selecione ou cadastre para ver as consultas dele depois.",
+		change: "Trocar",
+		age: (years: number) => `${years} anos`,
+		allergies: "Alergias:",
+	},
+	en: {
+		label: "Patient:",
+		placeholder: "Search by name or ID",
+		create: (name: string) => `➕ Register "${name}"`,
+		unlinked: "Patient not registered: select or register to see their consultations later.",
+		change: "Change",
+		age: (years: number) => `${years} years`,
+		allergies: "Allergies:",
+	},
+};
+
+/**
+ * Escolha do paciente da consulta entre os cadastrados, com cadastro rápido
+ * pelo nome. "maria silva" encontra "Maria Silva" em vez de criar outro.
+ */
+export default function PatientPicker({ language, value, onChange, disabled = false }: Props) {
+	const patients = usePatients();
+	const [error, setError] = useState<string | null>(null);
+	const t = labels[language];
+
+	const selected = value.id ? patients?.find((patient) => patient.id === value.id) : undefined;
+	const query = value.name.trim();
+	const suggestions = query && patients ? searchPatients(patients, query).slice(0, MAX_SUGGESTIONS) : [];
+	const exactMatch = patients ? findPatientByName(patients, query) : undefined;
+
+	const select = (patient: Patient) => {
+		setError(null);
+		onChange({ id: patient.id, name: patient.name });
+	};
+
+	const create = async () => {
+		try {
+			select(await savePatient({ name: query, identifiers: [], allergies: [] }));
+		} catch (createError) {
+			console.error("Erro ao cadastrar o paciente:", createError);
+			setError(historyErrorMessage(createError, language));
+		}
+	};
+
+	if (selected) {
+		const age = patientAge(selected.birthDate);
+		return (
+			<div className="space-y-2">
+				<p className="block text-sm font-medium text-gray-700">{t.label}</p>
+				<div className="flex items-start justify-between gap-2 border border-blue-200 bg-blue-50 rounded-md px-3 py-2">
+					<div className="text-sm">
+						<p className="font-medium text-gray-800">
+							👤 {selected.name}
+							{age !== null && <span className="font-normal text-gray-600"> · {t.age(age)}</span>}
+						</p>
+						{selected.allergies.length > 0 && (
+							<p className="text-xs text-red-700">
+								⚠️ {t.allergies} {selected.allergies.join(", ")}
+							</p>
+						)}
+					</div>
+					<button
+						type="button"
+						onClick={() => onChange({ name: "" })}
+						disabled={disabled}
+						className="shrink-0 text-xs text-blue-700 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed"
+					>
+						{t.change}
+					</button>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-2">
+			<label htmlFor="patientName" className="block text-sm font-medium text-gray-700">
+				{t.label}
+			</label>
+			<input
+				id="patientName"
+				type="text"
+				value={value.name}
+				onChange={(e) => onChange({ name: e.target.value })}
+				placeholder={t.placeholder}
+				autoComplete="off"
+				className="w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:cursor-not-allowed"
+				disabled={disabled}
+			/>
+			{query && !disabled && (
+				<ul className="border border-gray-200 rounded-md divide-y divide-gray-100 text-sm">
+					{suggestions.map((patient) => {
+						const age = patientAge(patient.birthDate);
+						return (
+							<li key={patient.id}>
+								<button
+									type="button"
+									onClick={() => select(patient)}
+									className="w-full text-left px-3 py-1.5 hover:bg-blue-50"
+								>
+									{patient.name}
+									{age !== null && <span className="text-gray-500"> · {t.age(age)}</span>}
+									{patient.identifiers[0] && (
+										<span className="text-gray-500"> · {patient.identifiers[0].value}</span>
+									)}
+								</button>
+							</li>
+						);
+					})}
+					{patients && !exactMatch && (
+						<li>
+							<button
+								type="button"
+								onClick={create}
+								className="w-full text-left px-3 py-1.5 text-blue-700 hover:bg-blue-50"
+							>
+								{t.create(query)}
+							</button>
+						</li>
+					)}
+				</ul>
+			)}
+			{query && !exactMatch && <p className="text-xs text-amber-700">{t.unlinked}</p>}
+			{error && <p className="text-xs text-red-600">{error}</p>}
+		</div>
+	);
+}
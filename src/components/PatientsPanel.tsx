@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { usePatients } from "../hooks/usePatients";
+import { patientAge, searchPatients } from "../lib/patients";
+import PatientForm from "./PatientForm";
+
+type Props = {
+	language: "pt" | "en";
+	onOpen: (patientId: string) => void;
+};
+
+const labels = {
+	pt: {
+		title: "👥 Pacientes",
+		search: "Buscar paciente",
+		create: "➕ Novo paciente",
+		empty: "Nenhum paciente cadastrado.",
+		notFound: "Nenhum paciente encontrado.",
+		age: (years: number) => `${years} anos`,
+	},
+	en: {
+		title: "👥 Patients",
+		search: "Search patient",
+		create: "➕ New patient",
+		empty: "No registered patients.",
+		notFound: "No patient found.",
+		age: (years: number) => `${years} years`,
+	},
+};
+
+// Lista de pacientes cadastrados na barra lateral; cada um abre a página do paciente
+export default function PatientsPanel({ language, onOpen }: Props) {
+	const patients = usePatients();
+	const [query, setQuery] = useState("");
+	const [creating, setCreating] = useState(false);
+	const t = labels[language];
+
+	if (patients === null) return null;
+	const visible = searchPatients(patients, query);
+
+	return (
+		<details className="bg-gray-50 border border-gray-200 rounded-md">
+			<summary className="cursor-pointer p-3 hover:bg-gray-100 transition-colors font-medium text-gray-700">
+				{t.title} ({patients.length})
+			</summary>
+			<div className="border-t border-gray-200 p-3 space-y-3">
+				{creating ? (
+					<PatientForm
+						language={language}
+						onSaved={(patient) => {
+							setCreating(false);
+							onOpen(patient.id);
+						}}
+						onCancel={() => setCreating(false)}
+					/>
+				) : (
+					<button
+						type="button"
+						onClick={() => setCreating(true)}
+						className="w-full bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-md text-sm transition-colors"
+					>
+						{t.create}
+					</button>
+				)}
+
+				{patients.length === 0 ? (
+					<p className="text-xs text-gray-500">{t.empty}</p>
+				) : (
+					<>
+						<input
+							type="search"
+							value={query}
+							onChange={(e) => setQuery(e.target.value)}
+							placeholder={t.search}
+							aria-label={t.search}
+							className="w-full border border-gray-300 rounded-md px-2 py-1 bg-white text-sm"
+						/>
+						{visible.length === 0 && <p className="text-xs text-gray-500">{t.notFound}</p>}
+						<ul className="space-y-1 max-h-64 overflow-y-auto text-sm">
+							{visible.map((patient) => {
+								const age = patientAge(patient.birthDate);
+								return (
+									<li key={patient.id}>
+										<button
+											type="button"
+											onClick={() => onOpen(patient.id)}
+											className="w-full text-left px-2 py-1 rounded-md hover:bg-blue-50"
+										>
+											{patient.name}
+											{age !== null && <span className="text-gray-500"> · {t.age(age)}</span>}
+											{patient.allergies.length > 0 && <span title={patient.allergies.join(", ")}> ⚠️</span>}
+										</button>
+									</li>
+								);
+							})}
+						</ul>
+					</>
+				)}
+			</div>
+		</details>
+	);
+}
@@ -0,0 +1,147 @@
+import { act, fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { useState } from "react";
+import { describe, expect, it } from "vitest";
+import type { PatientSelection } from "../lib/patients";
+import { saveSettings } from "../lib/settings";
+import type { TranscriptSegment } from "../lib/types";
+import { FakeMediaRecorder } from "../test/fakeMedia";
+import { FakeSpeechRecognition } from "../test/fakeSpeechRecognition";
+import Recorder from "./RecorderClean";
+
+// Gravador com a transcrição montada como o App faz
+function Harness() {
+	const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+	const [patient, setPatient] = useState<PatientSelection>({ name: "" });
+	return (
+		<>
+			<Recorder
+				language="pt"
+				clinician=""
+				consultationId="c1"
+				onSegmentsChange={setSegments}
+				patient={patient}
+				onPatientChange={setPatient}
+			/>
+			<ol aria-label="transcrição">
+				{segments.map((s) => (
+					<li key={s.id} data-speaker={s.speaker} data-interim={String(s.interim)}>
+						{s.text}
+					</li>
+				))}
+			</ol>
+		</>
+	);
+}
+
+async function startRecording() {
+	render(<Harness />);
+	fireEvent.click(screen.getByRole("button", { name: "Iniciar Gravação" }));
+	await waitFor(() => expect(FakeSpeechRecognition.latest()?.started).toBe(true));
+	return FakeSpeechRecognition.latest();
+}
+
+const transcriptItems = () =>
+	within(screen.getByRole("list", { name: "transcrição" })).queryAllByRole("listitem");
+
+describe("RecorderClean", () => {
+	it("mostra o texto provisório e o troca pela fala final", async () => {
+		const recognition = await startRecording();
+
+		act(() => recognition.speakInterim("Bom dia, o que"));
+		expect(transcriptItems()).toHaveLength(1);
+		expect(transcriptItems()[0]).toHaveAttribute("data-interim", "true");
+		expect(transcriptItems()[0]).toHaveTextContent("Bom dia, o que");
+
+		act(() => recognition.speakFinal("Bom dia, o que houve?"));
+		await waitFor(() => expect(transcriptItems()[0]).toHaveAttribute("data-interim", "false"));
+		expect(transcriptItems()).toHaveLength(1);
+		expect(transcriptItems()[0]).toHaveTextContent("Bom dia, o que houve?");
+	});
+
+	it("alterna médico e paciente sem perfil de voz", async () => {
+		const recognition = await startRecording();
+
+		act(() => recognition.speakFinal("O que está sentindo?"));
+		act(() => recognition.speakFinal("Dor de cabeça desde ontem."));
+
+		await waitFor(() => expect(transcriptItems()).toHaveLength(2));
+		await waitFor(() =>
+			expect(transcriptItems().map((item) => item.dataset.speaker)).toEqual(["doctor", "patient"]),
+		);
+	});
+
+	it("não repete a fala reenviada depois que o reconhecimento reinicia", async () => {
+		const recognition = await startRecording();
+
+		act(() => recognition.speakFinal("Tenho febre."));
+		act(() => recognition.endSession());
+		// O reconhecimento é reiniciado sozinho e reenvia o último resultado
+		await waitFor(() => expect(recognition.started).toBe(true));
+		act(() => recognition.speakFinal("Tenho febre."));
+		act(() => recognition.speakFinal("E tosse."));
+
+		await waitFor(() => expect(transcriptItems()).toHaveLength(2));
+		expect(transcriptItems().map((item) => item.textContent)).toEqual(["Tenho febre.", "E tosse."]);
+	});
+
+	it("avisa quando o reconhecimento cai e volta a gravar ao reiniciar", async () => {
+		const recognition = await startRecording();
+
+		act(() => recognition.fail("network"));
+		expect(await screen.findByText("Transcrição pausada - reconectando...")).toBeInTheDocument();
+
+		await waitFor(() => expect(recognition.started).toBe(true), { timeout: 2000 });
+		act(() => recognition.speakInterim("voltou"));
+		expect(await screen.findByText("Gravando...")).toBeInTheDocument();
+	});
+
+	it("para de ouvir ao parar a gravação", async () => {
+		const recognition = await startRecording();
+
+		fireEvent.click(screen.getByRole("button", { name: "Parar Gravação" }));
+
+		expect(recognition.started).toBe(false);
+		expect(screen.getByRole("button", { name: "Iniciar Gravação" })).toBeInTheDocument();
+	});
+
+	it("não grava amostras de voz com o motor do servidor", async () => {
+		saveSettings({ speechEngine: "backend" });
+		render(<Harness />);
+		fireEvent.click(screen.getByRole("button", { name: "Iniciar Gravação" }));
+		await screen.findByRole("button", { name: "Parar Gravação" });
+
+		// Só o gravador dos trechos enviados ao servidor
+		await waitFor(() => expect(FakeMediaRecorder.instances).toHaveLength(1));
+		fireEvent.click(screen.getByRole("button", { name: "Parar Gravação" }));
+	});
+
+	it("diz qual motor ficou no lugar do escolhido", () => {
+		saveSettings({ speechEngine: "backend" });
+		delete (window as Partial<typeof window>).MediaRecorder;
+		render(<Harness />);
+
+		expect(
+			screen.getByText(
+				"⚠️ Servidor (envio de áudio) indisponível neste navegador - usando Navegador (Web Speech).",
+			),
+		).toBeInTheDocument();
+	});
+
+	it("mantém trechos do servidor com o mesmo texto", async () => {
+		saveSettings({ speechEngine: "backend" });
+		render(<Harness />);
+		fireEvent.click(screen.getByRole("button", { name: "Iniciar Gravação" }));
+		await waitFor(() => expect(FakeMediaRecorder.instances).toHaveLength(1));
+
+		// Mesmo tamanho de áudio, mesma resposta do backend simulado
+		act(() => FakeMediaRecorder.instances[0].stop());
+		await waitFor(() => expect(FakeMediaRecorder.instances).toHaveLength(2));
+		act(() => FakeMediaRecorder.instances[1].stop());
+
+		const list = screen.getByRole("list", { name: "transcrição" });
+		await waitFor(() => expect(within(list).getAllByRole("listitem")).toHaveLength(2));
+		const [first, second] = within(list).getAllByRole("listitem");
+		expect(second).toHaveTextContent(first.textContent ?? "");
+		fireEvent.click(screen.getByRole("button", { name: "Parar Gravação" }));
+	});
+});
@@ -1,201 +1,209 @@
 import {
+	type Dispatch,
+	type SetStateAction,
 	forwardRef,
 	useEffect,
 	useImperativeHandle,
 	useRef,
 	useState,
 } from "react";
-import { useVoiceAI } from "../hooks/useVoiceAI";
-
-type SpeakerType = "doctor" | "patient" | "auto";
-
-// Função auxiliar para obter prefixo do falante
-const getSpeakerPrefix = (
-	speaker: SpeakerType,
-	patientName: string,
-	language: "pt" | "en",
-): string => {
-	switch (speaker) {
-		case "doctor":
-			return language === "pt" ? "Médico: " : "Doctor: ";
-		case "patient": {
-			const name =
-				patientName.trim() || (language === "pt" ? "Paciente" : "Patient");
-			return `${name}: `;
-		}
-		case "auto":
-		default:
-			return "🤖 "; 
-	}
-};
+import { type SpeakerGuess, useSpeechEngine } from "../hooks/useSpeechEngine";
+import { useSettings } from "../hooks/useSettings";
+import { useAutoLockHold } from "../hooks/useVault";
+import { SPEAKER_MATCH_THRESHOLD, useVoiceAI } from "../hooks/useVoiceAI";
+import type { PatientSelection } from "../lib/patients";
+import { pickAudioMimeType, resolveSpeechEngine, speechEngines } from "../lib/speechEngines";
+import type { TranscriptSegment } from "../lib/types";
+import PatientPicker from "./PatientPicker";
 
 type Props = {
 	language: "pt" | "en";
-	onTranscriptChange: (t: string | ((p: string) => string)) => void;
+	clinician: string;
+	consultationId: string;
+	onSegmentsChange: Dispatch<SetStateAction<TranscriptSegment[]>>;
+	// Paciente da consulta, compartilhado com a captura de videochamada e o diagnóstico
+	patient: PatientSelection;
+	onPatientChange: (patient: PatientSelection) => void;
 };
 
 export type RecorderHandle = {
 	start: () => void;
 	stop: () => void;
 	reset: () => void;
-	getPatientName: () => string;
 };
 
 const Recorder = forwardRef<RecorderHandle, Props>(function Recorder(
-	{ language, onTranscriptChange },
+	{ language, clinician, consultationId, onSegmentsChange, patient, onPatientChange },
 	ref,
 ) {
 	const [recording, setRecording] = useState(false);
-	const [patientName, setPatientName] = useState<string>("");
+	const patientName = patient.name;
+	const [settings, updateSettings] = useSettings();
 
-	// Sistema de alternância automática de falantes
-	const speechCountRef = useRef(0);
-	
-	const { learnVoice } = useVoiceAI();
+	const { identifySpeaker, learnVoice } = useVoiceAI(clinician);
+	useAutoLockHold(recording);
 
-	const recognitionRef = useRef<any>(null);
-	const finalRef = useRef<string>("");
-	const streamRef = useRef<MediaStream | null>(null);
-	const isProcessingRef = useRef<boolean>(false);
-	const lastSpeakerRef = useRef<SpeakerType>("auto");
-	const lastTranscriptRef = useRef<string>(""); 
+	// Mantém as funções de voz atualizadas dentro dos callbacks
+	const voiceRef = useRef({ identifySpeaker, learnVoice });
+	voiceRef.current = { identifySpeaker, learnVoice };
 
-	useEffect(() => {
-		if (!("webkitSpeechRecognition" in window)) {
-			console.error("Speech recognition not supported");
-			return;
-		}
-
-		const SpeechRecognition = (window as any).webkitSpeechRecognition;
-		const rec = new SpeechRecognition();
-		rec.continuous = true;
-		rec.interimResults = true;
-		rec.lang = language === "pt" ? "pt-BR" : "en-US";
-
-		rec.onresult = async (event: any) => {
-			let interimTranscript = "";
-			let finalTranscript = "";
-
-			for (let i = event.resultIndex; i < event.results.length; i++) {
-				const transcript = event.results[i][0].transcript;
-				if (event.results[i].isFinal) {
-					finalTranscript += transcript + " ";
-				} else {
-					interimTranscript += transcript;
-				}
-			}
+	const streamRef = useRef<MediaStream | null>(null);
 
-			if (finalTranscript) {
-				// Evita processar a mesma fala duas vezes
-				const trimmedText = finalTranscript.trim();
-				if (trimmedText === lastTranscriptRef.current) {
-					return;
-				}
-				lastTranscriptRef.current = trimmedText;
-				
-				// Determina falante baseado na alternância
-				const speakerType: SpeakerType = speechCountRef.current % 2 === 0 ? "doctor" : "patient";
-				
-				// Incrementa contador
-				speechCountRef.current += 1;
-				
-				// Adiciona identificação do falante ao texto final
-				const speakerPrefix = getSpeakerPrefix(speakerType, patientName, language);
-				const formattedText = `${speakerPrefix}${trimmedText}\n`;
-				finalRef.current += formattedText;
-				lastSpeakerRef.current = speakerType;
-
-				// Processa IA em background para aprendizado
-				if (streamRef.current && !isProcessingRef.current) {
-					processAudioInBackground(speakerType);
-				}
-			}
+	// Gravação do áudio de cada fala, usada para identificar o falante
+	const utteranceRecorderRef = useRef<MediaRecorder | null>(null);
+	const utteranceChunksRef = useRef<Blob[]>([]);
+	// Áudio de cada segmento, para reaprender quando o falante é corrigido
+	const segmentAudioRef = useRef<Map<string, Blob>>(new Map());
+
+	// O perfil de voz só vale com o motor em tempo real: a amostra é fechada
+	// quando a fala termina. No motor do servidor, o texto chega bem depois do
+	// áudio (trechos de vários segundos) e a amostra cortada seria de outra fala
+	const voiceAttribution = resolveSpeechEngine(settings.speechEngine) === "webspeech";
+
+	// Identifica o falante pelo perfil de voz; confiança baixa usa alternância
+	const guessSpeaker = (): Promise<SpeakerGuess> => {
+		// Fecha a amostra de áudio desta fala antes de esperar a fila
+		const sample = takeUtteranceSample();
+		return (async () => {
+			const audioBlob = await sample;
+			if (!audioBlob) return { speaker: null, confidence: 0 };
+
+			const analysis = await voiceRef.current.identifySpeaker(audioBlob);
+			const confident =
+				analysis.speaker !== "auto" &&
+				analysis.confidence > SPEAKER_MATCH_THRESHOLD;
+			return {
+				speaker: confident ? (analysis.speaker as "doctor" | "patient") : null,
+				confidence: analysis.confidence,
+				audio: audioBlob,
+			};
+		})();
+	};
 
-		const fullTranscript =
-			finalRef.current + (interimTranscript ? `${interimTranscript}` : "");
+	// Aprende características da voz atribuída
+	const onSegment = (segment: TranscriptSegment, guess: SpeakerGuess | null) => {
+		if (!guess?.audio || segment.speaker === "other") return;
+		segmentAudioRef.current.set(segment.id, guess.audio);
+		voiceRef.current
+			.learnVoice(guess.audio, segment.speaker)
+			.catch((error) => console.error("Erro na análise de voz:", error));
+	};
 
-		onTranscriptChange(fullTranscript);
+	const speech = useSpeechEngine({
+		language,
+		engine: settings.speechEngine,
+		chunkSeconds: settings.serverChunkSeconds,
+		source: "mic",
+		interimId: "recorder-interim",
+		patientName,
+		consultationId,
+		onSegmentsChange,
+		guessSpeaker: voiceAttribution ? guessSpeaker : undefined,
+		onSegment,
+	});
+
+	// Correções manuais de falante no editor da transcrição
+	useEffect(() => {
+		const handler = (event: Event) => {
+			const { segmentId, speaker } = (event as CustomEvent).detail;
+			const audioBlob = segmentAudioRef.current.get(segmentId);
+			if (!audioBlob) return;
+			voiceRef.current
+				.learnVoice(audioBlob, speaker)
+				.catch((error) => console.error("Erro na análise de voz:", error));
 		};
-
-		rec.onerror = (event: any) => {
-			console.error("Speech recognition error:", event.error);
+		window.addEventListener("speaker-corrected", handler);
+		return () => window.removeEventListener("speaker-corrected", handler);
+	}, []);
+
+	// Inicia a gravação do áudio da próxima fala
+	const startUtteranceCapture = () => {
+		if (!streamRef.current || !voiceAttribution) return;
+
+		const chunks: Blob[] = [];
+		const mimeType = pickAudioMimeType();
+		const mediaRecorder = new MediaRecorder(
+			streamRef.current,
+			mimeType ? { mimeType } : undefined,
+		);
+
+		mediaRecorder.ondataavailable = (event) => {
+			if (event.data.size > 0) {
+				chunks.push(event.data);
+			}
 		};
 
-		recognitionRef.current = rec;
-
-		return () => rec.stop();
-	}, [language, onTranscriptChange, patientName]);
-
-	// Processa análise de áudio em background sem bloquear
-	const processAudioInBackground = async (knownSpeaker: SpeakerType) => {
-		if (isProcessingRef.current) return;
-		
-		isProcessingRef.current = true;
-		try {
-			// Captura áudio para análise da IA
-			const audioBlob = await captureQuickAudioSample();
-			if (audioBlob) {
-				// Aprende características da voz identificada
-				await learnVoice(audioBlob, knownSpeaker);
-			}
-		} catch (error) {
-			console.error("Erro na análise de voz:", error);
-		} finally {
-			isProcessingRef.current = false;
-		}
+		mediaRecorder.start();
+		utteranceRecorderRef.current = mediaRecorder;
+		utteranceChunksRef.current = chunks;
 	};
 
-	// Captura áudio mais rápida (500ms ao invés de 2s)
-	const captureQuickAudioSample = async (): Promise<Blob | null> => {
-		return new Promise((resolve) => {
-			if (!streamRef.current) {
-				resolve(null);
-				return;
-			}
+	// Encerra a amostra atual (áudio desde a última fala) e começa a próxima
+	const takeUtteranceSample = (): Promise<Blob | null> => {
+		const mediaRecorder = utteranceRecorderRef.current;
+		const chunks = utteranceChunksRef.current;
+		utteranceRecorderRef.current = null;
 
-			const chunks: Blob[] = [];
-			const mediaRecorder = new MediaRecorder(streamRef.current, {
-				mimeType: 'audio/webm;codecs=opus'
-			});
-
-			mediaRecorder.ondataavailable = (event) => {
-				if (event.data.size > 0) {
-					chunks.push(event.data);
-				}
-			};
+		if (!mediaRecorder || mediaRecorder.state !== "recording") {
+			startUtteranceCapture();
+			return Promise.resolve(null);
+		}
 
+		const sample = new Promise<Blob | null>((resolve) => {
 			mediaRecorder.onstop = () => {
-				const audioBlob = new Blob(chunks, { type: 'audio/webm' });
-				resolve(audioBlob);
+				resolve(chunks.length > 0 ? new Blob(chunks, { type: mediaRecorder.mimeType }) : null);
 			};
-
-			// Apenas 1000ms para análise mais robusta
-			mediaRecorder.start();
-			setTimeout(() => {
-				if (mediaRecorder.state === 'recording') {
-					mediaRecorder.stop();
-				}
-			}, 1000); // 1 segundo para melhor análise
 		});
+		mediaRecorder.stop();
+		startUtteranceCapture();
+		return sample;
+	};
+
+	const stopUtteranceCapture = () => {
+		const mediaRecorder = utteranceRecorderRef.current;
+		utteranceRecorderRef.current = null;
+		if (mediaRecorder && mediaRecorder.state === "recording") {
+			mediaRecorder.stop();
+		}
+	};
+
+	const stopStream = () => {
+		if (streamRef.current) {
+			streamRef.current.getTracks().forEach(track => track.stop());
+			streamRef.current = null;
+		}
 	};
 
+	// Solta o microfone se o gravador sair da tela no meio da gravação
+	useEffect(
+		() => () => {
+			stopUtteranceCapture();
+			stopStream();
+		},
+		[],
+	);
+
 	const start = async () => {
 		try {
-			// Captura stream de áudio para análise de voz
-			const stream = await navigator.mediaDevices.getUserMedia({ 
-				audio: {
-					echoCancellation: true,
-					noiseSuppression: true,
-					autoGainControl: true,
-					sampleRate: 44100
-				}
-			});
+			// Captura stream de áudio para análise de voz (e para o motor do servidor);
+			// a simulação reproduz o roteiro sem microfone
+			const stream = speech.engineId === "script"
+				? null
+				: await navigator.mediaDevices.getUserMedia({ 
+					audio: {
+						echoCancellation: true,
+						noiseSuppression: true,
+						autoGainControl: true,
+						sampleRate: 44100
+					}
+				});
 			streamRef.current = stream;
 
-		onTranscriptChange("");
-		finalRef.current = "";
-		setRecording(true);
-			recognitionRef.current?.start();
+			onSegmentsChange([]);
+			segmentAudioRef.current.clear();
+			setRecording(true);
+			startUtteranceCapture();
+			speech.start(stream);
 		} catch (error) {
 			console.error("Erro ao acessar microfone:", error);
 		}
@@ -203,43 +211,23 @@ const Recorder = forwardRef<RecorderHandle, Props>(function Recorder(
 
 	const stop = () => {
 		setRecording(false);
-		recognitionRef.current?.stop();
-		
-		// Para processamento em background
-		isProcessingRef.current = false;
-		
-		// Para o stream de áudio
-		if (streamRef.current) {
-			streamRef.current.getTracks().forEach(track => track.stop());
-			streamRef.current = null;
-		}
+		speech.stop();
 		
-		onTranscriptChange(finalRef.current);
+		// Para a amostra de voz em andamento e o stream de áudio
+		stopUtteranceCapture();
+		stopStream();
 	};
 
 	const reset = () => {
 		setRecording(false);
-		recognitionRef.current?.stop();
+		// Descarta falas pendentes
+		speech.reset();
+		stopUtteranceCapture();
+		stopStream();
 		
-		// Para o stream se estiver ativo
-		if (streamRef.current) {
-			streamRef.current.getTracks().forEach(track => track.stop());
-			streamRef.current = null;
-		}
-		
-		// Limpa refs de processamento
-		isProcessingRef.current = false;
-		lastSpeakerRef.current = "auto";
-		lastTranscriptRef.current = ""; // Limpa último transcript
-		
-		finalRef.current = "";
-		speechCountRef.current = 0; // Reset contador
-		onTranscriptChange("");
-		setPatientName("");
-	};
-
-	const getPatientName = () => {
-		return patientName.trim();
+		segmentAudioRef.current.clear();
+		onSegmentsChange([]);
+		onPatientChange({ name: "" });
 	};
 
 	useImperativeHandle(
@@ -248,15 +236,14 @@ const Recorder = forwardRef<RecorderHandle, Props>(function Recorder(
 			start,
 			stop,
 			reset,
-			getPatientName,
 		}),
-		[patientName, language],
+		[patient, language],
 	);
 
 	return (
 		<div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm space-y-4">
 			{/* Status da gravação */}
-			{recording && (
+			{recording && speech.status === "listening" && (
 				<div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-md p-3">
 					<span className="text-red-500 text-lg">🔴</span>
 					<span className="text-red-700 font-medium">
@@ -265,26 +252,64 @@ const Recorder = forwardRef<RecorderHandle, Props>(function Recorder(
 				</div>
 			)}
 
-			{/* Campo de Nome do Paciente */}
-			<div className="space-y-2">
-				<label htmlFor="patientName" className="block text-sm font-medium text-gray-700">
-					{language === "pt" ? "Nome do Paciente:" : "Patient Name:"}
-				</label>
-				<input
-					id="patientName"
-					type="text"
-					value={patientName}
-					onChange={(e) => setPatientName(e.target.value)}
-					placeholder={
-						language === "pt"
-							? "Digite o nome do paciente"
-							: "Enter patient name"
-					}
-					className="w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:cursor-not-allowed"
-					disabled={recording}
-				/>
+			{/* Reconhecimento interrompido: reiniciando automaticamente */}
+			{recording && speech.status === "reconnecting" && (
+				<div className="flex items-center gap-2 bg-amber-50 border border-amber-200 rounded-md p-3">
+					<span className="text-amber-500 text-lg">⏸️</span>
+					<span className="text-amber-700 font-medium">
+						{speech.engineId === "backend"
+							? language === "pt"
+								? "Gravando - falha no envio, tentando novamente..."
+								: "Recording - upload failed, retrying..."
+							: language === "pt"
+								? "Transcrição pausada - reconectando..."
+								: "Transcription paused - reconnecting..."}
+					</span>
+				</div>
+			)}
+
+			{recording && speech.status === "failed" && (
+				<div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-md p-3">
+					<span className="text-red-500 text-lg">❌</span>
+					<span className="text-red-700 font-medium">
+						{language === "pt"
+							? "Transcrição interrompida. Verifique a permissão do microfone."
+							: "Transcription stopped. Check the microphone permission."}
+					</span>
+				</div>
+			)}
+
+			{/* Modo de transcrição: tempo real no navegador ou trechos enviados ao servidor */}
+			<div className="flex border border-gray-200 rounded-md overflow-hidden text-sm">
+				{(["webspeech", "backend"] as const).map((engine) => (
+					<button
+						key={engine}
+						onClick={() => updateSettings({ speechEngine: engine })}
+						disabled={recording || !speechEngines[engine].isSupported()}
+						className={`flex-1 px-3 py-2 transition-colors disabled:cursor-not-allowed ${
+							speech.engineId === engine
+								? "bg-blue-500 text-white"
+								: "hover:bg-gray-100 disabled:opacity-50"
+						}`}
+					>
+						{engine === "webspeech"
+							? language === "pt" ? "⚡ Tempo real (navegador)" : "⚡ Real time (browser)"
+							: language === "pt" ? "🎯 Alta qualidade (servidor)" : "🎯 High quality (server)"}
+					</button>
+				))}
 			</div>
 
+			{speech.engineId === "script" && (
+				<p className="text-xs text-purple-700 bg-purple-50 border border-purple-200 rounded-md p-2 text-center">
+					{language === "pt"
+						? "🎬 Simulação: a gravação reproduz o roteiro das configurações, sem microfone."
+						: "🎬 Simulation: recording plays the script from settings, without a microphone."}
+				</p>
+			)}
+
+			{/* Paciente da consulta (cadastrado ou só o nome) */}
+			<PatientPicker language={language} value={patient} onChange={onPatientChange} disabled={recording} />
+
 			{/* Botão principal de gravação */}
 			<div className="flex justify-center">
 				<button 
@@ -301,6 +326,35 @@ const Recorder = forwardRef<RecorderHandle, Props>(function Recorder(
 				</button>
 			</div>
 
+			{/* Trechos enviados ao servidor ainda sem texto */}
+			{speech.progress.pending > 0 && (
+				<p className="text-xs text-gray-600 text-center">
+					⏳{" "}
+					{language === "pt"
+						? `${speech.progress.pending} trecho(s) em processamento`
+						: `${speech.progress.pending} chunk(s) processing`}
+					{speech.progress.retrying > 0 &&
+						(language === "pt"
+							? ` · ${speech.progress.retrying} tentando novamente`
+							: ` · ${speech.progress.retrying} retrying`)}
+				</p>
+			)}
+
+			{!speech.supported && (
+				<p className="text-xs text-red-600 text-center">
+					{language === "pt"
+						? "❌ Transcrição não suportada neste navegador."
+						: "❌ Transcription not supported in this browser."}
+				</p>
+			)}
+			{speech.supported && speech.engineId !== settings.speechEngine && (
+				<p className="text-xs text-amber-700 text-center">
+					{language === "pt"
+						? `⚠️ ${speechEngines[settings.speechEngine].label.pt} indisponível neste navegador - usando ${speechEngines[speech.engineId].label.pt}.`
+						: `⚠️ ${speechEngines[settings.speechEngine].label.en} unavailable in this browser - using ${speechEngines[speech.engineId].label.en}.`}
+				</p>
+			)}
+
 			<p className="text-xs text-gray-500 text-center">
 				{language === "pt"
 					? "💡 Clique para iniciar a gravação da consulta"
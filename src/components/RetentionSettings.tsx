@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { useSettings } from "../hooks/useSettings";
+import { historyErrorMessage } from "../lib/history";
+import {
+	applyRetention,
+	isRetentionEnabled,
+	loadPurgeLog,
+	type PurgeCandidate,
+	type PurgeLogEntry,
+	previewRetention,
+	type RetentionPolicy,
+} from "../lib/retention";
+import { RETENTION_DAYS_OPTIONS, RETENTION_MAX_ITEMS_OPTIONS } from "../lib/settings";
+
+type Props = {
+	language: "pt" | "en";
+};
+
+const labels = {
+	pt: {
+		title: "🗓️ Retenção do histórico",
+		days: "Apagar consultas com mais de:",
+		maxItems: "Manter no máximo:",
+		noLimit: "Sem limite",
+		dayUnit: "dias",
+		itemUnit: "consultas",
+		note: "Aplicada ao abrir o aplicativo e após cada consulta salva. Consultas fixadas (📌) nunca são apagadas.",
+		nothing: "Nenhuma consulta seria apagada.",
+		preview: (count: number) => `${count} consulta(s) serão apagadas definitivamente:`,
+		save: "Salvar e aplicar",
+		saved: (count: number) => `Política salva. ${count} consulta(s) apagada(s).`,
+		log: "Limpezas anteriores",
+		logEntry: (entry: PurgeLogEntry) =>
+			`${entry.ids.length} apagada(s) (${entry.byAge} por idade, ${entry.byCount} pelo limite)`,
+	},
+	en: {
+		title: "🗓️ History retention",
+		days: "Delete consultations older than:",
+		maxItems: "Keep at most:",
+		noLimit: "No limit",
+		dayUnit: "days",
+		itemUnit: "consultations",
+		note: "Applied when the app opens and after each saved consultation. Pinned consultations (📌) are never deleted.",
+		nothing: "No consultation would be deleted.",
+		preview: (count: number) => `${count} consultation(s) will be permanently deleted:`,
+		save: "Save and apply",
+		saved: (count: number) => `Policy saved. ${count} consultation(s) deleted.`,
+		log: "Previous purges",
+		logEntry: (entry: PurgeLogEntry) =>
+			`${entry.ids.length} deleted (${entry.byAge} by age, ${entry.byCount} by limit)`,
+	},
+};
+
+const selectClass = "w-full border border-gray-300 rounded-md px-2 py-1 bg-white text-sm";
+
+export default function RetentionSettings({ language }: Props) {
+	const [settings, updateSettings] = useSettings();
+	// Política em edição: só vale depois de salvar, vendo antes o que será apagado
+	const [draft, setDraft] = useState<RetentionPolicy>({
+		days: settings.retentionDays,
+		maxItems: settings.retentionMaxItems,
+	});
+	const [preview, setPreview] = useState<PurgeCandidate[] | null>(null);
+	const [log, setLog] = useState<PurgeLogEntry[]>(loadPurgeLog);
+	const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+	// Muda a cada alteração do histórico, para refazer a prévia
+	const [historyVersion, setHistoryVersion] = useState(0);
+	const t = labels[language];
+
+	const changed = draft.days !== settings.retentionDays || draft.maxItems !== settings.retentionMaxItems;
+
+	useEffect(() => {
+		let active = true;
+		previewRetention(draft)
+			.then((candidates) => active && setPreview(candidates))
+			.catch((error) => {
+				console.error("Erro ao calcular a retenção:", error);
+				if (active) setPreview(null);
+			});
+		return () => {
+			active = false;
+		};
+	}, [draft.days, draft.maxItems, historyVersion]);
+
+	useEffect(() => {
+		const onLog = () => setLog(loadPurgeLog());
+		const onHistory = () => setHistoryVersion((version) => version + 1);
+		window.addEventListener("purge-log-updated", onLog);
+		window.addEventListener("history-updated", onHistory);
+		return () => {
+			window.removeEventListener("purge-log-updated", onLog);
+			window.removeEventListener("history-updated", onHistory);
+		};
+	}, []);
+
+	const save = async () => {
+		const count = preview?.length ?? 0;
+		if (count > 0 && !window.confirm(t.preview(count))) return;
+		updateSettings({ retentionDays: draft.days, retentionMaxItems: draft.maxItems });
+		try {
+			const entry = await applyRetention(draft);
+			setMessage({ text: t.saved(entry?.ids.length ?? 0), error: false });
+		} catch (error) {
+			console.error("Erro ao aplicar a retenção:", error);
+			setMessage({ text: historyErrorMessage(error, language), error: true });
+		}
+	};
+
+	return (
+		<div className="space-y-2 border-t border-gray-200 pt-3">
+			<p className="text-sm font-medium text-gray-700">{t.title}</p>
+			<div className="grid grid-cols-2 gap-2">
+				<div className="space-y-1">
+					<label htmlFor="retentionDays" className="block text-xs text-gray-600">
+						{t.days}
+					</label>
+					<select
+						id="retentionDays"
+						value={draft.days}
+						onChange={(e) => setDraft({ ...draft, days: Number(e.target.value) })}
+						className={selectClass}
+					>
+						{RETENTION_DAYS_OPTIONS.map((days) => (
+							<option key={days} value={days}>
+								{days === 0 ? t.noLimit : `${days} ${t.dayUnit}`}
+							</option>
+						))}
+					</select>
+				</div>
+				<div className="space-y-1">
+					<label htmlFor="retentionMaxItems" className="block text-xs text-gray-600">
+						{t.maxItems}
+					</label>
+					<select
+						id="retentionMaxItems"
+						value={draft.maxItems}
+						onChange={(e) => setDraft({ ...draft, maxItems: Number(e.target.value) })}
+						className={selectClass}
+					>
+						{RETENTION_MAX_ITEMS_OPTIONS.map((count) => (
+							<option key={count} value={count}>
+								{count === 0 ? t.noLimit : `${count} ${t.itemUnit}`}
+							</option>
+						))}
+					</select>
+				</div>
+			</div>
+			<p className="text-xs text-gray-500">{t.note}</p>
+
+			{/* Prévia do que a política apagaria agora */}
+			{isRetentionEnabled(draft) && preview && (
+				<div className="text-xs">
+					{preview.length === 0 ? (
+						<p className="text-gray-500">{t.nothing}</p>
+					) : (
+						<div className="bg-red-50 border border-red-200 rounded-md p-2 space-y-1">
+							<p className="text-red-700 font-medium">{t.preview(preview.length)}</p>
+							<ul className="text-red-700 max-h-32 overflow-y-auto">
+								{preview.map(({ item }) => (
+									<li key={item.id}>
+										{new Date(item.timestamp).toLocaleDateString()} · {item.patientName || "—"}
+									</li>
+								))}
+							</ul>
+						</div>
+					)}
+				</div>
+			)}
+
+			{(changed || (preview?.length ?? 0) > 0) && (
+				<button
+					type="button"
+					onClick={save}
+					className="w-full bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-md text-sm transition-colors"
+				>
+					{t.save}
+				</button>
+			)}
+			{message && (
+				<p className={`text-xs ${message.error ? "text-red-600" : "text-green-700"}`}>{message.text}</p>
+			)}
+
+			{log.length > 0 && (
+				<details className="text-xs">
+					<summary className="cursor-pointer text-gray-600 hover:text-gray-800">
+						{t.log} ({log.length})
+					</summary>
+					<ul className="pt-1 space-y-0.5 text-gray-600 max-h-32 overflow-y-auto">
+						{log.map((entry) => (
+							<li key={entry.at}>
+								{new Date(entry.at).toLocaleString()} · {t.logEntry(entry)}
+							</li>
+						))}
+					</ul>
+				</details>
+			)}
+		</div>
+	);
+}
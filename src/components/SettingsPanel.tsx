@@ -0,0 +1,239 @@
+import { useSettings } from "../hooks/useSettings";
+import { parseConsultationScript, SAMPLE_SCRIPTS } from "../lib/consultationScript";
+import { isMockEnvEnabled, type MockFailureKind } from "../lib/mockBackend";
+import {
+	MOCK_FAILURE_RATE_OPTIONS,
+	MOCK_LATENCY_OPTIONS,
+	SERVER_CHUNK_OPTIONS,
+	TRASH_RETENTION_OPTIONS,
+} from "../lib/settings";
+import { type SpeechEngineId, speechEngines } from "../lib/speechEngines";
+import RetentionSettings from "./RetentionSettings";
+import VaultSettings from "./VaultSettings";
+
+type Props = {
+	language: "pt" | "en";
+};
+
+const failureKindLabels: Record<MockFailureKind, { pt: string; en: string }> = {
+	network: { pt: "Sem conexão", en: "No connection" },
+	timeout: { pt: "Tempo esgotado", en: "Timeout" },
+	server: { pt: "Erro do servidor (500)", en: "Server error (500)" },
+	malformed: { pt: "Resposta incompleta", en: "Incomplete response" },
+};
+
+export default function SettingsPanel({ language }: Props) {
+	const [settings, updateSettings] = useSettings();
+	const mockForcedByEnv = isMockEnvEnabled();
+	const mockActive = mockForcedByEnv || settings.mockBackend;
+
+	// Erro do roteiro de simulação digitado (vazio usa o exemplo)
+	let scriptError: string | null = null;
+	if (settings.speechEngine === "script" && settings.simulationScript.trim()) {
+		try {
+			parseConsultationScript(settings.simulationScript);
+		} catch (error) {
+			scriptError = error instanceof Error ? error.message : String(error);
+		}
+	}
+
+	return (
+		<details className="bg-gray-50 border border-gray-200 rounded-md">
+			<summary className="cursor-pointer p-3 hover:bg-gray-100 transition-colors font-medium text-gray-700">
+				⚙️ {language === "pt" ? "Configurações" : "Settings"}
+			</summary>
+			<div className="border-t border-gray-200 p-3 space-y-3">
+				<div className="space-y-1">
+					<label
+						htmlFor="speechEngine"
+						className="block text-sm font-medium text-gray-700"
+					>
+						{language === "pt" ? "Motor de transcrição:" : "Transcription engine:"}
+					</label>
+					<select
+						id="speechEngine"
+						value={settings.speechEngine}
+						onChange={(e) =>
+							updateSettings({ speechEngine: e.target.value as SpeechEngineId })
+						}
+						className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-sm"
+					>
+						{(Object.keys(speechEngines) as SpeechEngineId[]).map((id) => (
+							<option key={id} value={id} disabled={!speechEngines[id].isSupported()}>
+								{speechEngines[id].label[language]}
+							</option>
+						))}
+					</select>
+					{!speechEngines.webspeech.isSupported() && (
+						<p className="text-xs text-gray-500">
+							{language === "pt"
+								? "Este navegador não tem Web Speech; a transcrição usa o servidor."
+								: "This browser has no Web Speech; transcription uses the server."}
+						</p>
+					)}
+				</div>
+
+				{settings.speechEngine === "backend" && (
+					<div className="space-y-1">
+						<label
+							htmlFor="serverChunkSeconds"
+							className="block text-sm font-medium text-gray-700"
+						>
+							{language === "pt" ? "Duração dos trechos enviados:" : "Uploaded chunk length:"}
+						</label>
+						<select
+							id="serverChunkSeconds"
+							value={settings.serverChunkSeconds}
+							onChange={(e) =>
+								updateSettings({ serverChunkSeconds: Number(e.target.value) })
+							}
+							className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-sm"
+						>
+							{SERVER_CHUNK_OPTIONS.map((seconds) => (
+								<option key={seconds} value={seconds}>
+									{seconds} s
+								</option>
+							))}
+						</select>
+					</div>
+				)}
+
+				{settings.speechEngine === "script" && (
+					<div className="space-y-1">
+						<label htmlFor="simulationScript" className="block text-sm font-medium text-gray-700">
+							{language === "pt" ? "Roteiro da simulação (JSON):" : "Simulation script (JSON):"}
+						</label>
+						<textarea
+							id="simulationScript"
+							value={settings.simulationScript}
+							onChange={(e) => updateSettings({ simulationScript: e.target.value })}
+							placeholder={JSON.stringify(SAMPLE_SCRIPTS[language], null, 2)}
+							rows={8}
+							spellCheck={false}
+							className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-xs font-mono"
+						/>
+						<p className="text-xs text-gray-500">
+							{language === "pt"
+								? "Cada fala: speaker (doctor/patient), text e, opcionais, at e duration em ms, endSession e error. Vazio usa o exemplo."
+								: "Each line: speaker (doctor/patient), text and, optionally, at and duration in ms, endSession and error. Empty uses the sample."}
+						</p>
+						{scriptError && <p className="text-xs text-red-600">{scriptError}</p>}
+						<button
+							type="button"
+							onClick={() =>
+								updateSettings({
+									simulationScript: JSON.stringify(SAMPLE_SCRIPTS[language], null, 2),
+								})
+							}
+							className="text-xs text-blue-600 hover:underline"
+						>
+							{language === "pt" ? "Carregar o exemplo para editar" : "Load the sample to edit"}
+						</button>
+					</div>
+				)}
+
+				<div className="space-y-1 border-t border-gray-200 pt-3">
+					<label htmlFor="trashRetentionDays" className="block text-sm font-medium text-gray-700">
+						{language === "pt" ? "Manter consultas excluídas na lixeira por:" : "Keep deleted consultations in the trash for:"}
+					</label>
+					<select
+						id="trashRetentionDays"
+						value={settings.trashRetentionDays}
+						onChange={(e) => updateSettings({ trashRetentionDays: Number(e.target.value) })}
+						className="w-full border border-gray-300 rounded-md px-3 py-2 bg-white text-sm"
+					>
+						{TRASH_RETENTION_OPTIONS.map((days) => (
+							<option key={days} value={days}>
+								{days} {language === "pt" ? (days === 1 ? "dia" : "dias") : days === 1 ? "day" : "days"}
+							</option>
+						))}
+					</select>
+				</div>
+
+				<RetentionSettings language={language} />
+
+				<VaultSettings language={language} />
+
+				<div className="space-y-2 border-t border-gray-200 pt-3">
+					<label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+						<input
+							type="checkbox"
+							checked={mockActive}
+							disabled={mockForcedByEnv}
+							onChange={(e) => updateSettings({ mockBackend: e.target.checked })}
+						/>
+						{language === "pt"
+							? "Backend simulado (desenvolvimento e demonstrações)"
+							: "Mock backend (development and demos)"}
+					</label>
+					{mockForcedByEnv && (
+						<p className="text-xs text-gray-500">
+							{language === "pt"
+								? "Ativado por VITE_MOCK_API=true."
+								: "Enabled by VITE_MOCK_API=true."}
+						</p>
+					)}
+
+					{mockActive && (
+						<div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+							<div className="space-y-1">
+								<label htmlFor="mockLatencyMs" className="block text-xs text-gray-600">
+									{language === "pt" ? "Latência:" : "Latency:"}
+								</label>
+								<select
+									id="mockLatencyMs"
+									value={settings.mockLatencyMs}
+									onChange={(e) => updateSettings({ mockLatencyMs: Number(e.target.value) })}
+									className="w-full border border-gray-300 rounded-md px-2 py-1 bg-white text-sm"
+								>
+									{MOCK_LATENCY_OPTIONS.map((ms) => (
+										<option key={ms} value={ms}>
+											{ms} ms
+										</option>
+									))}
+								</select>
+							</div>
+							<div className="space-y-1">
+								<label htmlFor="mockFailureRate" className="block text-xs text-gray-600">
+									{language === "pt" ? "Falhas:" : "Failures:"}
+								</label>
+								<select
+									id="mockFailureRate"
+									value={settings.mockFailureRate}
+									onChange={(e) => updateSettings({ mockFailureRate: Number(e.target.value) })}
+									className="w-full border border-gray-300 rounded-md px-2 py-1 bg-white text-sm"
+								>
+									{MOCK_FAILURE_RATE_OPTIONS.map((rate) => (
+										<option key={rate} value={rate}>
+											{Math.round(rate * 100)}%
+										</option>
+									))}
+								</select>
+							</div>
+							<div className="space-y-1">
+								<label htmlFor="mockFailureKind" className="block text-xs text-gray-600">
+									{language === "pt" ? "Tipo de falha:" : "Failure kind:"}
+								</label>
+								<select
+									id="mockFailureKind"
+									value={settings.mockFailureKind}
+									disabled={settings.mockFailureRate === 0}
+									onChange={(e) =>
+										updateSettings({ mockFailureKind: e.target.value as MockFailureKind })
+									}
+									className="w-full border border-gray-300 rounded-md px-2 py-1 bg-white text-sm"
+								>
+									{(Object.keys(failureKindLabels) as MockFailureKind[]).map((kind) => (
+										<option key={kind} value={kind}>
+											{failureKindLabels[kind][language]}
+										</option>
+									))}
+								</select>
+							</div>
+						</div>
+					)}
+				</div>
+			</div>
+		</details>
+	);
+}
@@ -0,0 +1,128 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { useState } from "react";
+import { describe, expect, it, vi } from "vitest";
+import type { TranscriptSegment } from "../lib/types";
+import { segment } from "../test/fixtures";
+import TranscriptView from "./TranscriptView";
+
+// Transcrição controlada como no App; "capturar" simula uma fala nova chegando
+function Harness({ initial }: { initial: TranscriptSegment[] }) {
+	const [segments, setSegments] = useState(initial);
+	return (
+		<>
+			<TranscriptView language="pt" segments={segments} onChange={setSegments} />
+			<button
+				onClick={() =>
+					setSegments((prev) => [
+						...prev,
+						segment({ id: "capturada", text: "Tomei dipirona.", start: 9000, end: 10000 }),
+					])
+				}
+			>
+				capturar
+			</button>
+		</>
+	);
+}
+
+const consultation = () => [
+	segment({ id: "a", text: "Bom dia, tudo bem?", start: 0, end: 1800 }),
+	segment({ id: "b", speaker: "patient", speakerName: "Ana", text: "Estou com febre.", start: 2000, end: 3000 }),
+];
+
+const lines = () =>
+	screen.getAllByRole<HTMLTextAreaElement>("textbox").map((textarea) => textarea.value);
+
+const undo = () => fireEvent.click(screen.getByTitle("Desfazer"));
+const redo = () => fireEvent.click(screen.getByTitle("Refazer"));
+
+describe("TranscriptView", () => {
+	it("edita uma fala ao sair do campo e desfaz e refaz a edição", () => {
+		render(<Harness initial={consultation()} />);
+		const [first] = screen.getAllByRole("textbox");
+
+		fireEvent.change(first, { target: { value: "Bom dia, como vai?" } });
+		// Só vira um passo ao sair do campo
+		expect(screen.getByTitle("Desfazer")).toBeDisabled();
+		fireEvent.blur(first);
+		expect(lines()).toEqual(["Bom dia, como vai?", "Estou com febre."]);
+
+		undo();
+		expect(lines()).toEqual(["Bom dia, tudo bem?", "Estou com febre."]);
+		redo();
+		expect(lines()).toEqual(["Bom dia, como vai?", "Estou com febre."]);
+		expect(screen.getByTitle("Refazer")).toBeDisabled();
+	});
+
+	it("divide no cursor, junta, remove e desfaz cada passo", () => {
+		render(<Harness initial={consultation()} />);
+		const [first] = screen.getAllByRole<HTMLTextAreaElement>("textbox");
+
+		first.setSelectionRange(8, 8);
+		fireEvent.click(screen.getAllByTitle("Dividir no cursor")[0]);
+		expect(lines()).toEqual(["Bom dia,", "tudo bem?", "Estou com febre."]);
+
+		fireEvent.click(screen.getAllByTitle("Juntar com a próxima")[1]);
+		expect(lines()).toEqual(["Bom dia,", "tudo bem? Estou com febre."]);
+		// A fala juntada fica com o falante da primeira
+		expect(screen.queryByRole("button", { name: "Ana" })).not.toBeInTheDocument();
+
+		fireEvent.click(screen.getAllByTitle("Remover fala")[0]);
+		expect(lines()).toEqual(["tudo bem? Estou com febre."]);
+
+		undo();
+		expect(lines()).toEqual(["Bom dia,", "tudo bem? Estou com febre."]);
+		undo();
+		expect(lines()).toEqual(["Bom dia,", "tudo bem?", "Estou com febre."]);
+		undo();
+		expect(lines()).toEqual(["Bom dia, tudo bem?", "Estou com febre."]);
+		expect(screen.getByRole("button", { name: "Ana" })).toBeInTheDocument();
+	});
+
+	it("troca o falante pelo menu e avisa os perfis de voz", () => {
+		const corrected = vi.fn();
+		window.addEventListener("speaker-corrected", corrected);
+		vi.spyOn(window, "prompt").mockReturnValue("Enfermeira Lima");
+		render(<Harness initial={consultation()} />);
+
+		fireEvent.click(screen.getByRole("button", { name: "Médico" }));
+		// O menu abre logo abaixo do chip, antes da fala seguinte
+		fireEvent.click(screen.getAllByRole("button", { name: "Ana" })[0]);
+		expect(screen.getAllByRole("button", { name: "Ana" })).toHaveLength(2);
+		expect(corrected).toHaveBeenCalledTimes(1);
+		expect((corrected.mock.calls[0][0] as CustomEvent).detail).toEqual({ segmentId: "a", speaker: "patient" });
+
+		// Participante novo: não alimenta os perfis de voz
+		fireEvent.click(screen.getAllByRole("button", { name: "Ana" })[0]);
+		fireEvent.click(screen.getByRole("button", { name: "+ Outro participante" }));
+		expect(screen.getByRole("button", { name: "Enfermeira Lima" })).toBeInTheDocument();
+		expect(corrected).toHaveBeenCalledTimes(1);
+
+		undo();
+		undo();
+		expect(screen.getByRole("button", { name: "Médico" })).toBeInTheDocument();
+		window.removeEventListener("speaker-corrected", corrected);
+	});
+
+	it("edita no modo texto sem perder a fala capturada durante a edição", () => {
+		render(<Harness initial={consultation()} />);
+		fireEvent.click(screen.getByRole("button", { name: "Texto" }));
+		const textarea = screen.getByRole<HTMLTextAreaElement>("textbox");
+		expect(textarea.value).toBe("Médico: Bom dia, tudo bem?\nAna: Estou com febre.\n");
+
+		fireEvent.change(textarea, { target: { value: "Médico: Bom dia, tudo bem?\nAna: Estou com febre alta.\n" } });
+		fireEvent.click(screen.getByRole("button", { name: "capturar" }));
+		fireEvent.blur(textarea);
+		expect(textarea.value).toBe(
+			"Médico: Bom dia, tudo bem?\nAna: Estou com febre alta.\nMédico: Tomei dipirona.\n",
+		);
+
+		fireEvent.click(screen.getByRole("button", { name: "Falas" }));
+		expect(lines()).toEqual(["Bom dia, tudo bem?", "Estou com febre alta.", "Tomei dipirona."]);
+		expect(screen.getByRole("button", { name: "Ana" })).toBeInTheDocument();
+
+		// Desfazer volta só o trecho editado
+		undo();
+		expect(lines()).toEqual(["Bom dia, tudo bem?", "Estou com febre.", "Tomei dipirona."]);
+	});
+});
@@ -1,20 +1,422 @@
+import { type Dispatch, type ReactNode, type SetStateAction, useEffect, useRef, useState } from "react";
+import { useAutoLockHold } from "../hooks/useVault";
+import {
+	applyPatch,
+	createSegmentId,
+	diffSegments,
+	finalSegments,
+	mergeWithNext,
+	otherParticipants,
+	parseTranscript,
+	reassignSpeaker,
+	reconcileSegments,
+	removeSegment,
+	revertPatch,
+	serializeTranscript,
+	speakerLabel,
+	splitSegment,
+	type TranscriptPatch,
+	updateSegmentText,
+} from "../lib/transcript";
+import type { SpeakerRole, TranscriptSegment } from "../lib/types";
+
 type Props = {
 	language: "pt" | "en";
-	value: string;
-	onChange: (t: string) => void;
+	segments: TranscriptSegment[];
+	// Recebe atualizações funcionais: a captura pode acrescentar falas a qualquer momento
+	onChange: Dispatch<SetStateAction<TranscriptSegment[]>>;
 };
-export default function TranscriptView({ language, value, onChange }: Props) {
+
+// Limite de passos guardados para desfazer
+const MAX_UNDO = 50;
+
+const chipColors: Record<SpeakerRole, string> = {
+	doctor: "bg-blue-100 text-blue-800 border-blue-200",
+	patient: "bg-green-100 text-green-800 border-green-200",
+	other: "bg-purple-100 text-purple-800 border-purple-200",
+};
+
+const labels = {
+	pt: {
+		segments: "Falas",
+		text: "Texto",
+		undo: "Desfazer",
+		redo: "Refazer",
+		split: "Dividir no cursor",
+		merge: "Juntar com a próxima",
+		remove: "Remover fala",
+		addLine: "+ Adicionar fala",
+		newParticipant: "+ Outro participante",
+		participantPrompt: "Nome do participante:",
+		voice: "Identificado pelo perfil de voz",
+		source: "Identificado pela origem do áudio",
+		alternation: "Confiança baixa - atribuído por alternância",
+		manual: "Corrigido manualmente",
+		pendingTranscription: "Áudio guardado - será transcrito quando o servidor voltar",
+		empty: "A transcrição aparecerá aqui...",
+	},
+	en: {
+		segments: "Lines",
+		text: "Text",
+		undo: "Undo",
+		redo: "Redo",
+		split: "Split at cursor",
+		merge: "Merge with next",
+		remove: "Remove line",
+		addLine: "+ Add line",
+		newParticipant: "+ Other participant",
+		participantPrompt: "Participant name:",
+		voice: "Identified by voice profile",
+		source: "Identified by audio source",
+		alternation: "Low confidence - attributed by alternation",
+		manual: "Manually corrected",
+		pendingTranscription: "Audio saved - it will be transcribed when the server is back",
+		empty: "Transcription will appear here...",
+	},
+};
+
+export default function TranscriptView({ language, segments, onChange }: Props) {
+	const [mode, setMode] = useState<"segments" | "text">("segments");
+	// Texto em edição no modo texto e as falas finais de quando a edição começou;
+	// enquanto nulo, exibe os segmentos recebidos
+	const [draft, setDraft] = useState<{ text: string; base: TranscriptSegment[] } | null>(null);
+	// Cada passo guarda só o trecho editado, para desfazer sem apagar falas
+	// capturadas depois da edição
+	const [past, setPast] = useState<TranscriptPatch[]>([]);
+	const [future, setFuture] = useState<TranscriptPatch[]>([]);
+	const [menuFor, setMenuFor] = useState<string | null>(null);
+	useAutoLockHold(draft !== null);
+
+	// Nova consulta: o histórico de edições não se aplica mais
+	useEffect(() => {
+		if (segments.length === 0) {
+			setPast([]);
+			setFuture([]);
+		}
+	}, [segments.length]);
+
+	const t = labels[language];
+	const participants = otherParticipants(segments);
+	const patientName = segments.find(
+		(segment) => segment.speaker === "patient" && segment.speakerName,
+	)?.speakerName;
+
+	// Toda edição passa por aqui para poder ser desfeita; `base` é a lista sobre
+	// a qual a edição foi feita
+	const applyEdit = (next: TranscriptSegment[], base = segments) => {
+		const patch = diffSegments(base, next);
+		if (patch.before.length === 0 && patch.after.length === 0) return;
+		setPast((prev) => [...prev, patch].slice(-MAX_UNDO));
+		setFuture([]);
+		onChange((current) => applyPatch(current, patch));
+	};
+
+	const undo = () => {
+		const patch = past[past.length - 1];
+		if (!patch) return;
+		setPast((prev) => prev.slice(0, -1));
+		setFuture((next) => [patch, ...next]);
+		onChange((current) => revertPatch(current, patch));
+	};
+
+	const redo = () => {
+		const [patch, ...rest] = future;
+		if (!patch) return;
+		setPast((prev) => [...prev, patch].slice(-MAX_UNDO));
+		setFuture(rest);
+		onChange((current) => applyPatch(current, patch));
+	};
+
+	const assignSpeaker = (id: string, speaker: SpeakerRole, speakerName?: string) => {
+		setMenuFor(null);
+		applyEdit(reassignSpeaker(segments, id, speaker, speakerName));
+
+		// Correções de médico/paciente alimentam os perfis de voz
+		if (speaker !== "other") {
+			window.dispatchEvent(
+				new CustomEvent("speaker-corrected", {
+					detail: { segmentId: id, speaker },
+				}),
+			);
+		}
+	};
+
+	const assignNewParticipant = (id: string) => {
+		const name = window.prompt(t.participantPrompt)?.trim();
+		if (!name) return;
+		assignSpeaker(id, "other", name);
+	};
+
+	const addLine = () => {
+		const last = segments.filter((segment) => !segment.interim).at(-1);
+		applyEdit([
+			...segments,
+			{
+				id: createSegmentId(),
+				speaker: "doctor",
+				text: "",
+				start: last?.end ?? 0,
+				end: last?.end ?? 0,
+				source: "manual",
+				attribution: "manual",
+				interim: false,
+			},
+		]);
+	};
+
+	// O rascunho cobre só as falas finais de quando a edição começou; as que a
+	// captura trouxe depois continuam intactas
+	const commitDraft = () => {
+		if (draft === null) return;
+		const edited = parseTranscript(draft.text, "manual", {
+			participants: otherParticipants(draft.base),
+		});
+		applyEdit(reconcileSegments(draft.base, edited), draft.base);
+		setDraft(null);
+	};
+
+	const attributionTitle = (segment: TranscriptSegment) =>
+		segment.attribution ? t[segment.attribution] : undefined;
+
 	return (
 		<div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm h-full flex flex-col">
-			<label className="block text-sm font-medium text-gray-700 mb-3">
-				{language === "pt" ? "Transcrição" : "Transcript"}
-			</label>
+			<div className="flex items-center justify-between mb-3 gap-2">
+				<label className="block text-sm font-medium text-gray-700">
+					{language === "pt" ? "Transcrição" : "Transcript"}
+				</label>
+				<div className="flex items-center gap-1 text-xs">
+					<button
+						onClick={undo}
+						disabled={past.length === 0}
+						title={t.undo}
+						className="px-2 py-1 rounded border border-gray-200 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+					>
+						↶
+					</button>
+					<button
+						onClick={redo}
+						disabled={future.length === 0}
+						title={t.redo}
+						className="px-2 py-1 rounded border border-gray-200 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+					>
+						↷
+					</button>
+					<div className="flex ml-2 border border-gray-200 rounded overflow-hidden">
+						{(["segments", "text"] as const).map((m) => (
+							<button
+								key={m}
+								onClick={() => setMode(m)}
+								className={`px-2 py-1 ${mode === m ? "bg-blue-500 text-white" : "hover:bg-gray-100"}`}
+							>
+								{t[m]}
+							</button>
+						))}
+					</div>
+				</div>
+			</div>
+
+			{mode === "text" ? (
+				<textarea
+					// O texto interim ainda muda e não entra no rascunho editável
+					value={draft?.text ?? serializeTranscript(segments, language)}
+					onChange={(e) => {
+						const text = e.target.value;
+						setDraft((current) => ({ text, base: current?.base ?? finalSegments(segments) }));
+					}}
+					onBlur={commitDraft}
+					className="flex-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors min-h-[300px]"
+					placeholder={t.empty}
+				/>
+			) : (
+				<div className="flex-1 min-h-[300px] max-h-[500px] overflow-y-auto border border-gray-300 rounded-md p-2 space-y-2">
+					{segments.length === 0 && (
+						<p className="text-sm text-gray-400 px-1 py-2">{t.empty}</p>
+					)}
+
+					{segments.map((segment, index) =>
+						segment.interim ? (
+							<p key={segment.id} className="text-sm text-gray-400 italic px-1">
+								{segment.text}
+							</p>
+						) : (
+							<SegmentRow
+								key={segment.id}
+								segment={segment}
+								label={speakerLabel(segment, language)}
+								labels={t}
+								attributionTitle={attributionTitle(segment)}
+								canMerge={!!segments[index + 1] && !segments[index + 1].interim}
+								menuOpen={menuFor === segment.id}
+								onToggleMenu={() =>
+									setMenuFor((current) => (current === segment.id ? null : segment.id))
+								}
+								onText={(text) => applyEdit(updateSegmentText(segments, segment.id, text))}
+								onSplit={(at, text) =>
+									applyEdit(
+										splitSegment(updateSegmentText(segments, segment.id, text), segment.id, at),
+									)
+								}
+								onMerge={() => applyEdit(mergeWithNext(segments, segment.id))}
+								onRemove={() => applyEdit(removeSegment(segments, segment.id))}
+								menu={
+									<>
+										<MenuOption onClick={() => assignSpeaker(segment.id, "doctor")}>
+											{speakerLabel({ speaker: "doctor" }, language)}
+										</MenuOption>
+										<MenuOption
+											onClick={() => assignSpeaker(segment.id, "patient", patientName)}
+										>
+											{speakerLabel({ speaker: "patient", speakerName: patientName }, language)}
+										</MenuOption>
+										{participants.map((name) => (
+											<MenuOption
+												key={name}
+												onClick={() => assignSpeaker(segment.id, "other", name)}
+											>
+												{name}
+											</MenuOption>
+										))}
+										<MenuOption onClick={() => assignNewParticipant(segment.id)}>
+											{t.newParticipant}
+										</MenuOption>
+									</>
+								}
+							/>
+						),
+					)}
+
+					<button
+						onClick={addLine}
+						className="text-xs text-blue-600 hover:text-blue-800 px-1"
+					>
+						{t.addLine}
+					</button>
+				</div>
+			)}
+		</div>
+	);
+}
+
+type SegmentRowProps = {
+	segment: TranscriptSegment;
+	label: string;
+	labels: (typeof labels)["pt"];
+	attributionTitle?: string;
+	canMerge: boolean;
+	menuOpen: boolean;
+	menu: ReactNode;
+	onToggleMenu: () => void;
+	onText: (text: string) => void;
+	onSplit: (at: number, text: string) => void;
+	onMerge: () => void;
+	onRemove: () => void;
+};
+
+function SegmentRow({
+	segment,
+	label,
+	labels: t,
+	attributionTitle,
+	canMerge,
+	menuOpen,
+	menu,
+	onToggleMenu,
+	onText,
+	onSplit,
+	onMerge,
+	onRemove,
+}: SegmentRowProps) {
+	// Texto em edição; só vira um passo de desfazer ao sair do campo
+	const [draft, setDraft] = useState<string | null>(null);
+	const textRef = useRef<HTMLTextAreaElement>(null);
+	useAutoLockHold(draft !== null);
+
+	const commit = () => {
+		if (draft !== null && draft !== segment.text) onText(draft);
+		setDraft(null);
+	};
+
+	return (
+		<div className="group flex items-start gap-2">
+			<div className="relative flex-shrink-0">
+				<button
+					onClick={onToggleMenu}
+					title={attributionTitle}
+					className={`text-xs font-medium px-2 py-1 rounded-full border ${chipColors[segment.speaker]}`}
+				>
+					{label}
+					{segment.confidence !== undefined && segment.attribution !== "manual" && (
+						<span className="ml-1 opacity-70">
+							{Math.round(segment.confidence * 100)}%
+						</span>
+					)}
+				</button>
+				{menuOpen && (
+					<div className="absolute z-10 mt-1 min-w-40 bg-white border border-gray-200 rounded-md shadow-lg py-1">
+						{menu}
+					</div>
+				)}
+			</div>
+
 			<textarea
-				value={value}
-				onChange={(e) => onChange(e.target.value)}
-				className="flex-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors min-h-[300px]"
-				placeholder={language === "pt" ? "A transcrição aparecerá aqui..." : "Transcription will appear here..."}
+				ref={textRef}
+				value={draft ?? segment.text}
+				onChange={(e) => setDraft(e.target.value)}
+				onBlur={commit}
+				rows={Math.max(1, Math.ceil((draft ?? segment.text).length / 60))}
+				title={segment.pendingTranscription ? t.pendingTranscription : undefined}
+				className={`flex-1 text-sm border border-transparent hover:border-gray-200 focus:border-blue-500 rounded px-2 py-1 resize-none outline-none ${
+					segment.pendingTranscription ? "italic text-amber-700 bg-amber-50" : ""
+				}`}
 			/>
+
+			<div className="flex flex-shrink-0 gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity text-xs">
+				<button
+					// Evita o blur do texto antes de ler a posição do cursor
+					onMouseDown={(e) => e.preventDefault()}
+					onClick={() => {
+						const text = draft ?? segment.text;
+						setDraft(null);
+						onSplit(textRef.current?.selectionStart ?? 0, text);
+					}}
+					title={t.split}
+					className="px-1.5 py-1 rounded hover:bg-gray-100"
+				>
+					✂️
+				</button>
+				<button
+					onClick={onMerge}
+					disabled={!canMerge}
+					title={t.merge}
+					className="px-1.5 py-1 rounded hover:bg-gray-100 disabled:opacity-30"
+				>
+					⤵️
+				</button>
+				<button
+					onClick={onRemove}
+					title={t.remove}
+					className="px-1.5 py-1 rounded hover:bg-gray-100"
+				>
+					🗑️
+				</button>
+			</div>
 		</div>
 	);
 }
+
+function MenuOption({
+	onClick,
+	children,
+}: {
+	onClick: () => void;
+	children: ReactNode;
+}) {
+	return (
+		<button
+			onClick={onClick}
+			className="block w-full text-left text-sm px-3 py-1.5 hover:bg-gray-100"
+		>
+			{children}
+		</button>
+	);
+}
@@ -0,0 +1,102 @@
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { saveSettings } from "../lib/settings";
+import { createVault, holdAutoLock, lockVault } from "../lib/vault";
+import PatientForm from "./PatientForm";
+import VaultGate from "./VaultGate";
+
+const renderGate = () =>
+	render(
+		<VaultGate>
+			<p>Aplicativo</p>
+		</VaultGate>,
+	);
+
+const unlock = async (passphrase: string) => {
+	fireEvent.change(await screen.findByLabelText("Senha do histórico"), { target: { value: passphrase } });
+	fireEvent.click(screen.getByRole("button", { name: "Desbloquear" }));
+};
+
+describe("VaultGate", () => {
+	it("mostra o aplicativo direto quando o histórico não tem senha", async () => {
+		renderGate();
+		expect(await screen.findByText("Aplicativo")).toBeInTheDocument();
+	});
+
+	it("pede a senha e só abre o aplicativo com a senha certa", async () => {
+		await createVault("senha-segura");
+		lockVault();
+		renderGate();
+
+		await unlock("senha-errada");
+		expect(await screen.findByText("Senha incorreta")).toBeInTheDocument();
+		expect(screen.queryByText("Aplicativo")).not.toBeInTheDocument();
+
+		await unlock("senha-segura");
+		expect(await screen.findByText("Aplicativo")).toBeInTheDocument();
+	});
+
+	it("bloqueia depois do tempo sem uso configurado", async () => {
+		saveSettings({ autoLockMinutes: 5 });
+		await createVault("senha-segura");
+		// Só o relógio dos timers é falso; o banco e a espera dos testes seguem reais
+		vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"], shouldAdvanceTime: true });
+		try {
+			renderGate();
+			expect(await screen.findByText("Aplicativo")).toBeInTheDocument();
+
+			act(() => vi.advanceTimersByTime(4 * 60 * 1000));
+			fireEvent.keyDown(window);
+			act(() => vi.advanceTimersByTime(4 * 60 * 1000));
+			expect(screen.getByText("Aplicativo")).toBeInTheDocument();
+
+			act(() => vi.advanceTimersByTime(60 * 1000));
+			expect(await screen.findByText("🔒 Histórico bloqueado")).toBeInTheDocument();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it("não bloqueia enquanto uma gravação está em andamento", async () => {
+		saveSettings({ autoLockMinutes: 5 });
+		await createVault("senha-segura");
+		vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"], shouldAdvanceTime: true });
+		try {
+			renderGate();
+			expect(await screen.findByText("Aplicativo")).toBeInTheDocument();
+
+			const release = holdAutoLock();
+			act(() => vi.advanceTimersByTime(30 * 60 * 1000));
+			expect(screen.getByText("Aplicativo")).toBeInTheDocument();
+
+			release();
+			act(() => vi.advanceTimersByTime(5 * 60 * 1000));
+			expect(await screen.findByText("🔒 Histórico bloqueado")).toBeInTheDocument();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it("não bloqueia com um cadastro de paciente ainda não salvo", async () => {
+		saveSettings({ autoLockMinutes: 5 });
+		await createVault("senha-segura");
+		vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"], shouldAdvanceTime: true });
+		try {
+			render(
+				<VaultGate>
+					<PatientForm language="pt" onSaved={() => {}} onCancel={() => {}} />
+				</VaultGate>,
+			);
+			fireEvent.change(await screen.findByLabelText("Nome"), { target: { value: "Ana Souza" } });
+
+			act(() => vi.advanceTimersByTime(30 * 60 * 1000));
+			expect(screen.getByLabelText("Nome")).toHaveValue("Ana Souza");
+
+			fireEvent.change(screen.getByLabelText("Nome"), { target: { value: "" } });
+			act(() => vi.advanceTimersByTime(5 * 60 * 1000));
+			expect(await screen.findByText("🔒 Histórico bloqueado")).toBeInTheDocument();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
@@ -0,0 +1,107 @@
+import { type FormEvent, type ReactNode, useEffect, useState } from "react";
+import { useSettings } from "../hooks/useSettings";
+import { useVault } from "../hooks/useVault";
+import { destroyVault, isAutoLockHeld, lockVault, unlockVault, VaultError } from "../lib/vault";
+
+type Props = {
+	children: ReactNode;
+};
+
+// Eventos que contam como uso do aplicativo para o bloqueio automático
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "mousemove", "wheel", "touchstart"] as const;
+
+/**
+ * Com senha no histórico, só mostra o aplicativo depois de desbloquear e o
+ * desmonta ao bloquear (nada decifrado fica na tela).
+ */
+export default function VaultGate({ children }: Props) {
+	const status = useVault();
+	const [settings] = useSettings();
+
+	// Bloqueio automático depois de `autoLockMinutes` sem uso; com uma gravação
+	// ou trabalho não salvo, o prazo recomeça (bloquear desmontaria a consulta)
+	useEffect(() => {
+		if (status !== "unlocked") return;
+		let timer = 0;
+		const restart = () => {
+			window.clearTimeout(timer);
+			timer = window.setTimeout(
+				() => (isAutoLockHeld() ? restart() : lockVault()),
+				settings.autoLockMinutes * 60 * 1000,
+			);
+		};
+		restart();
+		for (const event of ACTIVITY_EVENTS) window.addEventListener(event, restart, { passive: true });
+		return () => {
+			window.clearTimeout(timer);
+			for (const event of ACTIVITY_EVENTS) window.removeEventListener(event, restart);
+		};
+	}, [status, settings.autoLockMinutes]);
+
+	if (status === null) return null;
+	if (status === "locked") return <UnlockScreen />;
+	return <>{children}</>;
+}
+
+function UnlockScreen() {
+	const [passphrase, setPassphrase] = useState("");
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const submit = async (event: FormEvent) => {
+		event.preventDefault();
+		setBusy(true);
+		setError(null);
+		try {
+			await unlockVault(passphrase);
+		} catch (unlockError) {
+			console.error("Erro ao desbloquear o histórico:", unlockError);
+			setError(unlockError instanceof VaultError ? unlockError.message : "Não foi possível desbloquear o histórico.");
+			setBusy(false);
+		}
+	};
+
+	const forgot = async () => {
+		if (
+			!window.confirm(
+				"Sem a senha não há como ler o histórico. Apagar todas as consultas e pacientes salvos e começar sem senha?",
+			)
+		)
+			return;
+		await destroyVault().catch((destroyError) => {
+			console.error("Erro ao apagar o histórico:", destroyError);
+			setError("Não foi possível apagar o histórico.");
+		});
+	};
+
+	return (
+		<div className="min-h-screen flex items-center justify-center bg-gradient-to-r from-green-400 to-blue-400 p-4">
+			<form onSubmit={submit} className="bg-white rounded-xl shadow-lg p-6 w-full max-w-sm space-y-4">
+				<div className="text-center space-y-1">
+					<h1 className="text-xl font-bold text-gray-800">🔒 Histórico bloqueado</h1>
+					<p className="text-sm text-gray-500">Digite a senha para abrir as consultas salvas.</p>
+				</div>
+				<input
+					type="password"
+					value={passphrase}
+					onChange={(e) => setPassphrase(e.target.value)}
+					aria-label="Senha do histórico"
+					autoFocus
+					autoComplete="current-password"
+					className="w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+				/>
+				{error && <p className="text-sm text-red-600">{error}</p>}
+				<button
+					type="submit"
+					disabled={busy || !passphrase}
+					className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md font-medium transition-colors"
+				>
+					{busy ? "Desbloqueando..." : "Desbloquear"}
+				</button>
+				<button type="button" onClick={forgot} className="w-full text-xs text-gray-500 hover:text-red-600 hover:underline">
+					Esqueci a senha
+				</button>
+			</form>
+		</div>
+	);
+}
@@ -0,0 +1,165 @@
+import { type FormEvent, useState } from "react";
+import { useSettings } from "../hooks/useSettings";
+import { useVault } from "../hooks/useVault";
+import { AUTO_LOCK_OPTIONS } from "../lib/settings";
+import {
+	changePassphrase,
+	createVault,
+	lockVault,
+	MIN_PASSPHRASE_LENGTH,
+	VaultError,
+} from "../lib/vault";
+
+type Props = {
+	language: "pt" | "en";
+};
+
+const labels = {
+	pt: {
+		title: "🔒 Senha do histórico",
+		intro: "Com senha, as consultas são gravadas cifradas neste navegador. Sem a senha não há como recuperá-las.",
+		current: "Senha atual",
+		passphrase: "Nova senha",
+		confirm: "Repita a nova senha",
+		create: "Proteger com senha",
+		change: "Trocar senha",
+		lock: "Bloquear agora",
+		autoLock: "Bloquear após inatividade de:",
+		working: "Cifrando o histórico...",
+		created: "Histórico protegido com senha.",
+		changed: "Senha trocada.",
+		mismatch: "As senhas não conferem.",
+		failed: "Não foi possível alterar a senha.",
+	},
+	en: {
+		title: "🔒 History passphrase",
+		intro: "With a passphrase, consultations are stored encrypted in this browser. They cannot be recovered without it.",
+		current: "Current passphrase",
+		passphrase: "New passphrase",
+		confirm: "Repeat the new passphrase",
+		create: "Protect with passphrase",
+		change: "Change passphrase",
+		lock: "Lock now",
+		autoLock: "Lock after inactivity of:",
+		working: "Encrypting the history...",
+		created: "History protected with a passphrase.",
+		changed: "Passphrase changed.",
+		mismatch: "The passphrases do not match.",
+		failed: "Could not update the passphrase.",
+	},
+};
+
+const inputClass = "w-full border border-gray-300 rounded-md px-2 py-1 bg-white text-sm";
+
+export default function VaultSettings({ language }: Props) {
+	const status = useVault();
+	const [settings, updateSettings] = useSettings();
+	const [current, setCurrent] = useState("");
+	const [passphrase, setPassphrase] = useState("");
+	const [confirmation, setConfirmation] = useState("");
+	const [busy, setBusy] = useState(false);
+	const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+	const t = labels[language];
+
+	if (status === null) return null;
+	const protectedHistory = status !== "none";
+
+	const submit = async (event: FormEvent) => {
+		event.preventDefault();
+		if (passphrase !== confirmation) {
+			setMessage({ text: t.mismatch, error: true });
+			return;
+		}
+		setBusy(true);
+		setMessage(null);
+		try {
+			if (protectedHistory) await changePassphrase(current, passphrase);
+			else await createVault(passphrase);
+			setMessage({ text: protectedHistory ? t.changed : t.created, error: false });
+			setCurrent("");
+			setPassphrase("");
+			setConfirmation("");
+		} catch (error) {
+			console.error("Erro ao alterar a senha do histórico:", error);
+			setMessage({ text: error instanceof VaultError ? error.message : t.failed, error: true });
+		}
+		setBusy(false);
+	};
+
+	return (
+		<form onSubmit={submit} className="space-y-2 border-t border-gray-200 pt-3">
+			<p className="text-sm font-medium text-gray-700">{t.title}</p>
+			<p className="text-xs text-gray-500">{t.intro}</p>
+
+			{protectedHistory && (
+				<input
+					type="password"
+					value={current}
+					onChange={(e) => setCurrent(e.target.value)}
+					placeholder={t.current}
+					aria-label={t.current}
+					autoComplete="current-password"
+					className={inputClass}
+				/>
+			)}
+			<input
+				type="password"
+				value={passphrase}
+				onChange={(e) => setPassphrase(e.target.value)}
+				placeholder={t.passphrase}
+				aria-label={t.passphrase}
+				minLength={MIN_PASSPHRASE_LENGTH}
+				autoComplete="new-password"
+				className={inputClass}
+			/>
+			<input
+				type="password"
+				value={confirmation}
+				onChange={(e) => setConfirmation(e.target.value)}
+				placeholder={t.confirm}
+				aria-label={t.confirm}
+				autoComplete="new-password"
+				className={inputClass}
+			/>
+			<button
+				type="submit"
+				disabled={busy || !passphrase || (protectedHistory && !current)}
+				className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-sm transition-colors"
+			>
+				{busy ? t.working : protectedHistory ? t.change : t.create}
+			</button>
+			{message && (
+				<p className={`text-xs ${message.error ? "text-red-600" : "text-green-700"}`}>{message.text}</p>
+			)}
+
+			{protectedHistory && (
+				<div className="space-y-1">
+					<label htmlFor="autoLockMinutes" className="block text-xs text-gray-600">
+						{t.autoLock}
+					</label>
+					<div className="flex gap-2">
+						<select
+							id="autoLockMinutes"
+							value={settings.autoLockMinutes}
+							onChange={(e) => updateSettings({ autoLockMinutes: Number(e.target.value) })}
+							className={inputClass}
+						>
+							{AUTO_LOCK_OPTIONS.map((minutes) => (
+								<option key={minutes} value={minutes}>
+									{minutes} min
+								</option>
+							))}
+						</select>
+						<button
+							type="button"
+							onClick={lockVault}
+							className="shrink-0 border border-gray-300 hover:bg-gray-100 px-3 py-1 rounded-md text-sm transition-colors"
+						>
+							{t.lock}
+						</button>
+					</div>
+				</div>
+			)}
+		</form>
+	);
+}
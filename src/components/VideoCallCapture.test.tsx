@@ -0,0 +1,97 @@
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { installFakeMedia, tabStream } from "../test/fakeMedia";
+import { FakeSpeechRecognition } from "../test/fakeSpeechRecognition";
+import VideoCallCapture from "./VideoCallCapture";
+
+function renderCapture() {
+	render(<VideoCallCapture language="pt" consultationId="c1" patientName="" />);
+}
+
+const startButton = () => screen.getByRole("button", { name: "Capturar áudio da aba" });
+
+describe("VideoCallCapture", () => {
+	it("passa de ocioso para capturando e para concluído", async () => {
+		renderCapture();
+		fireEvent.click(startButton());
+
+		expect(await screen.findByText("🔴 Capturando áudio da aba...")).toBeInTheDocument();
+		expect(screen.getByText(/Duração:/)).toHaveTextContent("0:00");
+
+		fireEvent.click(screen.getByRole("button", { name: /Parar captura/ }));
+		expect(screen.getByText("✅ Transcrição concluída.")).toBeInTheDocument();
+		expect(screen.queryByRole("button", { name: /Parar captura/ })).not.toBeInTheDocument();
+	});
+
+	it("volta ao início com instruções quando a aba é compartilhada sem áudio", async () => {
+		const media = installFakeMedia();
+		media.getDisplayMedia.mockResolvedValue(tabStream({ audio: false }) as unknown as MediaStream);
+		renderCapture();
+		fireEvent.click(startButton());
+
+		expect(await screen.findByText(/Permissão negada/)).toBeInTheDocument();
+		expect(startButton()).toBeInTheDocument();
+	});
+
+	it("encerra o compartilhamento quando o áudio da aba vem desativado", async () => {
+		const media = installFakeMedia();
+		const stream = tabStream();
+		stream.getAudioTracks()[0].enabled = false;
+		media.getDisplayMedia.mockResolvedValue(stream as unknown as MediaStream);
+		renderCapture();
+		fireEvent.click(startButton());
+
+		expect(await screen.findByText(/Permissão negada/)).toBeInTheDocument();
+		expect(stream.active).toBe(false);
+		expect(startButton()).toBeInTheDocument();
+	});
+
+	it("explica o que fazer quando o compartilhamento é recusado", async () => {
+		const media = installFakeMedia();
+		media.getDisplayMedia.mockRejectedValue(new DOMException("denied", "NotAllowedError"));
+		renderCapture();
+		fireEvent.click(startButton());
+
+		expect(await screen.findByText(/MARQUE a caixa 'Compartilhar áudio da aba'/)).toBeInTheDocument();
+		expect(startButton()).toBeInTheDocument();
+	});
+
+	it("segue só com a aba quando o microfone não está disponível", async () => {
+		const media = installFakeMedia();
+		media.getUserMedia.mockRejectedValue(new DOMException("no mic", "NotFoundError"));
+		renderCapture();
+		fireEvent.click(startButton());
+
+		expect(await screen.findByText(/Microfone indisponível/)).toBeInTheDocument();
+		expect(screen.getByText("🔴 Capturando áudio da aba...")).toBeInTheDocument();
+	});
+
+	it("mostra reconexão quando o reconhecimento do microfone cai", async () => {
+		renderCapture();
+		fireEvent.click(startButton());
+		await screen.findByText("🔴 Capturando áudio da aba...");
+
+		const recognition = FakeSpeechRecognition.latest();
+		await waitFor(() => expect(recognition.started).toBe(true));
+		act(() => recognition.fail("network"));
+
+		expect(await screen.findByText("⏸️ Transcrição pausada - reconectando...")).toBeInTheDocument();
+	});
+
+	it("silencia e reativa uma fonte sem encerrar a captura", async () => {
+		renderCapture();
+		fireEvent.click(startButton());
+		await screen.findByText("🔴 Capturando áudio da aba...");
+		const recognition = FakeSpeechRecognition.latest();
+		await waitFor(() => expect(recognition.started).toBe(true));
+
+		const [micMute] = screen.getAllByRole("button", { name: /Silenciar/ });
+		fireEvent.click(micMute);
+		expect(recognition.started).toBe(false);
+		expect(screen.getByRole("button", { name: /Reativar/ })).toBeInTheDocument();
+
+		fireEvent.click(screen.getByRole("button", { name: /Reativar/ }));
+		expect(recognition.started).toBe(true);
+		expect(screen.getByText("🔴 Capturando áudio da aba...")).toBeInTheDocument();
+	});
+});
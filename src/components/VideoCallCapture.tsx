@@ -1,8 +1,14 @@
-import { useEffect, useRef, useState, useImperativeHandle, forwardRef } from "react";
+import { type Dispatch, type SetStateAction, useEffect, useRef, useState, useImperativeHandle, forwardRef } from "react";
+import { useAudioLevel } from "../hooks/useAudioLevel";
+import { useSettings } from "../hooks/useSettings";
+import { useSpeechEngine } from "../hooks/useSpeechEngine";
+import { useAutoLockHold } from "../hooks/useVault";
+import type { TranscriptSegment } from "../lib/types";
 
 type Props = {
   language: "pt" | "en";
-  onTranscriptChange?: (transcript: string) => void;
+  consultationId: string;
+  onSegmentsChange?: Dispatch<SetStateAction<TranscriptSegment[]>>;
   patientName: string;
 };
 
@@ -12,43 +18,54 @@ export type VideoCallCaptureHandle = {
 
 type Status = "idle" | "selecting" | "recording" | "done";
 
-// Função auxiliar para obter prefixo do falante
-const getSpeakerPrefix = (
-	speaker: "doctor" | "patient",
-	patientName: string,
-	language: "pt" | "en",
-): string => {
-	switch (speaker) {
-		case "doctor":
-			return language === "pt" ? "Médico: " : "Doctor: ";
-		case "patient": {
-			const name =
-				patientName.trim() || (language === "pt" ? "Paciente" : "Patient");
-			return `${name}: `;
-		}
-		default:
-			return "Sistema: ";
-	}
-};
+type CaptureSource = "mic" | "tab";
 
 const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
-  ({ language, onTranscriptChange, patientName }, ref) => {
+  ({ language, consultationId, onSegmentsChange, patientName }, ref) => {
   const [status, setStatus] = useState<Status>("idle");
   const [error, setError] = useState<string | null>(null);
   const [durationSec, setDurationSec] = useState(0);
-  const [audioDetected, setAudioDetected] = useState<boolean>(false);
-
-  // Sistema de alternância automática para videochamadas
-  const speechCountRef = useRef(0);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  
-  // Web Speech API refs para transcrição real-time
-  const recognitionRef = useRef<any>(null);
-  const finalTranscriptRef = useRef<string>("");
-  const lastTranscriptRef = useRef<string>("");
+  const [micUnavailable, setMicUnavailable] = useState(false);
+  const [muted, setMuted] = useState<Record<CaptureSource, boolean>>({ mic: false, tab: false });
+
+  // Streams em estado para alimentar os medidores de nível
+  const [tabStream, setTabStream] = useState<MediaStream | null>(null);
+  const [micStream, setMicStream] = useState<MediaStream | null>(null);
+  const tabLevel = useAudioLevel(tabStream);
+  const micLevel = useAudioLevel(micStream);
+  // Chamada em andamento não conta como inatividade para o bloqueio automático
+  useAutoLockHold(status === "recording");
+
+  // Duas fontes separadas: a origem define o falante (microfone = médico, aba = paciente).
+  // Áudio da aba (parte remota) vai para o servidor; o microfone local é o médico
+  const [settings] = useSettings();
+  // Simulação: as duas fontes reproduzem o roteiro (falas do paciente na aba, do médico no microfone)
+  const simulated = settings.speechEngine === "script";
+  const tabSpeech = useSpeechEngine({
+    language,
+    engine: simulated ? "script" : "backend",
+    chunkSeconds: settings.serverChunkSeconds,
+    source: "tab",
+    interimId: "videocall-interim",
+    patientName,
+    consultationId,
+    speaker: "patient",
+    onSegmentsChange,
+  });
+  const micSpeech = useSpeechEngine({
+    language,
+    engine: settings.speechEngine,
+    chunkSeconds: settings.serverChunkSeconds,
+    source: "mic",
+    interimId: "videocall-mic-interim",
+    patientName,
+    consultationId,
+    speaker: "doctor",
+    onSegmentsChange,
+  });
 
   const streamRef = useRef<MediaStream | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
   const timerRef = useRef<number | null>(null);
 
   const labels = {
@@ -60,8 +77,17 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
       errorPermission: "❌ Permissão negada. INSTRUÇÕES:\n\n1️⃣ Clique em 'Capturar áudio da aba'\n2️⃣ Selecione a ABA do Google Meet (não 'Tela inteira')\n3️⃣ MARQUE a caixa 'Compartilhar áudio da aba'\n4️⃣ Clique em 'Compartilhar'\n\n💡 Se não funcionar, recarregue a página e tente novamente.",
       errorGeneral: "❌ Erro na captura. Verifique se o Meet está tocando áudio e tente novamente.",
       statusRecording: "🔴 Capturando áudio da aba...",
+      statusReconnecting: "⏸️ Transcrição pausada - reconectando...",
+      statusFailed: "❌ Transcrição interrompida. Verifique a permissão do microfone.",
+      statusUploading: "⏳ Trechos da aba em processamento:",
+      micUnavailable: "⚠️ Microfone indisponível - apenas o áudio da chamada será transcrito.",
+      simulated: "🎬 Simulação: a captura reproduz o roteiro das configurações, sem aba nem microfone.",
+      sourceMic: "🎙️ Microfone (médico)",
+      sourceTab: "🖥️ Chamada (paciente)",
+      mute: "Silenciar",
+      unmute: "Reativar",
       statusDone: "✅ Transcrição concluída.",
-      troubleshooting: "💡 IMPORTANTE: Selecione a ABA do Meet e marque 'Compartilhar áudio da aba'. Se não funcionar, recarregue a página.",
+      troubleshooting: "💡 IMPORTANTE: Selecione a ABA do Meet e marque 'Compartilhar áudio da aba'. Use fones de ouvido para o microfone não captar o paciente. Se não funcionar, recarregue a página.",
       speechRecognitionError: "❌ Erro na transcrição. Recarregue a página e tente novamente.",
       speechRecognitionUnsupported: "❌ Transcrição não suportada neste navegador. Use Chrome ou Edge."
     },
@@ -74,8 +100,17 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
       errorGeneral: "❌ Capture error. Check if Meet is playing audio and try again.",
       
       statusRecording: "🔴 Capturing tab audio...",
+      statusReconnecting: "⏸️ Transcription paused - reconnecting...",
+      statusFailed: "❌ Transcription stopped. Check the microphone permission.",
+      statusUploading: "⏳ Tab chunks processing:",
+      micUnavailable: "⚠️ Microphone unavailable - only the call audio will be transcribed.",
+      simulated: "🎬 Simulation: capture plays the script from settings, without a tab or microphone.",
+      sourceMic: "🎙️ Microphone (doctor)",
+      sourceTab: "🖥️ Call (patient)",
+      mute: "Mute",
+      unmute: "Unmute",
       statusDone: "✅ Transcription completed.",
-      troubleshooting: "💡 IMPORTANT: Select Meet TAB and check 'Share tab audio'. If it fails, reload the page.",
+      troubleshooting: "💡 IMPORTANT: Select Meet TAB and check 'Share tab audio'. Use headphones so the microphone doesn't pick up the patient. If it fails, reload the page.",
       speechRecognitionError: "❌ Transcription error. Reload the page and try again.",
       speechRecognitionUnsupported: "❌ Transcription not supported in this browser. Use Chrome or Edge."
     }
@@ -83,141 +118,29 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
 
   const t = labels[language];
 
-  // Setup de áudio para detectar se há som chegando
-  const setupAudioDetection = () => {
-    if (!streamRef.current) return;
-    
-    try {
-      const audioContext = new AudioContext();
-      const analyser = audioContext.createAnalyser();
-      const source = audioContext.createMediaStreamSource(streamRef.current);
-      source.connect(analyser);
-      
-      analyser.fftSize = 256;
-      const dataArray = new Uint8Array(analyser.frequencyBinCount);
-      
-      audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
-      
-      const checkAudio = () => {
-        if (!analyserRef.current) return;
-        
-        analyserRef.current.getByteFrequencyData(dataArray);
-        const sum = dataArray.reduce((acc, val) => acc + val, 0);
-        const average = sum / dataArray.length;
-        
-        // Se detectar áudio acima de threshold
-        if (average > 10) {
-          setAudioDetected(true);
-        }
-        
-        if (status === "recording") {
-          requestAnimationFrame(checkAudio);
-        }
-      };
-      
-      checkAudio();
-    } catch (err) {
-      console.warn("Erro ao configurar detecção de áudio:", err);
-    }
-  };
-
   const cleanup = () => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
+    if (micStreamRef.current) {
+      micStreamRef.current.getTracks().forEach(track => track.stop());
+      micStreamRef.current = null;
+    }
 
     if (timerRef.current) {
       window.clearInterval(timerRef.current);
       timerRef.current = null;
     }
 
-    // Limpa contexto de áudio
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-      analyserRef.current = null;
-    }
-    
-    // Limpa speech recognition
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
-      recognitionRef.current = null;
-    }
-  };
-
-  // Setup Web Speech API para transcrição real-time
-  useEffect(() => {
-    if (!("webkitSpeechRecognition" in window)) {
-      console.error("Speech recognition not supported");
-      return;
-    }
-
-    const SpeechRecognition = (window as any).webkitSpeechRecognition;
-    const rec = new SpeechRecognition();
-    rec.continuous = true;
-    rec.interimResults = true;
-    rec.lang = language === "pt" ? "pt-BR" : "en-US";
+    setTabStream(null);
+    setMicStream(null);
+    setMuted({ mic: false, tab: false });
 
-    rec.onresult = async (event: any) => {
-      let interimTranscript = "";
-      let finalTranscript = "";
-
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcriptText = event.results[i][0].transcript;
-        if (event.results[i].isFinal) {
-          finalTranscript += transcriptText + " ";
-        } else {
-          interimTranscript += transcriptText;
-        }
-      }
-
-      if (finalTranscript) {
-        // Evita processar a mesma fala duas vezes
-        const trimmedText = finalTranscript.trim();
-        if (trimmedText === lastTranscriptRef.current) {
-          return;
-        }
-        lastTranscriptRef.current = trimmedText;
-        
-        // Determina falante baseado na alternância automática para videochamadas
-        const speakerType: "doctor" | "patient" = speechCountRef.current % 2 === 0 ? "doctor" : "patient";
-        
-        // Incrementa contador
-        speechCountRef.current += 1;
-        
-        // Adiciona identificação do falante ao texto final
-        const speakerPrefix = getSpeakerPrefix(speakerType, patientName, language);
-        const formattedText = `${speakerPrefix}${trimmedText}\n`;
-        finalTranscriptRef.current += formattedText;
-
-        // Atualiza apenas o componente pai, sem estado local
-        const fullTranscript = finalTranscriptRef.current + (interimTranscript ? interimTranscript : "");
-        if (onTranscriptChange) {
-          onTranscriptChange(fullTranscript);
-        }
-      } else if (interimTranscript) {
-        // Apenas notifica o componente pai com texto interim
-        const fullTranscript = finalTranscriptRef.current + interimTranscript;
-        if (onTranscriptChange) {
-          onTranscriptChange(fullTranscript);
-        }
-      }
-    };
-
-    rec.onerror = (event: any) => {
-      console.error("Speech recognition error:", event.error);
-    };
-
-    recognitionRef.current = rec;
-
-    return () => {
-      if (rec) {
-        rec.stop();
-      }
-    };
-  }, [language, onTranscriptChange, patientName]);
+    // Para a transcrição (trechos já gravados ainda são enviados)
+    tabSpeech.stop();
+    micSpeech.stop();
+  };
 
   // Função de reset para nova consulta
   const reset = () => {
@@ -225,10 +148,9 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
     setStatus("idle");
     setError(null);
     setDurationSec(0);
-    setAudioDetected(false);
-    speechCountRef.current = 0;
-    finalTranscriptRef.current = "";
-    lastTranscriptRef.current = "";
+    setMicUnavailable(false);
+    tabSpeech.reset();
+    micSpeech.reset();
   };
 
   // Expõe a função reset para o componente pai
@@ -242,9 +164,28 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
     };
   }, []);
 
+  // contador de tempo
+  const startTimer = () => {
+    let sec = 0;
+    timerRef.current = window.setInterval(() => {
+      sec += 1;
+      setDurationSec(sec);
+    }, 1000);
+  };
+
   const startCapture = async () => {
     setError(null);
     setDurationSec(0);
+    setMicUnavailable(false);
+
+    if (simulated) {
+      tabSpeech.start(null);
+      micSpeech.start(null);
+      setStatus("recording");
+      startTimer();
+      return;
+    }
+
     setStatus("selecting");
 
     try {
@@ -258,48 +199,19 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
         }
       });
 
-      
-      // checar se tem track de áudio
-      const audioTracks = stream.getAudioTracks();
-      const hasAudio = audioTracks.length > 0;
-      
+      // Sem áudio da aba (ou com as faixas desativadas) não há o que transcrever
+      const hasAudio = stream.getAudioTracks().some((track: MediaStreamTrack) => track.enabled);
       if (!hasAudio) {
-        
         stream.getTracks().forEach((t: MediaStreamTrack) => t.stop());
         setStatus("idle");
         setError(t.errorPermission);
         return;
       }
 
-      
-      audioTracks.forEach((track: MediaStreamTrack, index: number) => {
-        console.log(`Track ${index}:`, {
-          id: track.id,
-          kind: track.kind,
-          label: track.label,
-          enabled: track.enabled,
-          muted: track.muted,
-          readyState: track.readyState,
-          settings: track.getSettings()
-        });
-      });
-
-      
-      const enabledAudioTracks = audioTracks.filter((track: MediaStreamTrack) => track.enabled);
-      if (enabledAudioTracks.length === 0) {
-        
-      }
-
-      
       streamRef.current = stream;
 
-      // Reset contadores e transcrições
-      finalTranscriptRef.current = "";
-      lastTranscriptRef.current = "";
-      speechCountRef.current = 0;
-      
-      // Verificar se Speech Recognition está disponível
-      if (!recognitionRef.current) {
+      // Verificar se há motor de transcrição disponível
+      if (!tabSpeech.supported) {
         console.error('❌ Speech Recognition não foi inicializado');
         stream.getTracks().forEach((t: MediaStreamTrack) => t.stop());
         setStatus("idle");
@@ -307,24 +219,33 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
         return;
       }
       
+      // Microfone do médico como segunda fonte (medidor, mudo e motor do servidor)
+      let mic: MediaStream | null = null;
+      try {
+        mic = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+        });
+        micStreamRef.current = mic;
+      } catch (micError) {
+        console.warn("Microfone indisponível:", micError);
+      }
+      const micAvailable = micSpeech.supported && !!mic;
+      setMicUnavailable(!micAvailable);
+
       try {
-        // Verificar se já está rodando e parar antes de reiniciar
-        try {
-          recognitionRef.current.stop();
-          // Pequena pausa para garantir que parou
-          await new Promise(resolve => setTimeout(resolve, 100));
-        } catch (stopError) {
-          // Ignorar erro se não estava rodando
+        // Áudio da aba em trechos para o servidor; microfone em paralelo
+        const tabAudio = new MediaStream(stream.getAudioTracks());
+        tabSpeech.start(tabAudio);
+        setTabStream(tabAudio);
+        if (micAvailable) {
+          micSpeech.start(mic);
+          setMicStream(mic);
         }
-        
-        // Iniciar transcrição
-        recognitionRef.current.start();
         setStatus("recording");
-        setupAudioDetection();
-        
+
       } catch (recognitionError: any) {
         console.error('❌ Erro ao iniciar Speech Recognition:', recognitionError);
-        stream.getTracks().forEach((t: MediaStreamTrack) => t.stop());
+        cleanup();
         setStatus("idle");
         
         if (recognitionError.error === 'already-started') {
@@ -337,12 +258,7 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
         return;
       }
 
-      // contador de tempo
-      let sec = 0;
-      timerRef.current = window.setInterval(() => {
-        sec += 1;
-        setDurationSec(sec);
-      }, 1000);
+      startTimer();
     } catch (err: any) {
       console.error("❌ Erro ao capturar aba:", err);
       setStatus("idle");
@@ -360,19 +276,22 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
 
   const stopCapture = () => {
     
-    // Para o speech recognition
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
-      
-    }
-    
     cleanup();
     setStatus("done");
-    
-    // Notifica com transcript final
-    if (onTranscriptChange && finalTranscriptRef.current) {
-      onTranscriptChange(finalTranscriptRef.current);
-    }
+  };
+
+  // Silencia uma das fontes no meio da chamada sem encerrar a captura
+  const toggleMute = (source: CaptureSource) => {
+    const stream = source === "mic" ? micStream : tabStream;
+    const speech = source === "mic" ? micSpeech : tabSpeech;
+    const nextMuted = !muted[source];
+
+    stream?.getAudioTracks().forEach(track => {
+      track.enabled = !nextMuted;
+    });
+    if (nextMuted) speech.pause();
+    else speech.resume();
+    setMuted(prev => ({ ...prev, [source]: nextMuted }));
   };
 
   const formatTime = (seconds: number) => {
@@ -386,6 +305,10 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
       case "selecting":
         return "Selecionando aba...";
       case "recording":
+        if (tabSpeech.status === "reconnecting" || micSpeech.status === "reconnecting") {
+          return t.statusReconnecting;
+        }
+        if (tabSpeech.status === "failed" || micSpeech.status === "failed") return t.statusFailed;
         return t.statusRecording;
       case "done":
         return t.statusDone;
@@ -424,20 +347,54 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
           </div>
           
           {status === "recording" && (
-            <>
-              <div className="text-sm text-gray-600 whitespace-nowrap">
-                {t.duration} {formatTime(durationSec)}
-              </div>
-              {audioDetected && (
-                <div className="text-green-600 text-sm whitespace-nowrap">
-                  🎵 {language === "pt" ? "Áudio detectado" : "Audio detected"}
-                </div>
-              )}
-            </>
+            <div className="text-sm text-gray-600 whitespace-nowrap">
+              {t.duration} {formatTime(durationSec)}
+            </div>
           )}
         </div>
 
+        {/* Uma linha por fonte: nível de entrada e mudo */}
+        {status === "recording" && (
+          <div className="space-y-2">
+            <SourceMeter
+              label={t.sourceMic}
+              level={micLevel}
+              muted={muted.mic}
+              disabled={!micStream}
+              muteLabel={muted.mic ? t.unmute : t.mute}
+              onToggleMute={() => toggleMute("mic")}
+            />
+            <SourceMeter
+              label={t.sourceTab}
+              level={tabLevel}
+              muted={muted.tab}
+              disabled={!tabStream}
+              muteLabel={muted.tab ? t.unmute : t.mute}
+              onToggleMute={() => toggleMute("tab")}
+            />
+          </div>
+        )}
+
         
+        {tabSpeech.progress.pending > 0 && (
+          <div className="text-xs text-gray-600">
+            {t.statusUploading} {tabSpeech.progress.pending}
+            {tabSpeech.progress.retrying > 0 && ` (${tabSpeech.progress.retrying} ⟳)`}
+          </div>
+        )}
+
+        {simulated && (
+          <div className="bg-purple-50 border border-purple-200 rounded-md p-3 text-purple-800 text-sm">
+            {t.simulated}
+          </div>
+        )}
+
+        {micUnavailable && status === "recording" && (
+          <div className="bg-amber-50 border border-amber-200 rounded-md p-3 text-amber-800 text-sm">
+            {t.micUnavailable}
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-md p-4">
             <pre className="text-red-800 text-sm whitespace-pre-line font-sans">{error}</pre>
@@ -457,4 +414,38 @@ const VideoCallCapture = forwardRef<VideoCallCaptureHandle, Props>(
 
 VideoCallCapture.displayName = "VideoCallCapture";
 
+type SourceMeterProps = {
+  label: string;
+  level: number;
+  muted: boolean;
+  disabled: boolean;
+  muteLabel: string;
+  onToggleMute: () => void;
+};
+
+function SourceMeter({ label, level, muted, disabled, muteLabel, onToggleMute }: SourceMeterProps) {
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="w-44 flex-shrink-0 text-gray-700">{label}</span>
+      <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-[width] duration-75 ${muted ? "bg-gray-400" : "bg-green-500"}`}
+          style={{ width: `${Math.round((muted ? 0 : level) * 100)}%` }}
+        />
+      </div>
+      <button
+        onClick={onToggleMute}
+        disabled={disabled}
+        className={`px-2 py-1 rounded border text-xs transition-colors disabled:opacity-40 ${
+          muted
+            ? "bg-amber-100 border-amber-300 text-amber-800"
+            : "border-gray-200 hover:bg-gray-100"
+        }`}
+      >
+        {muted ? "🔇" : "🔊"} {muteLabel}
+      </button>
+    </div>
+  );
+}
+
 export default VideoCallCapture;
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { useEffect, useRef, useState } from "react";
+import { useVoiceAI } from "../hooks/useVoiceAI";
+import type { VoiceProfile } from "../lib/types";
+import { deleteDoctorProfile, loadDoctorProfile } from "../lib/voiceProfiles";
+
+type Props = {
+	language: "pt" | "en";
+	clinician: string;
+	onClinicianChange: (clinician: string) => void;
+};
+
+type Status = "idle" | "recording" | "processing";
+
+// Leitura mínima e máxima para o cadastro (segundos)
+const MIN_ENROLL_SEC = 5;
+const MAX_ENROLL_SEC = 20;
+
+const labels = {
+	pt: {
+		title: "Perfil de Voz do Médico",
+		clinician: "Médico:",
+		clinicianPlaceholder: "Digite seu nome",
+		enrolled: "✅ Voz cadastrada em",
+		notEnrolled: "Nenhuma voz cadastrada. A primeira fala da consulta será considerada do médico.",
+		enroll: "Cadastrar voz",
+		reenroll: "Cadastrar novamente",
+		delete: "Excluir perfil",
+		finish: "Concluir leitura",
+		cancel: "Cancelar",
+		readAloud: "Leia o texto abaixo em voz alta, no seu tom normal de consulta:",
+		passage:
+			"Bom dia. Vou fazer algumas perguntas sobre os seus sintomas. Há quanto tempo o senhor sente essa dor? Ela piora ao se movimentar ou durante a noite? Tem febre, tosse ou falta de ar? Está tomando algum medicamento atualmente?",
+		processing: "Processando perfil de voz...",
+		errorMic: "❌ Não foi possível acessar o microfone.",
+		errorEnroll: "❌ Não foi possível cadastrar a voz. Tente novamente.",
+		confirmDelete: "Excluir o perfil de voz cadastrado?",
+	},
+	en: {
+		title: "Doctor Voice Profile",
+		clinician: "Doctor:",
+		clinicianPlaceholder: "Enter your name",
+		enrolled: "✅ Voice enrolled on",
+		notEnrolled: "No voice enrolled. The first utterance of the consultation will be assumed to be the doctor.",
+		enroll: "Enroll voice",
+		reenroll: "Re-enroll",
+		delete: "Delete profile",
+		finish: "Finish reading",
+		cancel: "Cancel",
+		readAloud: "Read the text below out loud, in your usual consultation tone:",
+		passage:
+			"Good morning. I am going to ask you a few questions about your symptoms. How long have you had this pain? Does it get worse when you move or at night? Do you have a fever, cough or shortness of breath? Are you currently taking any medication?",
+		processing: "Processing voice profile...",
+		errorMic: "❌ Could not access the microphone.",
+		errorEnroll: "❌ Could not enroll the voice. Please try again.",
+		confirmDelete: "Delete the enrolled voice profile?",
+	},
+};
+
+export default function VoiceEnrollment({
+	language,
+	clinician,
+	onClinicianChange,
+}: Props) {
+	const [status, setStatus] = useState<Status>("idle");
+	const [error, setError] = useState<string | null>(null);
+	const [elapsedSec, setElapsedSec] = useState(0);
+	const [profile, setProfile] = useState<VoiceProfile | null>(() =>
+		loadDoctorProfile(clinician),
+	);
+
+	const { enrollDoctor } = useVoiceAI(clinician);
+
+	const streamRef = useRef<MediaStream | null>(null);
+	const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+	const timerRef = useRef<number | null>(null);
+	const cancelledRef = useRef(false);
+
+	const t = labels[language];
+
+	useEffect(() => {
+		const refresh = () => setProfile(loadDoctorProfile(clinician));
+		refresh();
+		window.addEventListener("voice-profiles-updated", refresh);
+		return () => window.removeEventListener("voice-profiles-updated", refresh);
+	}, [clinician]);
+
+	const cleanup = () => {
+		if (timerRef.current) {
+			window.clearInterval(timerRef.current);
+			timerRef.current = null;
+		}
+		if (streamRef.current) {
+			streamRef.current.getTracks().forEach((track) => track.stop());
+			streamRef.current = null;
+		}
+		mediaRecorderRef.current = null;
+	};
+
+	useEffect(() => {
+		return () => {
+			cancelledRef.current = true;
+			if (mediaRecorderRef.current?.state === "recording") {
+				mediaRecorderRef.current.stop();
+			}
+			cleanup();
+		};
+	}, []);
+
+	const startEnrollment = async () => {
+		setError(null);
+		cancelledRef.current = false;
+
+		try {
+			const stream = await navigator.mediaDevices.getUserMedia({
+				audio: {
+					echoCancellation: true,
+					noiseSuppression: true,
+					autoGainControl: true,
+				},
+			});
+			streamRef.current = stream;
+
+			const chunks: Blob[] = [];
+			const mediaRecorder = new MediaRecorder(stream, {
+				mimeType: "audio/webm;codecs=opus",
+			});
+			mediaRecorder.ondataavailable = (event) => {
+				if (event.data.size > 0) chunks.push(event.data);
+			};
+			mediaRecorder.onstop = () => finishEnrollment(chunks);
+			mediaRecorder.start();
+			mediaRecorderRef.current = mediaRecorder;
+
+			let sec = 0;
+			setElapsedSec(0);
+			timerRef.current = window.setInterval(() => {
+				sec += 1;
+				setElapsedSec(sec);
+				// Encerra automaticamente ao atingir o tempo máximo
+				if (sec >= MAX_ENROLL_SEC) stopRecording();
+			}, 1000);
+
+			setStatus("recording");
+		} catch (err) {
+			console.error("Erro ao acessar microfone:", err);
+			cleanup();
+			setError(t.errorMic);
+		}
+	};
+
+	const stopRecording = () => {
+		if (mediaRecorderRef.current?.state === "recording") {
+			mediaRecorderRef.current.stop();
+		}
+	};
+
+	const cancelEnrollment = () => {
+		cancelledRef.current = true;
+		stopRecording();
+		cleanup();
+		setStatus("idle");
+	};
+
+	const finishEnrollment = async (chunks: Blob[]) => {
+		cleanup();
+		if (cancelledRef.current) return;
+
+		setStatus("processing");
+		try {
+			const audioBlob = new Blob(chunks, { type: "audio/webm" });
+			await enrollDoctor(audioBlob);
+		} catch (err) {
+			console.error("Erro ao cadastrar voz:", err);
+			setError(t.errorEnroll);
+		} finally {
+			setStatus("idle");
+		}
+	};
+
+	const deleteProfile = () => {
+		if (!window.confirm(t.confirmDelete)) return;
+		deleteDoctorProfile(clinician);
+	};
+
+	return (
+		<div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm space-y-4 mb-4">
+			<h3 className="text-lg font-semibold text-gray-800">{t.title}</h3>
+
+			<div className="space-y-2">
+				<label
+					htmlFor="clinicianName"
+					className="block text-sm font-medium text-gray-700"
+				>
+					{t.clinician}
+				</label>
+				<input
+					id="clinicianName"
+					type="text"
+					value={clinician}
+					onChange={(e) => onClinicianChange(e.target.value)}
+					placeholder={t.clinicianPlaceholder}
+					className="w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors disabled:bg-gray-100 disabled:cursor-not-allowed"
+					disabled={status !== "idle"}
+				/>
+			</div>
+
+			{status === "idle" && (
+				<>
+					<p className="text-sm text-gray-600">
+						{profile?.enrolledAt
+							? `${t.enrolled} ${new Date(profile.enrolledAt).toLocaleDateString()}`
+							: t.notEnrolled}
+					</p>
+					<div className="flex flex-wrap gap-2">
+						<button
+							onClick={startEnrollment}
+							disabled={!clinician.trim()}
+							className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md font-medium transition-colors"
+						>
+							{profile ? t.reenroll : t.enroll}
+						</button>
+						{profile && (
+							<button
+								onClick={deleteProfile}
+								className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-md font-medium transition-colors"
+							>
+								{t.delete}
+							</button>
+						)}
+					</div>
+				</>
+			)}
+
+			{status === "recording" && (
+				<div className="space-y-3">
+					<p className="text-sm font-medium text-gray-700">{t.readAloud}</p>
+					<blockquote className="bg-blue-50 border border-blue-200 rounded-md p-4 text-blue-800 text-sm leading-relaxed">
+						{t.passage}
+					</blockquote>
+					<div className="flex items-center gap-3">
+						<span className="text-red-500">🔴</span>
+						<span className="text-sm text-gray-600">
+							{elapsedSec}s / {MAX_ENROLL_SEC}s
+						</span>
+						<button
+							onClick={stopRecording}
+							disabled={elapsedSec < MIN_ENROLL_SEC}
+							className="bg-green-500 hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md font-medium transition-colors"
+						>
+							{t.finish}
+						</button>
+						<button
+							onClick={cancelEnrollment}
+							className="text-gray-600 hover:text-gray-800 px-3 py-2 text-sm"
+						>
+							{t.cancel}
+						</button>
+					</div>
+				</div>
+			)}
+
+			{status === "processing" && (
+				<p className="text-sm text-blue-700">{t.processing}</p>
+			)}
+
+			{error && (
+				<div className="bg-red-50 border border-red-200 rounded-md p-3 text-red-800 text-sm">
+					{error}
+				</div>
+			)}
+		</div>
+	);
+}
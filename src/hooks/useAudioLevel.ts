@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+
+// Atualizações do medidor por segundo (evita re-render a cada quadro)
+const LEVEL_UPDATES_PER_SECOND = 15;
+
+/**
+ * Nível de volume (0-1) de um stream, para medidores de entrada.
+ * Retorna 0 enquanto não houver stream.
+ */
+export function useAudioLevel(stream: MediaStream | null) {
+	const [level, setLevel] = useState(0);
+
+	useEffect(() => {
+		if (!stream || stream.getAudioTracks().length === 0) {
+			setLevel(0);
+			return;
+		}
+
+		let audioContext: AudioContext;
+		try {
+			audioContext = new AudioContext();
+		} catch (error) {
+			console.warn("Erro ao configurar medidor de áudio:", error);
+			return;
+		}
+
+		const analyser = audioContext.createAnalyser();
+		analyser.fftSize = 256;
+		audioContext.createMediaStreamSource(stream).connect(analyser);
+		const samples = new Uint8Array(analyser.fftSize);
+
+		let frame = 0;
+		let lastUpdate = 0;
+		const measure = (now: number) => {
+			frame = requestAnimationFrame(measure);
+			if (now - lastUpdate < 1000 / LEVEL_UPDATES_PER_SECOND) return;
+			lastUpdate = now;
+
+			// RMS da forma de onda (128 = silêncio)
+			analyser.getByteTimeDomainData(samples);
+			let sum = 0;
+			for (const sample of samples) {
+				const value = (sample - 128) / 128;
+				sum += value * value;
+			}
+			setLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+		};
+		frame = requestAnimationFrame(measure);
+
+		return () => {
+			cancelAnimationFrame(frame);
+			audioContext.close();
+			setLevel(0);
+		};
+	}, [stream]);
+
+	return level;
+}
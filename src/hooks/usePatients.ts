@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { loadPatients } from "../lib/patients";
+import type { Patient } from "../lib/types";
+
+// Pacientes cadastrados, em ordem alfabética; null enquanto são lidos do banco
+export function usePatients() {
+	const [patients, setPatients] = useState<Patient[] | null>(null);
+
+	useEffect(() => {
+		let active = true;
+		const refresh = () =>
+			loadPatients()
+				.then((next) => active && setPatients(next))
+				.catch((error) => {
+					console.error("Erro ao carregar os pacientes:", error);
+					if (active) setPatients([]);
+				});
+		refresh();
+		window.addEventListener("patients-updated", refresh);
+		// Criar ou trocar a senha regrava o cadastro
+		window.addEventListener("vault-updated", refresh);
+		return () => {
+			active = false;
+			window.removeEventListener("patients-updated", refresh);
+			window.removeEventListener("vault-updated", refresh);
+		};
+	}, []);
+
+	return patients;
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+import { loadSettings, type Settings, saveSettings } from "../lib/settings";
+
+// Configurações locais, atualizadas quando alteradas em qualquer componente
+export function useSettings() {
+	const [settings, setSettings] = useState<Settings>(loadSettings);
+
+	useEffect(() => {
+		const handler = () => setSettings(loadSettings());
+		window.addEventListener("settings-updated", handler);
+		return () => window.removeEventListener("settings-updated", handler);
+	}, []);
+
+	return [settings, saveSettings] as const;
+}
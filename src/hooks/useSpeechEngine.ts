@@ -0,0 +1,287 @@
+import {
+	type Dispatch,
+	type SetStateAction,
+	useEffect,
+	useRef,
+	useState,
+} from "react";
+import {
+	type ChunkProgress,
+	resolveSpeechEngine,
+	type SpeechEngine,
+	type SpeechEngineId,
+	speechEngines,
+} from "../lib/speechEngines";
+import type { RecognitionResult, RecognitionStatus } from "../lib/speechRecognition";
+import { applyCaptureUpdate, createSegmentId } from "../lib/transcript";
+import { enqueueAudio } from "../lib/transcriptionQueue";
+import type { TranscriptSegment, TranscriptSource } from "../lib/types";
+
+// Palpite de falante para uma fala; speaker null usa a alternância
+export type SpeakerGuess = {
+	speaker: "doctor" | "patient" | null;
+	confidence?: number;
+	audio?: Blob;
+};
+
+type Options = {
+	language: "pt" | "en";
+	engine: SpeechEngineId;
+	chunkSeconds?: number; // Só para o motor do servidor
+	source: TranscriptSource;
+	interimId: string; // Id do segmento interim deste componente
+	patientName: string;
+	consultationId?: string; // Vincula áudio não transcrito à consulta (fila offline)
+	// Falante fixo quando a fonte já identifica quem fala (ex.: aba = paciente remoto)
+	speaker?: "doctor" | "patient";
+	onSegmentsChange?: Dispatch<SetStateAction<TranscriptSegment[]>>;
+	// Chamado assim que a fala é finalizada; a atribuição respeita a ordem das falas
+	guessSpeaker?: (text: string) => Promise<SpeakerGuess>;
+	onSegment?: (segment: TranscriptSegment, guess: SpeakerGuess | null) => void;
+};
+
+/**
+ * Caminho único de transcrição para os componentes de captura: controla o
+ * motor escolhido, descarta falas repetidas, mede os tempos, atribui o falante
+ * (palpite do componente ou alternância) e emite os segmentos em ordem.
+ */
+export function useSpeechEngine({
+	language,
+	engine: preferredEngine,
+	chunkSeconds,
+	source,
+	interimId,
+	patientName,
+	consultationId,
+	speaker: sourceSpeaker,
+	onSegmentsChange,
+	guessSpeaker,
+	onSegment,
+}: Options) {
+	const [status, setStatus] = useState<RecognitionStatus>("idle");
+	const [progress, setProgress] = useState<ChunkProgress>({ pending: 0, retrying: 0 });
+	const engineId = resolveSpeechEngine(preferredEngine);
+	const supported = speechEngines[engineId].isSupported();
+
+	const engineRef = useRef<SpeechEngine | null>(null);
+	const runningRef = useRef(false);
+	const pausedRef = useRef(false);
+	const streamRef = useRef<MediaStream | null>(null);
+
+	const lastTranscriptRef = useRef<string>("");
+	const lastSpeakerRef = useRef<"doctor" | "patient" | null>(null);
+	// Tempos relativos ao início da gravação
+	const startedAtRef = useRef(0);
+	const utteranceStartRef = useRef<number | null>(null);
+	// Falas finalizadas aguardando atribuição (mantém a ordem)
+	const queueRef = useRef<Promise<void>>(Promise.resolve());
+	const pendingTextsRef = useRef<string[]>([]);
+	const interimRef = useRef<string>("");
+	// Invalida atribuições pendentes de uma sessão anterior
+	const sessionRef = useRef(0);
+
+	// Mantém os callbacks atualizados dentro do motor
+	const optionsRef = useRef({
+		patientName,
+		consultationId,
+		sourceSpeaker,
+		onSegmentsChange,
+		guessSpeaker,
+		onSegment,
+	});
+	optionsRef.current = {
+		patientName,
+		consultationId,
+		sourceSpeaker,
+		onSegmentsChange,
+		guessSpeaker,
+		onSegment,
+	};
+
+	const elapsedMs = () => Date.now() - startedAtRef.current;
+
+	// Acrescenta as novas falas e atualiza o texto ainda não atribuído (interim)
+	const emitSegments = (append: TranscriptSegment[] = []) => {
+		const pendingText = [...pendingTextsRef.current, interimRef.current]
+			.filter(Boolean)
+			.join(" ");
+		const now = elapsedMs();
+		const interim: TranscriptSegment | null = pendingText
+			? {
+				id: interimId,
+				speaker: "other",
+				text: pendingText,
+				start: utteranceStartRef.current ?? now,
+				end: now,
+				source,
+				interim: true,
+			}
+			: null;
+		optionsRef.current.onSegmentsChange?.((prev) =>
+			applyCaptureUpdate(prev, interimId, { append, interim }),
+		);
+	};
+
+	const handleResult = ({
+		finalText,
+		interimText,
+		start,
+		end,
+		unprocessedAudio,
+	}: RecognitionResult) => {
+		interimRef.current = interimText;
+		if (utteranceStartRef.current === null && (interimText || finalText)) {
+			utteranceStartRef.current = elapsedMs();
+		}
+
+		// O Web Speech reenvia o último resultado ao reiniciar; só nele o texto
+		// repetido é descartado. Os trechos do servidor já chegam em ordem, um por
+		// vez, e podem repetir a fala de propósito (ex.: "Sim." duas vezes)
+		const repeated = engineId === "webspeech" && finalText === lastTranscriptRef.current;
+		if (finalText && (unprocessedAudio || !repeated)) {
+			lastTranscriptRef.current = finalText;
+
+			const guess = optionsRef.current.guessSpeaker?.(finalText);
+			const session = sessionRef.current;
+			const utteranceStart =
+				start !== undefined ? start - startedAtRef.current : (utteranceStartRef.current ?? elapsedMs());
+			const utteranceEnd = end !== undefined ? end - startedAtRef.current : elapsedMs();
+			utteranceStartRef.current = null;
+			pendingTextsRef.current.push(finalText);
+
+			queueRef.current = queueRef.current.then(async () => {
+				const resolved = guess ? await guess.catch(() => null) : null;
+				if (session !== sessionRef.current) return;
+				pendingTextsRef.current.shift();
+
+				// Sem palpite confiável, alterna em relação à última fala
+				const { patientName, consultationId, sourceSpeaker } = optionsRef.current;
+				const alternated = lastSpeakerRef.current === "doctor" ? "patient" : "doctor";
+				const speaker = sourceSpeaker ?? resolved?.speaker ?? alternated;
+
+				const segment: TranscriptSegment = {
+					id: createSegmentId(),
+					speaker,
+					speakerName: speaker === "patient" ? patientName.trim() || undefined : undefined,
+					text: finalText,
+					start: utteranceStart,
+					end: utteranceEnd,
+					source,
+					confidence: resolved?.confidence,
+					attribution: sourceSpeaker
+						? "source"
+						: resolved?.speaker
+							? "voice"
+							: "alternation",
+					pendingTranscription: unprocessedAudio ? true : undefined,
+					interim: false,
+				};
+				lastSpeakerRef.current = speaker;
+
+				if (unprocessedAudio && consultationId) {
+					enqueueAudio({
+						consultationId,
+						segmentId: segment.id,
+						language,
+						audio: unprocessedAudio,
+					}).catch((error) => console.error("❌ Erro ao guardar áudio na fila:", error));
+				}
+				emitSegments([segment]);
+				optionsRef.current.onSegment?.(segment, resolved);
+			});
+		}
+
+		emitSegments();
+	};
+
+	const handleResultRef = useRef(handleResult);
+	handleResultRef.current = handleResult;
+
+	useEffect(() => {
+		if (!speechEngines[engineId].isSupported()) {
+			console.error("Speech engine not supported:", engineId);
+			return;
+		}
+
+		const engine = speechEngines[engineId].create({
+			language,
+			chunkSeconds,
+			onResult: (result) => handleResultRef.current(result),
+			onStatusChange: (next) => setStatus(next),
+			onProgress: setProgress,
+			speaker: sourceSpeaker,
+		});
+		engineRef.current = engine;
+
+		// Recriado durante a gravação (ex.: troca de idioma): continua ouvindo
+		if (runningRef.current) engine.start(streamRef.current);
+
+		return () => engine.stop();
+	}, [language, engineId, chunkSeconds, sourceSpeaker]);
+
+	const start = (stream: MediaStream | null) => {
+		sessionRef.current += 1;
+		startedAtRef.current = Date.now();
+		utteranceStartRef.current = null;
+		lastTranscriptRef.current = "";
+		lastSpeakerRef.current = null;
+		pendingTextsRef.current = [];
+		interimRef.current = "";
+
+		streamRef.current = stream;
+		runningRef.current = true;
+		pausedRef.current = false;
+		engineRef.current?.start(stream);
+	};
+
+	const stop = (discardPending = false) => {
+		runningRef.current = false;
+		pausedRef.current = false;
+		if (discardPending) engineRef.current?.abort();
+		else engineRef.current?.stop();
+		streamRef.current = null;
+
+		// Falas ainda em atribuição entram na transcrição quando concluírem
+		interimRef.current = "";
+		emitSegments();
+	};
+
+	// Silencia a fonte sem encerrar a sessão (tempos e falas continuam valendo)
+	const pause = () => {
+		if (!runningRef.current) return;
+		runningRef.current = false;
+		pausedRef.current = true;
+		engineRef.current?.stop();
+		interimRef.current = "";
+		emitSegments();
+	};
+
+	const resume = () => {
+		if (!pausedRef.current) return;
+		pausedRef.current = false;
+		runningRef.current = true;
+		engineRef.current?.start(streamRef.current);
+	};
+
+	const reset = () => {
+		sessionRef.current += 1;
+		pendingTextsRef.current = [];
+		stop(true);
+		lastTranscriptRef.current = "";
+		lastSpeakerRef.current = null;
+		utteranceStartRef.current = null;
+	};
+
+	return {
+		status,
+		progress,
+		engineId,
+		supported,
+		needsStream: speechEngines[engineId].needsStream,
+		start,
+		stop,
+		pause,
+		resume,
+		reset,
+	};
+}
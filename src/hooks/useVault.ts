@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { holdAutoLock, type VaultStatus, vaultStatus } from "../lib/vault";
+
+// Estado do cofre do histórico; null enquanto é lido do banco
+export function useVault() {
+	const [status, setStatus] = useState<VaultStatus | null>(null);
+
+	useEffect(() => {
+		let active = true;
+		const refresh = () =>
+			vaultStatus()
+				.then((next) => active && setStatus(next))
+				.catch((error) => {
+					console.error("Erro ao ler o cofre do histórico:", error);
+					// Sem acesso ao banco o histórico já mostra o próprio erro
+					if (active) setStatus("none");
+				});
+		refresh();
+		window.addEventListener("vault-updated", refresh);
+		return () => {
+			active = false;
+			window.removeEventListener("vault-updated", refresh);
+		};
+	}, []);
+
+	return status;
+}
+
+// Sem bloqueio automático enquanto `active` (ex.: gravação em andamento, edição não salva)
+export function useAutoLockHold(active: boolean) {
+	useEffect(() => (active ? holdAutoLock() : undefined), [active]);
+}
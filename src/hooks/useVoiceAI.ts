@@ -1,35 +1,53 @@
-import { useCallback, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { VoiceProfile } from "../lib/types";
+import { loadDoctorProfile, saveDoctorProfile } from "../lib/voiceProfiles";
 
 type SpeakerType = "doctor" | "patient" | "auto";
 
-interface VoiceProfile {
-	id: string;
-	name: SpeakerType;
-	features: {
-		avgPitch: number;
-		pitchVariance: number;
-		avgIntensity: number;
-		formantF1: number;
-		formantF2: number;
-		speechRate: number;
-		voiceQuality: number;
-	};
-	samples: number;
+// Similaridade mínima para aceitar a identificação de um perfil de voz
+export const SPEAKER_MATCH_THRESHOLD = 0.4;
+
+// Perfis iniciais: apenas o perfil cadastrado do médico, se houver
+function initialProfiles(clinician: string) {
+	const profiles = new Map<string, VoiceProfile>();
+	const doctor = loadDoctorProfile(clinician);
+	if (doctor) profiles.set("doctor", doctor);
+	return profiles;
 }
 
-interface VoiceAnalysis {
+export interface VoiceAnalysis {
 	speaker: SpeakerType;
 	confidence: number;
 	features: VoiceProfile['features'];
 }
 
-export function useVoiceAI() {
-	const [voiceProfiles, setVoiceProfiles] = useState<Map<string, VoiceProfile>>(new Map());
+export function useVoiceAI(clinician = "") {
+	const [voiceProfiles, setVoiceProfiles] = useState<Map<string, VoiceProfile>>(() => initialProfiles(clinician));
 	const [isLearning, setIsLearning] = useState(true);
 	const audioContextRef = useRef<AudioContext | null>(null);
 	const analyserRef = useRef<AnalyserNode | null>(null);
 	const lastAnalysisRef = useRef<VoiceAnalysis | null>(null);
 
+	// Recarrega o perfil do médico ao trocar de médico ou após novo cadastro
+	useEffect(() => {
+		const reloadDoctor = () => {
+			setVoiceProfiles(prev => {
+				const newProfiles = new Map(prev);
+				const doctor = loadDoctorProfile(clinician);
+				if (doctor) {
+					newProfiles.set("doctor", doctor);
+				} else {
+					newProfiles.delete("doctor");
+				}
+				return newProfiles;
+			});
+		};
+
+		reloadDoctor();
+		window.addEventListener("voice-profiles-updated", reloadDoctor);
+		return () => window.removeEventListener("voice-profiles-updated", reloadDoctor);
+	}, [clinician]);
+
 	// Inicializa contexto de áudio
 	const initAudioContext = useCallback(async () => {
 		if (!audioContextRef.current) {
@@ -205,8 +223,7 @@ export function useVoiceAI() {
 			});
 			
 			// Se similaridade é alta o suficiente
-			const threshold = 0.4; // Reduzido de 0.6 para 0.4 (mais sensível)
-			const identifiedSpeaker = bestMatch.similarity > threshold ? bestMatch.speaker : "auto";
+			const identifiedSpeaker = bestMatch.similarity > SPEAKER_MATCH_THRESHOLD ? bestMatch.speaker : "auto";
 			console.log(`🎯 Identificado: ${identifiedSpeaker} (confiança: ${(bestMatch.similarity * 100).toFixed(1)}%)`);
 			
 			const analysis: VoiceAnalysis = {
@@ -290,12 +307,35 @@ export function useVoiceAI() {
 		}
 	}, [isLearning, extractVoiceFeatures, initAudioContext]);
 
-	// Reset do sistema
+	// Cadastra o perfil de voz do médico a partir da leitura de um texto
+	const enrollDoctor = useCallback(async (audioBlob: Blob): Promise<VoiceProfile> => {
+		if (!clinician.trim()) throw new Error("Médico não informado");
+
+		const arrayBuffer = await audioBlob.arrayBuffer();
+		await initAudioContext();
+		
+		if (!audioContextRef.current) throw new Error("AudioContext não disponível");
+		
+		const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer.slice(0));
+		const features = await extractVoiceFeatures(audioBuffer.getChannelData(0));
+		
+		const profile: VoiceProfile = {
+			id: "doctor",
+			name: "doctor",
+			features,
+			samples: 1,
+			enrolledAt: Date.now(),
+		};
+		saveDoctorProfile(clinician, profile);
+		return profile;
+	}, [clinician, extractVoiceFeatures, initAudioContext]);
+
+	// Reset do sistema (mantém o perfil cadastrado do médico)
 	const resetVoiceProfiles = useCallback(() => {
-		setVoiceProfiles(new Map());
+		setVoiceProfiles(initialProfiles(clinician));
 		setIsLearning(true);
 		lastAnalysisRef.current = null;
-	}, []);
+	}, [clinician]);
 
 	// Para o aprendizado após algumas amostras
 	const stopLearning = useCallback(() => {
@@ -305,6 +345,7 @@ export function useVoiceAI() {
 	return {
 		identifySpeaker,
 		learnVoice,
+		enrollDoctor,
 		resetVoiceProfiles,
 		stopLearning,
 		isLearning,
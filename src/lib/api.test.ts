@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from "vitest";
+import { failMockApi } from "../test/mockApi";
+import { streamDiagnose, transcribeAudio } from "./api";
+
+describe("transcribeAudio", () => {
+	it("envia o trecho uma vez só: quem chama decide se repete", async () => {
+		failMockApi("server");
+		const warn = vi.spyOn(console, "warn");
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		await expect(transcribeAudio(new Blob(["áudio"]), "pt")).rejects.toMatchObject({ kind: "server" });
+		expect(warn).not.toHaveBeenCalledWith(expect.stringContaining("nova tentativa"), expect.anything());
+	});
+});
+
+describe("streamDiagnose", () => {
+	it("para de entregar pedaços quando o streaming é cancelado", async () => {
+		const controller = new AbortController();
+		const onChunk = vi.fn(() => controller.abort());
+
+		const result = streamDiagnose("Paciente com febre.", "pt", { signal: controller.signal, onChunk });
+
+		await expect(result).rejects.toMatchObject({ name: "AbortError" });
+		// O backend simulado manda um pedaço a cada 60 ms
+		await new Promise((resolve) => setTimeout(resolve, 200));
+		expect(onChunk).toHaveBeenCalledTimes(1);
+	});
+});
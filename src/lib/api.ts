@@ -1,44 +1,31 @@
-export const API_URL = import.meta.env.VITE_API_URL; 
+import { ApiError, apiFetch, apiJson, createRequestId, endpoints } from "./apiClient";
+import { readEventStream } from "./sse";
+import type { DiagnosisResponse } from "./types";
+import {
+	type ChatResponse,
+	type TranscriptionResponse,
+	validateChatResponse,
+	validateDiagnosis,
+	validateTranscription,
+} from "./validation";
 
-export async function transcribeAudio(audioBlob: Blob, language: "pt" | "en") {
+export async function transcribeAudio(
+	audioBlob: Blob,
+	language: "pt" | "en",
+): Promise<TranscriptionResponse> {
 	try {
-		console.log('🎙️ Enviando áudio para transcrição:', {
-			size: audioBlob.size,
-			type: audioBlob.type,
-			language,
-			url: `${API_URL}/api/transcribe/audio`
-		});
-
 		const formData = new FormData();
 		formData.append('audio', audioBlob);
 		formData.append('language', language);
 
-		const res = await fetch(`${API_URL}/api/transcribe/audio`, {
-			method: "POST",
+		return await apiJson(endpoints.transcribeAudio, validateTranscription, {
 			body: formData,
 		});
-		
-		console.log('📡 Resposta do servidor:', {
-			status: res.status,
-			statusText: res.statusText,
-			ok: res.ok
-		});
-		
-		if (!res.ok) {
-			const txt = await res.text();
-			console.error('❌ Erro na resposta:', txt);
-			throw new Error(txt || `Erro ${res.status}: ${res.statusText}`);
-		}
-		
-		const result = await res.json();
-		console.log('✅ Transcrição recebida:', result);
-		return result;
-		
 	} catch (error) {
 		console.error('❌ Erro na transcrição de áudio:', error);
 		
 		// Se é erro de conexão (backend não disponível)
-		if (error instanceof TypeError && error.message.includes('fetch')) {
+		if (error instanceof ApiError && (error.kind === "network" || error.kind === "timeout")) {
 			console.warn('⚠️ Backend não disponível, usando fallback local');
 			
 			// Fallback para VideoCallCapture quando backend não está disponível
@@ -56,44 +43,86 @@ export async function transcribeAudio(audioBlob: Blob, language: "pt" | "en") {
 	}
 }
 
-export async function transcribeText(text: string, language: "pt" | "en") {
-	const res = await fetch(`${API_URL}/api/transcribe/text`, {
-		method: "POST",
-		headers: { "Content-Type": "application/json" },
-		body: JSON.stringify({ text, language }),
+export function transcribeText(text: string, language: "pt" | "en") {
+	return apiJson(
+		endpoints.transcribeText,
+		(value) => validateTranscription(value, endpoints.transcribeText.path),
+		{ body: { text, language } },
+	);
+}
+
+export function diagnose(
+	transcript: string,
+	language: "pt" | "en",
+	signal?: AbortSignal,
+): Promise<DiagnosisResponse> {
+	return apiJson(endpoints.diagnose, (value) => validateDiagnosis(value, language), {
+		body: { transcript, language },
+		signal,
 	});
-	
-	if (!res.ok) {
-		const txt = await res.text();
-		throw new Error(txt || `Erro ${res.status}`);
-	}
-	
-	return res.json();
 }
 
-export async function diagnose(transcript: string, language: "pt" | "en") {
-	const res = await fetch(`${API_URL}/api/diagnose`, {
-		method: "POST",
-		headers: { "Content-Type": "application/json" },
-		body: JSON.stringify({ transcript, language }),
+export type ChatContext = Pick<
+	DiagnosisResponse,
+	"diagnosis" | "conditions" | "exams" | "medications"
+> & { transcript: string };
+
+export function sendChatMessage(
+	message: string,
+	context: ChatContext,
+	language: "pt" | "en",
+): Promise<ChatResponse> {
+	return apiJson(endpoints.chat, validateChatResponse, {
+		body: { message, context, language },
 	});
-	if (!res.ok) {
-		const txt = await res.text();
-		throw new Error(txt || `Erro ${res.status}`);
-	}
-	return res.json();
 }
 
-export function streamDiagnose(
+// Eventos que o servidor envia para indicar o fim do diagnóstico
+const STREAM_DONE_EVENTS = ["done", "end"];
+
+type StreamDiagnoseOptions = {
+	onChunk?: (chunk: string) => void;
+	signal?: AbortSignal;
+};
+
+export type StreamDiagnoseResult = {
+	text: string; // Tudo o que chegou nos eventos de dados
+	complete: boolean; // false se a conexão caiu antes do evento de fim
+};
+
+/**
+ * Diagnóstico em streaming (SSE) via POST: a transcrição vai no corpo, nunca
+ * na URL. Resolve ao receber o evento de fim e rejeita no evento de erro ou
+ * quando o signal é abortado.
+ */
+export async function streamDiagnose(
 	transcript: string,
 	language: "pt" | "en",
-	onChunk: (t: string) => void,
-) {
-	const url = `${API_URL}/api/diagnose/stream`;
-	const es = new EventSource(
-		`${url}?language=${language}&q=${encodeURIComponent(transcript)}`,
-	);
-	es.onmessage = (e) => onChunk(e.data);
-	es.onerror = () => es.close();
-	return () => es.close();
+	{ onChunk, signal }: StreamDiagnoseOptions = {},
+): Promise<StreamDiagnoseResult> {
+	const requestId = createRequestId();
+	const res = await apiFetch(endpoints.diagnoseStream, {
+		body: { transcript, language },
+		headers: { Accept: "text/event-stream" },
+		signal,
+		requestId,
+	});
+
+	let text = "";
+	for await (const { event, data } of readEventStream(res, signal)) {
+		if (event === "error") {
+			throw new ApiError("server", data || "Erro no streaming do diagnóstico", {
+				endpoint: endpoints.diagnoseStream.path,
+				requestId,
+			});
+		}
+		if (STREAM_DONE_EVENTS.includes(event) || data === "[DONE]") {
+			// Alguns servidores mandam o resultado completo no próprio evento de fim
+			if (!text && data !== "[DONE]") text = data;
+			return { text, complete: true };
+		}
+		text += data;
+		onChunk?.(data);
+	}
+	return { text, complete: false };
 }
@@ -0,0 +1,228 @@
+import { isMockBackendEnabled, mockFetch } from "./mockBackend";
+import { ResponseValidationError, type ValidationIssue } from "./validation";
+
+export const API_URL = import.meta.env.VITE_API_URL;
+
+// network: sem conexão / CORS; client: 4xx; server: 5xx; validation: resposta fora do formato
+export type ApiErrorKind = "network" | "timeout" | "client" | "server" | "validation";
+
+/**
+ * Erro único de todas as chamadas ao backend. Sempre traz o endpoint e o id
+ * da requisição (enviado em X-Request-Id) para cruzar com os logs do servidor.
+ */
+export class ApiError extends Error {
+	readonly kind: ApiErrorKind;
+	readonly endpoint: string;
+	readonly requestId: string;
+	readonly status?: number;
+	readonly issues: ValidationIssue[]; // Campos com problema (kind "validation")
+
+	constructor(
+		kind: ApiErrorKind,
+		message: string,
+		details: { endpoint: string; requestId: string; status?: number; issues?: ValidationIssue[] },
+	) {
+		super(message);
+		this.name = "ApiError";
+		this.kind = kind;
+		this.endpoint = details.endpoint;
+		this.requestId = details.requestId;
+		this.status = details.status;
+		this.issues = details.issues ?? [];
+	}
+
+	// Vale a pena repetir a mesma requisição?
+	get retryable() {
+		return (
+			this.kind === "network" ||
+			this.kind === "timeout" ||
+			this.kind === "server" ||
+			this.status === 429
+		);
+	}
+}
+
+export type EndpointConfig = {
+	path: string;
+	timeoutMs: number;
+	retries: number; // Só para chamadas idempotentes; 0 nas demais
+};
+
+export const endpoints = {
+	// Áudio: o motor do servidor e a fila offline já repetem o envio de cada trecho
+	transcribeAudio: { path: "/api/transcribe/audio", timeoutMs: 60000, retries: 0 },
+	transcribeText: { path: "/api/transcribe/text", timeoutMs: 15000, retries: 2 },
+	diagnose: { path: "/api/diagnose", timeoutMs: 45000, retries: 2 },
+	// Streaming: o tempo limite vale até o servidor começar a responder
+	diagnoseStream: { path: "/api/diagnose/stream", timeoutMs: 20000, retries: 0 },
+	// O chat não é repetido para não duplicar perguntas
+	chat: { path: "/api/chat", timeoutMs: 30000, retries: 0 },
+} satisfies Record<string, EndpointConfig>;
+
+const RETRY_BASE_DELAY_MS = 500;
+
+type RequestOptions = {
+	body?: unknown; // Objeto (enviado como JSON) ou FormData
+	headers?: Record<string, string>;
+	signal?: AbortSignal;
+	requestId?: string; // Gerado automaticamente se ausente
+};
+
+export function createRequestId() {
+	return crypto.randomUUID?.() || `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+	return new Promise<void>((resolve, reject) => {
+		const timer = setTimeout(resolve, ms);
+		signal?.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timer);
+				reject(signal.reason);
+			},
+			{ once: true },
+		);
+	});
+}
+
+// Uma tentativa: resolve com a resposta 2xx ou rejeita com ApiError
+async function attempt(
+	endpoint: EndpointConfig,
+	requestId: string,
+	{ body, headers, signal }: RequestOptions,
+): Promise<Response> {
+	const controller = new AbortController();
+	let timedOut = false;
+	const timer = setTimeout(() => {
+		timedOut = true;
+		controller.abort();
+	}, endpoint.timeoutMs);
+	const abort = () => controller.abort(signal?.reason);
+	signal?.addEventListener("abort", abort, { once: true });
+
+	const isForm = body instanceof FormData;
+	const details = { endpoint: endpoint.path, requestId };
+	let received = false;
+
+	try {
+		// Com o backend simulado, nada sai do navegador
+		const send = isMockBackendEnabled() ? mockFetch : fetch;
+		const res = await send(`${API_URL ?? ""}${endpoint.path}`, {
+			method: "POST",
+			headers: {
+				"X-Request-Id": requestId,
+				...(body !== undefined && !isForm ? { "Content-Type": "application/json" } : {}),
+				...headers,
+			},
+			body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+			signal: controller.signal,
+		});
+
+		if (!res.ok) {
+			const text = await res.text().catch(() => "");
+			throw new ApiError(res.status >= 500 ? "server" : "client", text || res.statusText, {
+				...details,
+				status: res.status,
+			});
+		}
+		received = true;
+		return res;
+	} catch (error) {
+		if (error instanceof ApiError) throw error;
+		// Cancelado por quem chamou: repassa o AbortError original
+		if (signal?.aborted) throw error;
+		if (timedOut) {
+			throw new ApiError("timeout", `Sem resposta em ${endpoint.timeoutMs / 1000}s`, details);
+		}
+		throw new ApiError("network", error instanceof Error ? error.message : String(error), details);
+	} finally {
+		// O tempo limite vale até a resposta chegar; o signal de quem chamou
+		// continua cancelando a leitura do corpo (ex.: streaming)
+		clearTimeout(timer);
+		if (!received) signal?.removeEventListener("abort", abort);
+	}
+}
+
+/**
+ * POST com tempo limite, novas tentativas (com espera crescente) para erros
+ * transitórios e X-Request-Id. Cancelar pelo signal rejeita com AbortError.
+ */
+export async function apiFetch(
+	endpoint: EndpointConfig,
+	options: RequestOptions = {},
+): Promise<Response> {
+	const requestId = options.requestId ?? createRequestId();
+	for (let retry = 0; ; retry++) {
+		try {
+			return await attempt(endpoint, requestId, options);
+		} catch (error) {
+			if (!(error instanceof ApiError) || !error.retryable || retry >= endpoint.retries) {
+				throw error;
+			}
+			console.warn(`⚠️ ${endpoint.path} falhou (${error.kind}), nova tentativa`, { requestId });
+			await wait(RETRY_BASE_DELAY_MS * 2 ** retry, options.signal);
+		}
+	}
+}
+
+/**
+ * Como apiFetch, mas lê o JSON e passa pelo validador do endpoint; resposta
+ * fora do formato vira ApiError do tipo "validation".
+ */
+export async function apiJson<T>(
+	endpoint: EndpointConfig,
+	validate: (value: unknown) => T,
+	options: RequestOptions = {},
+): Promise<T> {
+	const requestId = options.requestId ?? createRequestId();
+	const res = await apiFetch(endpoint, { ...options, requestId });
+	const details = { endpoint: endpoint.path, requestId };
+
+	let json: unknown;
+	try {
+		json = await res.json();
+	} catch {
+		throw new ApiError("validation", "Resposta não é JSON", {
+			...details,
+			issues: [{ code: "not-json" }],
+		});
+	}
+	try {
+		return validate(json);
+	} catch (error) {
+		if (error instanceof ResponseValidationError) {
+			throw new ApiError("validation", error.message, { ...details, issues: error.issues });
+		}
+		throw error;
+	}
+}
+
+const errorMessages = {
+	pt: {
+		network: "Sem conexão com o servidor. Verifique a internet e tente novamente.",
+		timeout: "O servidor demorou demais para responder. Tente novamente.",
+		client: "O servidor recusou a requisição.",
+		server: "O servidor encontrou um erro. Tente novamente em instantes.",
+		validation: "O servidor devolveu uma resposta incompleta.",
+		unknown: "Ocorreu um erro inesperado.",
+	},
+	en: {
+		network: "No connection to the server. Check your internet and try again.",
+		timeout: "The server took too long to respond. Try again.",
+		client: "The server rejected the request.",
+		server: "The server hit an error. Try again in a moment.",
+		validation: "The server returned an incomplete response.",
+		unknown: "An unexpected error occurred.",
+	},
+};
+
+// Mensagem curta e traduzida para qualquer erro de chamada ao backend
+export function apiErrorMessage(error: unknown, language: "pt" | "en") {
+	const t = errorMessages[language];
+	if (error instanceof ApiError) {
+		return error.status ? `${t[error.kind]} (HTTP ${error.status})` : t[error.kind];
+	}
+	if (error instanceof ResponseValidationError) return t.validation;
+	return t.unknown;
+}
@@ -0,0 +1,262 @@
+import { loadSettings } from "./settings";
+
+// Consulta roteirizada que substitui o microfone: reproduz as falas com os
+// mesmos eventos (interim e final) que a Web Speech API geraria.
+
+export type ScriptLine = {
+	speaker: "doctor" | "patient";
+	text: string;
+	at?: number; // Início (ms desde o começo); padrão: logo após a fala anterior
+	duration?: number; // Duração da fala (ms); padrão proporcional ao número de palavras
+	endSession?: boolean; // Encerra a sessão depois desta fala (como o Chrome após silêncio)
+	error?: string; // Dispara onerror com este código depois desta fala (ex.: "network")
+};
+
+export type ConsultationScript = {
+	lines: ScriptLine[];
+};
+
+// Fala já posicionada na linha do tempo
+type TimedLine = ScriptLine & { at: number; duration: number };
+
+const MS_PER_WORD = 350;
+const GAP_BETWEEN_LINES_MS = 600;
+// Intervalo entre atualizações dos resultados parciais
+const TICK_MS = 100;
+
+export const SAMPLE_SCRIPTS: Record<"pt" | "en", ConsultationScript> = {
+	pt: {
+		lines: [
+			{ speaker: "doctor", text: "Bom dia, o que trouxe você aqui hoje?" },
+			{ speaker: "patient", text: "Estou com febre e tosse há três dias." },
+			{ speaker: "doctor", text: "A febre chegou a quanto?" },
+			{ speaker: "patient", text: "Trinta e oito e meio, e a garganta dói quando eu engulo.", endSession: true },
+			{ speaker: "doctor", text: "Alguma falta de ar ou dor no peito?" },
+			{ speaker: "patient", text: "Não, só um cansaço maior que o normal." },
+		],
+	},
+	en: {
+		lines: [
+			{ speaker: "doctor", text: "Good morning, what brings you in today?" },
+			{ speaker: "patient", text: "I have had a fever and a cough for three days." },
+			{ speaker: "doctor", text: "How high did the fever get?" },
+			{ speaker: "patient", text: "About a hundred and one, and my throat hurts when I swallow.", endSession: true },
+			{ speaker: "doctor", text: "Any shortness of breath or chest pain?" },
+			{ speaker: "patient", text: "No, just more tired than usual." },
+		],
+	},
+};
+
+/**
+ * Lê o JSON de um roteiro (objeto com `lines` ou a lista de falas direto).
+ * Lança um Error listando cada problema encontrado.
+ */
+export function parseConsultationScript(text: string): ConsultationScript {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error("Roteiro não é um JSON válido");
+	}
+
+	const lines = Array.isArray(data) ? data : (data as { lines?: unknown } | null)?.lines;
+	if (!Array.isArray(lines) || lines.length === 0) {
+		throw new Error("Roteiro sem falas (esperado { \"lines\": [...] })");
+	}
+
+	const issues: string[] = [];
+	lines.forEach((line, index) => {
+		const prefix = `fala ${index + 1}`;
+		if (!line || typeof line !== "object") {
+			issues.push(`${prefix}: não é um objeto`);
+			return;
+		}
+		if (line.speaker !== "doctor" && line.speaker !== "patient") {
+			issues.push(`${prefix}: speaker deve ser "doctor" ou "patient"`);
+		}
+		if (typeof line.text !== "string" || !line.text.trim()) issues.push(`${prefix}: text vazio`);
+		for (const key of ["at", "duration"]) {
+			if (line[key] !== undefined && (typeof line[key] !== "number" || line[key] < 0)) {
+				issues.push(`${prefix}: ${key} deve ser um número positivo (ms)`);
+			}
+		}
+	});
+	if (issues.length > 0) throw new Error(issues.join("; "));
+
+	return { lines: lines as ScriptLine[] };
+}
+
+// Roteiro das configurações; sem roteiro próprio (ou inválido) usa o exemplo
+export function loadConsultationScript(language: "pt" | "en"): ConsultationScript {
+	const { simulationScript } = loadSettings();
+	if (!simulationScript.trim()) return SAMPLE_SCRIPTS[language];
+	try {
+		return parseConsultationScript(simulationScript);
+	} catch (error) {
+		console.error("Roteiro de simulação inválido, usando o exemplo:", error);
+		return SAMPLE_SCRIPTS[language];
+	}
+}
+
+function timeline(script: ConsultationScript): TimedLine[] {
+	let cursor = 0;
+	return script.lines.map((line) => {
+		const at = line.at ?? cursor;
+		const duration = line.duration ?? line.text.split(/\s+/).length * MS_PER_WORD;
+		cursor = at + duration + GAP_BETWEEN_LINES_MS;
+		return { ...line, at, duration };
+	});
+}
+
+/**
+ * Posição da reprodução, compartilhada entre as sessões de reconhecimento:
+ * o relógio continua correndo entre uma sessão e outra (falas ditas com o
+ * reconhecimento parado se perdem, como no microfone de verdade).
+ */
+export function createScriptPlayback(
+	loadScript: () => ConsultationScript,
+	speaker?: "doctor" | "patient",
+) {
+	let lines: TimedLine[] = [];
+	let startedAt: number | null = null;
+	let next = 0;
+
+	return {
+		get lines() {
+			return lines;
+		},
+		get next() {
+			return next;
+		},
+		elapsed() {
+			return startedAt === null ? 0 : Date.now() - startedAt;
+		},
+		// Começa (ou recomeça, se o roteiro já terminou) com o roteiro atual
+		begin() {
+			if (startedAt === null || next >= lines.length) {
+				// Só as falas desta fonte (ex.: microfone = médico); a linha do tempo é a do roteiro todo
+				lines = timeline(loadScript()).filter((line) => !speaker || line.speaker === speaker);
+				startedAt = Date.now();
+				next = 0;
+			}
+		},
+		advance() {
+			next += 1;
+		},
+		// Pula as falas que terminaram enquanto ninguém ouvia
+		skipMissed() {
+			const now = this.elapsed();
+			while (next < lines.length && lines[next].at + lines[next].duration <= now) next += 1;
+		},
+		rewind() {
+			lines = [];
+			startedAt = null;
+			next = 0;
+		},
+	};
+}
+
+export type ScriptPlayback = ReturnType<typeof createScriptPlayback>;
+
+type ResultList = { transcript: string; isFinal: boolean }[];
+
+// Monta o evento no formato de SpeechRecognitionEvent (results[i][0].transcript)
+function resultEvent(resultIndex: number, results: ResultList) {
+	return {
+		resultIndex,
+		results: results.map(({ transcript, isFinal }) =>
+			Object.assign([{ transcript, confidence: 1 }], { isFinal }),
+		),
+	};
+}
+
+/**
+ * Substituto de webkitSpeechRecognition que "ouve" o roteiro: cada fala gera
+ * resultados parciais palavra a palavra e depois um final. Como no Chrome, a
+ * lista de resultados recomeça a cada sessão e stop() finaliza a fala em curso.
+ */
+export class ScriptedSpeechRecognition {
+	lang = "";
+	continuous = false;
+	interimResults = false;
+	onstart: (() => void) | null = null;
+	onresult: ((event: ReturnType<typeof resultEvent>) => void) | null = null;
+	onerror: ((event: { error: string }) => void) | null = null;
+	onend: (() => void) | null = null;
+
+	private playback: ScriptPlayback;
+	private timer: number | null = null;
+	private results: ResultList = [];
+	private spokenWords = 0;
+
+	constructor(playback: ScriptPlayback) {
+		this.playback = playback;
+	}
+
+	start() {
+		if (this.timer !== null) {
+			throw new DOMException("recognition has already started", "InvalidStateError");
+		}
+		this.results = [];
+		this.spokenWords = 0;
+		this.playback.begin();
+		this.playback.skipMissed();
+		this.timer = window.setInterval(() => this.tick(), TICK_MS);
+		window.setTimeout(() => this.onstart?.(), 0);
+	}
+
+	// Finaliza o que já foi dito da fala atual, como o Chrome faz
+	stop() {
+		if (this.timer === null) return;
+		const line = this.playback.lines[this.playback.next];
+		if (line && this.spokenWords > 0) {
+			this.emit(line.text.split(/\s+/).slice(0, this.spokenWords).join(" "), true);
+			this.playback.advance();
+		}
+		this.end();
+	}
+
+	abort() {
+		if (this.timer === null) return;
+		this.end();
+	}
+
+	private end() {
+		if (this.timer !== null) window.clearInterval(this.timer);
+		this.timer = null;
+		this.spokenWords = 0;
+		window.setTimeout(() => this.onend?.(), 0);
+	}
+
+	private emit(transcript: string, isFinal: boolean) {
+		const index = this.results.filter((result) => result.isFinal).length;
+		this.results = [...this.results.slice(0, index), { transcript, isFinal }];
+		this.onresult?.(resultEvent(index, this.results));
+	}
+
+	private tick() {
+		const line = this.playback.lines[this.playback.next];
+		const now = this.playback.elapsed();
+		if (!line || now < line.at) return;
+
+		if (now >= line.at + line.duration) {
+			this.emit(line.text, true);
+			this.spokenWords = 0;
+			this.playback.advance();
+			if (line.error) {
+				this.onerror?.({ error: line.error });
+				this.end();
+			} else if (line.endSession) {
+				this.end();
+			}
+			return;
+		}
+
+		if (!this.interimResults) return;
+		const words = line.text.split(/\s+/);
+		const spoken = Math.max(1, Math.ceil((words.length * (now - line.at)) / line.duration));
+		if (spoken === this.spokenWords) return;
+		this.spokenWords = spoken;
+		this.emit(words.slice(0, spoken).join(" "), false);
+	}
+}
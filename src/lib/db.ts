@@ -0,0 +1,136 @@
+// Banco IndexedDB local do MedNote. Cada versão nova acrescenta stores em
+// upgrade(); nunca altere um passo já publicado.
+const DB_NAME = "mednote";
+const DB_VERSION = 5;
+
+export const PENDING_AUDIO_STORE = "pending-audio";
+export const HISTORY_STORE = "history";
+export const VAULT_STORE = "vault";
+export const PATIENTS_STORE = "patients";
+
+// Histórico da versão anterior, guardado inteiro numa chave do localStorage
+export const LEGACY_HISTORY_KEY = "mednote-history-v1";
+
+function upgrade(db: IDBDatabase, tx: IDBTransaction, oldVersion: number) {
+	if (oldVersion < 1) {
+		const pendingAudio = db.createObjectStore(PENDING_AUDIO_STORE, { keyPath: "id" });
+		pendingAudio.createIndex("consultationId", "consultationId");
+	}
+	if (oldVersion < 2) {
+		const history = db.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+		history.createIndex("timestamp", "timestamp");
+		history.createIndex("patientName", "patientName");
+		history.createIndex("language", "language");
+		importLegacyHistory(tx, history);
+	}
+	if (oldVersion < 3) {
+		db.createObjectStore(VAULT_STORE, { keyPath: "id" });
+	}
+	if (oldVersion < 4) {
+		// Sem índices: com senha, nome e documentos só existem cifrados
+		db.createObjectStore(PATIENTS_STORE, { keyPath: "id" });
+	}
+	if (oldVersion < 5) {
+		// Recria os índices de nome e idioma onde uma versão de testes os apagou.
+		// Sem senha, esses campos ficam legíveis e os índices atendem às buscas;
+		// com senha, só existem cifrados e os índices ficam vazios (queryHistory
+		// filtra na memória nesse caso)
+		const history = tx.objectStore(HISTORY_STORE);
+		for (const name of ["patientName", "language"]) {
+			if (!history.indexNames.contains(name)) history.createIndex(name, name);
+		}
+	}
+}
+
+/**
+ * Copia o histórico do localStorage como está (a leitura do histórico
+ * converte formatos antigos). A chave só é apagada depois que a transação de
+ * upgrade grava tudo.
+ */
+function importLegacyHistory(tx: IDBTransaction, store: IDBObjectStore) {
+	let items: unknown;
+	try {
+		items = JSON.parse(localStorage.getItem(LEGACY_HISTORY_KEY) || "[]");
+	} catch (error) {
+		console.error("Histórico antigo ilegível, não importado:", error);
+		return;
+	}
+	if (!Array.isArray(items) || items.length === 0) return;
+
+	for (const item of items) {
+		if (item && typeof item === "object" && typeof item.id === "string") store.put(item);
+	}
+	tx.addEventListener("complete", () => localStorage.removeItem(LEGACY_HISTORY_KEY));
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = (event) =>
+				upgrade(request.result, request.transaction!, event.oldVersion);
+			request.onsuccess = () => {
+				const db = request.result;
+				// Outra aba abriu uma versão mais nova: libera o banco para o upgrade
+				db.onversionchange = () => {
+					db.close();
+					dbPromise = null;
+				};
+				resolve(db);
+			};
+			request.onerror = () => reject(request.error);
+			request.onblocked = () => console.warn("Banco local aguardando outra aba fechar");
+		});
+		// Permite tentar de novo depois de uma falha ao abrir
+		dbPromise.catch(() => {
+			dbPromise = null;
+		});
+	}
+	return dbPromise;
+}
+
+// Fecha a conexão; a próxima operação abre de novo (usado nos testes)
+export async function closeDatabase() {
+	const db = await dbPromise?.catch(() => null);
+	db?.close();
+	dbPromise = null;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Executa operações numa transação e resolve quando ela termina
+ * (ou seja, quando os dados já estão gravados).
+ */
+export function withStore<T>(
+	storeName: string,
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => T | Promise<T>,
+): Promise<T> {
+	return withTransaction([storeName], mode, (tx) => run(tx.objectStore(storeName)));
+}
+
+// Como withStore, para gravar em vários stores de uma vez (tudo ou nada)
+export async function withTransaction<T>(
+	storeNames: string[],
+	mode: IDBTransactionMode,
+	run: (tx: IDBTransaction) => T | Promise<T>,
+): Promise<T> {
+	const db = await openDatabase();
+	const tx = db.transaction(storeNames, mode);
+	const done = new Promise<void>((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	});
+	const result = await run(tx);
+	await done;
+	return result;
+}
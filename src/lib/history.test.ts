@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from "vitest";
+import { diagnosis, historyItem, segment } from "../test/fixtures";
+import { HISTORY_STORE, LEGACY_HISTORY_KEY, requestToPromise, withStore } from "./db";
+import {
+	clearHistory,
+	deleteHistoryItems,
+	getHistoryItem,
+	HistoryStorageError,
+	historyErrorMessage,
+	loadHistory,
+	loadTrash,
+	purgeExpiredTrash,
+	queryHistory,
+	resolveHistorySegment,
+	restoreHistoryItems,
+	saveHistoryItem,
+} from "./history";
+import { ResponseValidationError } from "./validation";
+import { createVault } from "./vault";
+
+describe("history", () => {
+	it("lista as consultas da mais recente para a mais antiga", async () => {
+		await saveHistoryItem(historyItem({ id: "a", timestamp: 1000 }));
+		await saveHistoryItem(historyItem({ id: "c", timestamp: 3000 }));
+		await saveHistoryItem(historyItem({ id: "b", timestamp: 2000 }));
+
+		expect((await loadHistory()).map((item) => item.id)).toEqual(["c", "b", "a"]);
+	});
+
+	it("substitui a consulta salva de novo com o mesmo id", async () => {
+		await saveHistoryItem(historyItem({ id: "a", patientName: "Ana" }));
+		await saveHistoryItem(historyItem({ id: "a", patientName: "Ana Souza" }));
+
+		const items = await loadHistory();
+		expect(items).toHaveLength(1);
+		expect(items[0].patientName).toBe("Ana Souza");
+	});
+
+	it("avisa os outros componentes ao salvar e ao limpar", async () => {
+		const listener = vi.fn();
+		window.addEventListener("history-updated", listener);
+		await saveHistoryItem(historyItem());
+		await clearHistory();
+		window.removeEventListener("history-updated", listener);
+
+		expect(listener).toHaveBeenCalledTimes(2);
+		expect(await loadHistory()).toEqual([]);
+	});
+
+	it("move a consulta excluída para a lixeira e a restaura", async () => {
+		await saveHistoryItem(historyItem({ id: "a", timestamp: 1000 }));
+		await saveHistoryItem(historyItem({ id: "b", timestamp: 2000 }));
+		const listener = vi.fn();
+		window.addEventListener("history-updated", listener);
+
+		const [deleted] = await deleteHistoryItems(["a"]);
+		expect((await loadHistory()).map((item) => item.id)).toEqual(["b"]);
+		expect(await loadTrash()).toEqual([deleted]);
+
+		await restoreHistoryItems(["a"]);
+		window.removeEventListener("history-updated", listener);
+
+		expect((await loadHistory()).map((item) => item.id)).toEqual(["b", "a"]);
+		expect(await loadTrash()).toEqual([]);
+		expect((await getHistoryItem("a"))?.deletedAt).toBeUndefined();
+		expect(listener.mock.calls.map(([event]) => event.detail.type)).toEqual(["deleted", "saved"]);
+		expect(listener.mock.calls[0][0].detail.items[0]).toMatchObject({ id: "a", deletedAt: expect.any(Number) });
+	});
+
+	it("limpar move tudo para a lixeira", async () => {
+		await saveHistoryItem(historyItem({ id: "a" }));
+		await saveHistoryItem(historyItem({ id: "b" }));
+
+		expect(await clearHistory()).toHaveLength(2);
+		expect(await loadHistory()).toEqual([]);
+		expect(await loadTrash()).toHaveLength(2);
+	});
+
+	it("apaga de vez o que passou do prazo da lixeira", async () => {
+		const day = 24 * 60 * 60 * 1000;
+		await saveHistoryItem(historyItem({ id: "old", deletedAt: 1000 }));
+		await saveHistoryItem(historyItem({ id: "recent", deletedAt: 1000 + 6 * day }));
+		await saveHistoryItem(historyItem({ id: "kept" }));
+
+		expect(await purgeExpiredTrash(7, 1000 + 7 * day)).toEqual(["old"]);
+		expect(await getHistoryItem("old")).toBeUndefined();
+		expect((await loadTrash()).map((item) => item.id)).toEqual(["recent"]);
+		expect(await loadHistory()).toHaveLength(1);
+	});
+
+	it("não salva diagnóstico incompleto", async () => {
+		const item = historyItem({ result: { ...diagnosis(), diagnosis: "" } });
+
+		await expect(saveHistoryItem(item)).rejects.toThrow(ResponseValidationError);
+		expect(await loadHistory()).toEqual([]);
+	});
+
+	it("importa o histórico do localStorage na primeira abertura", async () => {
+		const { segments: _segments, ...legacy } = historyItem({ id: "old", timestamp: 1000 });
+		localStorage.setItem(
+			LEGACY_HISTORY_KEY,
+			JSON.stringify([
+				{ ...legacy, transcript: "Médico: Bom dia\nPaciente: Estou com dor" },
+				historyItem({ id: "new", timestamp: 2000 }),
+			]),
+		);
+
+		const items = await loadHistory();
+		expect(items.map((item) => item.id)).toEqual(["new", "old"]);
+		expect(items[1].segments.map((s) => [s.speaker, s.text])).toEqual([
+			["doctor", "Bom dia"],
+			["patient", "Estou com dor"],
+		]);
+		expect(localStorage.getItem(LEGACY_HISTORY_KEY)).toBeNull();
+	});
+
+	it("busca por paciente e idioma pelos índices, com e sem senha", async () => {
+		await saveHistoryItem(historyItem({ id: "ana-1", patientName: "Ana", timestamp: 1000 }));
+		await saveHistoryItem(historyItem({ id: "ana-2", patientName: "Ana", language: "en", timestamp: 2000 }));
+		await saveHistoryItem(historyItem({ id: "bruno", patientName: "Bruno", timestamp: 3000 }));
+		await deleteHistoryItems(["ana-1"]);
+
+		const indexes = await withStore(HISTORY_STORE, "readonly", (store) => Array.from(store.indexNames));
+		expect(indexes.sort()).toEqual(["language", "patientName", "timestamp"]);
+		expect((await queryHistory("patientName", "Ana")).map((item) => item.id)).toEqual(["ana-2"]);
+		expect((await queryHistory("language", "pt")).map((item) => item.id)).toEqual(["bruno"]);
+
+		await createVault("senha-segura");
+		expect((await queryHistory("patientName", "Ana")).map((item) => item.id)).toEqual(["ana-2"]);
+		expect((await queryHistory("language", "en")).map((item) => item.id)).toEqual(["ana-2"]);
+	});
+
+	it("completa e regrava diagnósticos salvos sem algum campo", async () => {
+		const item = historyItem({ id: "partial" });
+		await withStore(HISTORY_STORE, "readwrite", (store) => {
+			store.put({ ...item, result: { diagnosis: "Gripe", language: "pt" } });
+		});
+
+		const expected = { diagnosis: "Gripe", conditions: [], exams: [], medications: [] };
+		expect((await loadHistory())[0].result).toMatchObject(expected);
+		const stored = await withStore(HISTORY_STORE, "readonly", (store) =>
+			requestToPromise(store.get("partial")),
+		);
+		expect(stored.result).toMatchObject(expected);
+	});
+
+	it("troca o texto provisório quando a fila transcreve o áudio", async () => {
+		const pending = segment({ id: "p1", text: "⏳ aguardando", pendingTranscription: true });
+		await saveHistoryItem(historyItem({ id: "c1", segments: [pending] }));
+
+		await resolveHistorySegment("c1", "p1", "Texto recuperado");
+
+		expect((await getHistoryItem("c1"))?.segments[0]).toMatchObject({
+			text: "Texto recuperado",
+			pendingTranscription: false,
+		});
+	});
+
+	it("informa quando falta espaço em vez de falhar em silêncio", async () => {
+		vi.spyOn(IDBObjectStore.prototype, "put").mockImplementation(() => {
+			throw new DOMException("quota", "QuotaExceededError");
+		});
+
+		const error = await saveHistoryItem(historyItem()).catch((e) => e);
+		expect(error).toBeInstanceOf(HistoryStorageError);
+		expect(error.kind).toBe("quota");
+		expect(historyErrorMessage(error, "pt")).toMatch(/Sem espaço no navegador/);
+	});
+});
@@ -1,18 +1,286 @@
-const KEY = 'mednote-history-v1';
+import { HISTORY_STORE, requestToPromise, withStore } from './db';
+import { parseTranscript, resolvePendingSegment } from './transcript';
+import type { DiagnosisResponse, HistoryItem, TranscriptSegment } from './types';
+import { coerceDiagnosis, validateDiagnosis } from './validation';
+import { openRecords, putSealedRecords, VaultError, vaultStatus } from './vault';
 
-export function loadHistory() {
-  try { return JSON.parse(localStorage.getItem(KEY) || '[]'); }
-  catch { return []; }
+// quota: sem espaço no navegador; unavailable: IndexedDB bloqueado (ex.: modo privado);
+// locked: histórico com senha e cofre bloqueado
+export type HistoryStorageErrorKind = 'quota' | 'unavailable' | 'locked' | 'failed';
+
+/**
+ * Falha ao ler ou gravar o histórico. Nunca é engolida: quem chama mostra a
+ * mensagem (historyErrorMessage) para a consulta não se perder em silêncio.
+ */
+export class HistoryStorageError extends Error {
+  readonly kind: HistoryStorageErrorKind;
+
+  constructor(kind: HistoryStorageErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'HistoryStorageError';
+    this.kind = kind;
+  }
+}
+
+// Também usada pelo cadastro de pacientes, gravado no mesmo banco
+export function toStorageError(error: unknown): HistoryStorageError {
+  if (error instanceof HistoryStorageError) return error;
+  if (error instanceof VaultError && error.kind === 'locked') {
+    return new HistoryStorageError('locked', error.message, { cause: error });
+  }
+  const name = error instanceof DOMException ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+  if (name === 'QuotaExceededError') return new HistoryStorageError('quota', message, { cause: error });
+  if (name === 'InvalidStateError' || name === 'SecurityError' || typeof indexedDB === 'undefined') {
+    return new HistoryStorageError('unavailable', message, { cause: error });
+  }
+  return new HistoryStorageError('failed', message, { cause: error });
+}
+
+// Executa no store do histórico convertendo falhas em HistoryStorageError
+async function historyStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => T | Promise<T>,
+): Promise<T> {
+  try {
+    return await withStore(HISTORY_STORE, mode, run);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+// Grava as consultas (cifradas quando o histórico tem senha)
+async function putItems(items: HistoryItem[]) {
+  try {
+    await putSealedRecords(HISTORY_STORE, items);
+  } catch (error) {
+    throw toStorageError(error);
+  }
 }
 
-export function saveHistoryItem(item: any) {
-  const arr = loadHistory();
-  arr.unshift(item); 
-  localStorage.setItem(KEY, JSON.stringify(arr));
-  window.dispatchEvent(new Event('history-updated')); 
+/**
+ * Consulta como está no banco: entradas antigas guardavam a transcrição como
+ * texto com prefixos (`transcript`) e diagnósticos que não passam na validação.
+ */
+type StoredHistoryItem = Omit<HistoryItem, 'segments' | 'result' | 'language'> & {
+  segments?: TranscriptSegment[];
+  transcript?: unknown;
+  result?: unknown;
+  language?: unknown;
+};
+
+// Consultas ilegíveis (cifradas com outra chave) ficam de fora da lista
+async function openItems(records: unknown[]): Promise<StoredHistoryItem[]> {
+  try {
+    return await openRecords<StoredHistoryItem>(records);
+  } catch (error) {
+    throw toStorageError(error);
+  }
 }
 
-export function clearHistory() {
-  localStorage.removeItem(KEY);
-  window.dispatchEvent(new Event('history-updated'));
+// O que mudou no histórico, para a lista se atualizar sem recarregar tudo
+export type HistoryUpdatedDetail =
+  // Gravadas ou atualizadas; `source` marca as que só voltaram da lixeira, mudaram de
+  // fixação ou vieram de um backup
+  | { type: 'saved'; items: HistoryItem[]; source?: 'restore' | 'pin' | 'import' }
+  | { type: 'deleted'; items: HistoryItem[] } // Movidas para a lixeira (com deletedAt)
+  | { type: 'purged'; ids: string[] }; // Apagadas de vez
+
+function notifyUpdated(detail: HistoryUpdatedDetail) {
+  window.dispatchEvent(new CustomEvent<HistoryUpdatedDetail>('history-updated', { detail }));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Leva a consulta gravada ao formato atual; `migrated` pede que seja regravada
+function migrateItem(stored: StoredHistoryItem): { item: HistoryItem; migrated: boolean } {
+  const { segments, transcript, result, language: storedLanguage, ...rest } = stored;
+  const language = storedLanguage === 'en' ? 'en' : 'pt';
+  let migrated = language !== storedLanguage;
+
+  let itemSegments: TranscriptSegment[];
+  if (Array.isArray(segments)) {
+    itemSegments = segments;
+  } else {
+    itemSegments = parseTranscript(typeof transcript === 'string' ? transcript : '', 'mic');
+    migrated = true;
+  }
+
+  // Diagnósticos incompletos salvos antes da validação quebravam a exibição
+  let diagnosis: DiagnosisResponse;
+  try {
+    diagnosis = validateDiagnosis(result, language);
+  } catch {
+    diagnosis = coerceDiagnosis(result, language);
+    if (JSON.stringify(diagnosis) !== JSON.stringify(result)) migrated = true;
+  }
+  return { item: { ...rest, language, segments: itemSegments, result: diagnosis }, migrated };
+}
+
+// Todas as consultas gravadas, inclusive as da lixeira, da mais recente para a mais antiga
+async function loadAll(): Promise<HistoryItem[]> {
+  const raw = await historyStore('readonly', (store) =>
+    requestToPromise(store.index('timestamp').getAll()),
+  );
+  const results = (await openItems(raw)).reverse().map(migrateItem);
+
+  const migrated = results.filter((r) => r.migrated).map((r) => r.item);
+  if (migrated.length > 0) await putItems(migrated);
+  return results.map((r) => r.item);
+}
+
+// Consultas da mais recente para a mais antiga
+export async function loadHistory(): Promise<HistoryItem[]> {
+  return (await loadAll()).filter((item) => item.deletedAt === undefined);
+}
+
+// Lixeira, da exclusão mais recente para a mais antiga
+export async function loadTrash(): Promise<HistoryItem[]> {
+  const items = (await loadAll()).filter((item) => item.deletedAt !== undefined);
+  return items.sort((a, b) => b.deletedAt! - a.deletedAt!);
+}
+
+/**
+ * Consultas (fora da lixeira) de um paciente, pelo nome gravado, ou num idioma,
+ * da mais recente para a mais antiga. Sem senha, lê só o necessário pelos
+ * índices do store; com senha, nome e idioma só existem cifrados e o filtro
+ * é feito depois de decifrar tudo.
+ */
+export async function queryHistory(
+  field: 'patientName' | 'language',
+  value: string,
+): Promise<HistoryItem[]> {
+  if ((await vaultStatus()) !== 'none') {
+    return (await loadHistory()).filter((item) => item[field] === value);
+  }
+  const raw = await historyStore('readonly', (store) =>
+    requestToPromise(store.index(field).getAll(value)),
+  );
+  return (await openItems(raw))
+    .map((record) => migrateItem(record).item)
+    .filter((item) => item.deletedAt === undefined)
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function getHistoryItem(id: string): Promise<HistoryItem | undefined> {
+  const raw = await historyStore('readonly', (store) => requestToPromise(store.get(id)));
+  if (!raw) return undefined;
+  const [item] = await openItems([raw]);
+  return item && migrateItem(item).item;
+}
+
+/**
+ * Grava uma consulta (o mesmo id substitui a anterior). Lança
+ * ResponseValidationError para diagnóstico incompleto e HistoryStorageError
+ * quando o navegador não grava.
+ */
+export async function saveHistoryItem(item: HistoryItem) {
+  validateDiagnosis(item.result, item.language);
+  await putItems([item]);
+  notifyUpdated({ type: 'saved', items: [item] });
+}
+
+// Grava várias consultas numa só transação (importação de backup)
+export async function saveHistoryItems(items: HistoryItem[]) {
+  if (items.length === 0) return;
+  for (const item of items) validateDiagnosis(item.result, item.language);
+  await putItems(items);
+  notifyUpdated({ type: 'saved', items, source: 'import' });
+}
+
+// Troca o texto provisório de um segmento quando a fila offline o transcreve
+export async function resolveHistorySegment(itemId: string, segmentId: string, text: string) {
+  const item = await getHistoryItem(itemId);
+  if (!item || !item.segments.some((s) => s.id === segmentId)) return;
+  item.segments = resolvePendingSegment(item.segments, segmentId, text);
+  await putItems([item]);
+  notifyUpdated({ type: item.deletedAt === undefined ? 'saved' : 'deleted', items: [item] });
+}
+
+// Grava as consultas e devolve as que existiam (ids desconhecidos são ignorados)
+async function updateItems(
+  ids: string[],
+  change: (item: HistoryItem) => HistoryItem,
+): Promise<HistoryItem[]> {
+  const current = await Promise.all(ids.map((id) => getHistoryItem(id)));
+  const updated = current.filter((item): item is HistoryItem => item !== undefined).map(change);
+  if (updated.length > 0) await putItems(updated);
+  return updated;
+}
+
+/**
+ * Move consultas para a lixeira. Continuam gravadas até restoreHistoryItems ou
+ * até passarem do prazo da lixeira (purgeExpiredTrash).
+ */
+export async function deleteHistoryItems(ids: string[]): Promise<HistoryItem[]> {
+  const deletedAt = Date.now();
+  const deleted = await updateItems(ids, (item) => ({ ...item, deletedAt }));
+  if (deleted.length > 0) notifyUpdated({ type: 'deleted', items: deleted });
+  return deleted;
+}
+
+export async function restoreHistoryItems(ids: string[]): Promise<HistoryItem[]> {
+  const restored = await updateItems(ids, ({ deletedAt: _, ...item }) => item);
+  if (restored.length > 0) notifyUpdated({ type: 'saved', items: restored, source: 'restore' });
+  return restored;
+}
+
+// Consultas fixadas ficam fora da política de retenção
+export async function setHistoryItemPinned(id: string, pinned: boolean) {
+  const updated = await updateItems([id], ({ pinned: _, ...item }) => (pinned ? { ...item, pinned } : item));
+  if (updated.length > 0) notifyUpdated({ type: 'saved', items: updated, source: 'pin' });
+}
+
+// Move todo o histórico para a lixeira (pode ser desfeito)
+export async function clearHistory(): Promise<HistoryItem[]> {
+  const items = await loadHistory();
+  return deleteHistoryItems(items.map((item) => item.id));
+}
+
+// Apaga de vez, sem passar pela lixeira
+export async function purgeHistoryItems(ids: string[]) {
+  if (ids.length === 0) return;
+  await historyStore('readwrite', (store) => {
+    for (const id of ids) store.delete(id);
+  });
+  notifyUpdated({ type: 'purged', ids });
+}
+
+export async function emptyTrash() {
+  const trash = await loadTrash();
+  await purgeHistoryItems(trash.map((item) => item.id));
+}
+
+// Apaga o que está na lixeira há mais de `retentionDays` dias
+export async function purgeExpiredTrash(retentionDays: number, now = Date.now()): Promise<string[]> {
+  const cutoff = now - retentionDays * DAY_MS;
+  const expired = (await loadTrash()).filter((item) => item.deletedAt! <= cutoff).map((item) => item.id);
+  await purgeHistoryItems(expired);
+  return expired;
+}
+
+// Espaço usado e disponível, quando o navegador informa
+export async function historyStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+const errorMessages = {
+  pt: {
+    quota: 'Sem espaço no navegador para salvar a consulta. Exporte ou apague consultas antigas.',
+    unavailable: 'O armazenamento local está bloqueado neste navegador (modo privado?).',
+    locked: 'O histórico está bloqueado. Desbloqueie com a senha.',
+    failed: 'Não foi possível acessar o histórico local.',
+  },
+  en: {
+    quota: 'Not enough browser storage to save the consultation. Export or delete old consultations.',
+    unavailable: 'Local storage is blocked in this browser (private mode?).',
+    locked: 'The history is locked. Unlock it with the passphrase.',
+    failed: 'Could not access the local history.',
+  },
+};
+
+export function historyErrorMessage(error: unknown, language: 'pt' | 'en') {
+  return errorMessages[language][toStorageError(error).kind];
 }
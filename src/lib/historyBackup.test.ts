@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { diagnosis, historyItem } from "../test/fixtures";
+import { saveHistoryItem } from "./history";
+import {
+	BACKUP_FORMAT,
+	exportHistoryCsv,
+	exportHistoryJson,
+	itemsToImport,
+	parseHistoryBackup,
+	planHistoryImport,
+} from "./historyBackup";
+
+const backupOf = (items: unknown[], version = 1) =>
+	JSON.stringify({ format: BACKUP_FORMAT, version, exportedAt: "2025-11-03T10:00:00.000Z", items });
+
+describe("historyBackup", () => {
+	it("exporta e lê de volta as mesmas consultas, sem a marca da lixeira", () => {
+		const items = [historyItem({ id: "a" }), historyItem({ id: "b", deletedAt: 5 })];
+
+		const { items: parsed, invalid } = parseHistoryBackup(exportHistoryJson(items));
+
+		expect(invalid).toEqual([]);
+		expect(parsed).toEqual(items.map(({ deletedAt: _, ...item }) => item));
+	});
+
+	it("gera uma linha de CSV por consulta, protegendo vírgulas, aspas e fórmulas", () => {
+		const item = historyItem({
+			timestamp: Date.UTC(2025, 10, 3, 13),
+			patientName: '=HYPERLINK("x")',
+			result: diagnosis({ diagnosis: "Gripe, provável", medications: ["Dipirona", "Soro"] }),
+		});
+
+		const [header, row, end] = exportHistoryCsv([item]).replace(/^﻿/, "").split("\r\n");
+
+		expect(header).toBe("date,patient,language,diagnosis,conditions,exams,medications");
+		expect(row).toBe(
+			`2025-11-03T13:00:00.000Z,"'=HYPERLINK(""x"")",pt,"Gripe, provável",Resfriado comum,Hemograma,"Dipirona; Soro"`,
+		);
+		expect(end).toBe("");
+	});
+
+	it("recusa arquivos que não são backup ou de versão mais nova", () => {
+		expect(() => parseHistoryBackup("{")).toThrow("não é um JSON válido");
+		expect(() => parseHistoryBackup(JSON.stringify([historyItem()]))).toThrow("não é um backup");
+		expect(() => parseHistoryBackup(backupOf([], 99))).toThrow("Versão do backup não suportada");
+	});
+
+	it("lista as consultas inválidas e ids repetidos sem descartar o resto", () => {
+		const { items, invalid } = parseHistoryBackup(
+			backupOf([
+				historyItem({ id: "ok" }),
+				{ ...historyItem({ id: "sem-diagnostico" }), result: { language: "pt" } },
+				historyItem({ id: "ok" }),
+				"texto",
+			]),
+		);
+
+		expect(items.map((item) => item.id)).toEqual(["ok"]);
+		expect(invalid.map((entry) => entry.index)).toEqual([2, 3, 4]);
+		expect(invalid[0].issues).toContain("result.diagnosis: texto ausente");
+		expect(invalid[1].issues).toEqual(["id repetido no arquivo (ok)"]);
+	});
+
+	it("separa novas, repetidas e conflitantes comparando com o histórico", async () => {
+		const same = historyItem({ id: "same" });
+		const changed = historyItem({ id: "changed", patientName: "Ana" });
+		await saveHistoryItem(same);
+		await saveHistoryItem(changed);
+		const fresh = historyItem({ id: "fresh" });
+
+		const plan = await planHistoryImport(
+			backupOf([{ ...same }, { ...changed, patientName: "Ana Souza" }, fresh]),
+		);
+
+		expect(plan.added).toEqual([fresh]);
+		expect(plan.duplicates).toEqual(["same"]);
+		expect(plan.conflicts).toEqual([{ existing: changed, incoming: { ...changed, patientName: "Ana Souza" } }]);
+		expect(itemsToImport(plan, false).map((item) => item.id)).toEqual(["fresh"]);
+		expect(itemsToImport(plan, true).map((item) => item.id)).toEqual(["fresh", "changed"]);
+	});
+});
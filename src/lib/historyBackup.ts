@@ -0,0 +1,185 @@
+import { getHistoryItem } from "./history";
+import type { HistoryItem, SpeakerRole } from "./types";
+import { formatIssue, ResponseValidationError, validateDiagnosis } from "./validation";
+
+// Identifica o arquivo de backup; a versão muda se o formato dos itens mudar
+export const BACKUP_FORMAT = "mednote-history";
+export const BACKUP_VERSION = 1;
+
+export type HistoryBackup = {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	exportedAt: string; // ISO 8601
+	items: HistoryItem[];
+};
+
+// Resultado da leitura de um backup, antes de gravar qualquer coisa
+export type HistoryImportPlan = {
+	added: HistoryItem[]; // Ids que ainda não existem
+	duplicates: string[]; // Já existem com o mesmo conteúdo
+	conflicts: { incoming: HistoryItem; existing: HistoryItem }[]; // Mesmo id, conteúdo diferente
+	invalid: { index: number; issues: string[] }[]; // Posição no arquivo (a partir de 1)
+};
+
+const SPEAKERS: SpeakerRole[] = ["doctor", "patient", "other"];
+
+export function exportHistoryJson(items: HistoryItem[], now = new Date()): string {
+	const backup: HistoryBackup = {
+		format: BACKUP_FORMAT,
+		version: BACKUP_VERSION,
+		exportedAt: now.toISOString(),
+		// A lixeira não faz parte do backup
+		items: items.map(({ deletedAt: _, ...item }) => item),
+	};
+	return JSON.stringify(backup, null, 2);
+}
+
+const CSV_COLUMNS = ["date", "patient", "language", "diagnosis", "conditions", "exams", "medications"];
+
+function csvCell(value: string) {
+	// Planilhas executam células que começam com = + - @ como fórmula
+	const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+	return /[",\n\r;]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Uma linha por consulta, com as listas separadas por "; ". O BOM no início
+ * faz o Excel reconhecer os acentos (UTF-8).
+ */
+export function exportHistoryCsv(items: HistoryItem[]): string {
+	const rows = items.map((item) =>
+		[
+			new Date(item.timestamp).toISOString(),
+			item.patientName ?? "",
+			item.language,
+			item.result.diagnosis,
+			item.result.conditions.join("; "),
+			item.result.exams.join("; "),
+			item.result.medications.join("; "),
+		]
+			.map(csvCell)
+			.join(","),
+	);
+	return `\uFEFF${[CSV_COLUMNS.join(","), ...rows].join("\r\n")}\r\n`;
+}
+
+// Problemas de uma consulta do arquivo; vazio quando pode ser importada
+function itemIssues(value: unknown): string[] {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return ["não é um objeto"];
+	const item = value as Record<string, unknown>;
+	const issues: string[] = [];
+
+	if (typeof item.id !== "string" || !item.id) issues.push("id ausente");
+	if (typeof item.timestamp !== "number" || !Number.isFinite(item.timestamp)) {
+		issues.push("timestamp deve ser um número (ms)");
+	}
+	if (item.language !== "pt" && item.language !== "en") issues.push('language deve ser "pt" ou "en"');
+	if (item.patientName !== undefined && typeof item.patientName !== "string") {
+		issues.push("patientName deve ser texto");
+	}
+	if (item.patientId !== undefined && typeof item.patientId !== "string") {
+		issues.push("patientId deve ser texto");
+	}
+
+	if (!Array.isArray(item.segments)) {
+		issues.push("segments: lista ausente");
+	} else {
+		item.segments.forEach((segment, index) => {
+			const s = segment as Record<string, unknown> | null;
+			if (!s || typeof s.id !== "string" || typeof s.text !== "string" || !SPEAKERS.includes(s.speaker as SpeakerRole)) {
+				issues.push(`segments[${index}]: precisa de id, speaker e text`);
+			}
+		});
+	}
+
+	if (item.language === "pt" || item.language === "en") {
+		try {
+			validateDiagnosis(item.result, item.language, "backup");
+		} catch (error) {
+			if (!(error instanceof ResponseValidationError)) throw error;
+			issues.push(...error.issues.map((issue) => `result.${formatIssue(issue, "pt")}`));
+		}
+	}
+	return issues;
+}
+
+/**
+ * Lê um backup exportado por exportHistoryJson. Lança Error quando o arquivo
+ * inteiro não serve; consultas inválidas são listadas em `invalid`.
+ */
+export function parseHistoryBackup(text: string): { items: HistoryItem[]; invalid: HistoryImportPlan["invalid"] } {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error("O arquivo não é um JSON válido");
+	}
+
+	const backup = data as Partial<HistoryBackup> | null;
+	if (!backup || backup.format !== BACKUP_FORMAT || !Array.isArray(backup.items)) {
+		throw new Error("O arquivo não é um backup do histórico");
+	}
+	if (typeof backup.version !== "number" || backup.version > BACKUP_VERSION) {
+		throw new Error(`Versão do backup não suportada (${backup.version}); atualize o aplicativo`);
+	}
+
+	const items: HistoryItem[] = [];
+	const invalid: HistoryImportPlan["invalid"] = [];
+	const seen = new Set<string>();
+	backup.items.forEach((value, index) => {
+		const issues = itemIssues(value);
+		if (issues.length > 0) {
+			invalid.push({ index: index + 1, issues });
+			return;
+		}
+		const { deletedAt: _, ...item } = value as HistoryItem;
+		// Id repetido no próprio arquivo: vale a primeira ocorrência
+		if (seen.has(item.id)) {
+			invalid.push({ index: index + 1, issues: [`id repetido no arquivo (${item.id})`] });
+			return;
+		}
+		seen.add(item.id);
+		items.push(item);
+	});
+	return { items, invalid };
+}
+
+// Mesmo valor com as chaves dos objetos em ordem alfabética
+function sortKeys(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(sortKeys);
+	if (!value || typeof value !== "object") return value;
+	return Object.fromEntries(
+		Object.keys(value)
+			.sort()
+			.map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+	);
+}
+
+// Conteúdo comparável de uma consulta (ignora a ordem das chaves e a lixeira)
+function fingerprint({ deletedAt: _, ...item }: HistoryItem) {
+	return JSON.stringify(sortKeys(item));
+}
+
+/**
+ * Compara o backup com o histórico gravado, sem alterar nada. Consultas
+ * na lixeira também contam como existentes.
+ */
+export async function planHistoryImport(text: string): Promise<HistoryImportPlan> {
+	const { items, invalid } = parseHistoryBackup(text);
+	const plan: HistoryImportPlan = { added: [], duplicates: [], conflicts: [], invalid };
+
+	for (const incoming of items) {
+		const existing = await getHistoryItem(incoming.id);
+		if (!existing) plan.added.push(incoming);
+		else if (fingerprint(existing) === fingerprint(incoming)) plan.duplicates.push(incoming.id);
+		else plan.conflicts.push({ incoming, existing });
+	}
+	return plan;
+}
+
+// Consultas a gravar: as novas e, se pedido, a versão do arquivo nos conflitos
+export function itemsToImport(plan: HistoryImportPlan, replaceConflicts: boolean): HistoryItem[] {
+	return replaceConflicts
+		? [...plan.added, ...plan.conflicts.map((conflict) => conflict.incoming)]
+		: plan.added;
+}
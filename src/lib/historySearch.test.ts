@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { diagnosis, historyItem, segment } from "../test/fixtures";
+import {
+	distinctValues,
+	EMPTY_FILTERS,
+	filterHistory,
+	type HistoryFilters,
+	hasActiveFilters,
+	matchRanges,
+	searchTerms,
+} from "./historySearch";
+
+const filters = (overrides: Partial<HistoryFilters>): HistoryFilters => ({
+	...EMPTY_FILTERS,
+	...overrides,
+});
+
+const ids = (items: { id: string }[]) => items.map((item) => item.id);
+
+describe("historySearch", () => {
+	const items = [
+		historyItem({
+			id: "ana",
+			patientName: "Ana Souza",
+			timestamp: new Date(2025, 10, 3, 10).getTime(),
+			result: diagnosis({ diagnosis: "Cefaléia tensional", conditions: ["Enxaqueca"], medications: ["Paracetamol"] }),
+		}),
+		historyItem({
+			id: "bruno",
+			patientName: "Bruno",
+			timestamp: new Date(2025, 10, 5, 18).getTime(),
+			segments: [segment({ speaker: "patient", text: "Tenho dor de garganta." })],
+		}),
+		historyItem({
+			id: "carol",
+			language: "en",
+			patientName: "Carol",
+			timestamp: new Date(2025, 10, 8, 9).getTime(),
+			result: diagnosis({ language: "en", diagnosis: "Viral infection", medications: ["Ibuprofen", "Dipirona"] }),
+		}),
+	];
+
+	it("busca sem diferenciar acentos e maiúsculas", () => {
+		expect(ids(filterHistory(items, filters({ query: "CEFALEIA" })))).toEqual(["ana"]);
+		expect(ids(filterHistory(items, filters({ query: "souza" })))).toEqual(["ana"]);
+	});
+
+	it("busca na transcrição e exige todas as palavras", () => {
+		expect(ids(filterHistory(items, filters({ query: "garganta" })))).toEqual(["bruno"]);
+		expect(ids(filterHistory(items, filters({ query: "garganta ana" })))).toEqual([]);
+	});
+
+	it("filtra por período usando o dia local, com as duas datas inclusivas", () => {
+		expect(ids(filterHistory(items, filters({ from: "2025-11-05", to: "2025-11-08" })))).toEqual([
+			"bruno",
+			"carol",
+		]);
+		expect(ids(filterHistory(items, filters({ to: "2025-11-03" })))).toEqual(["ana"]);
+	});
+
+	it("filtra por idioma, condição e medicamento", () => {
+		expect(ids(filterHistory(items, filters({ language: "en" })))).toEqual(["carol"]);
+		expect(ids(filterHistory(items, filters({ condition: "Enxaqueca" })))).toEqual(["ana"]);
+		expect(ids(filterHistory(items, filters({ medication: "Dipirona" })))).toEqual(["bruno", "carol"]);
+	});
+
+	it("lista as opções de filtro sem repetição", () => {
+		expect(distinctValues(items, "medications")).toEqual(["Dipirona", "Ibuprofen", "Paracetamol"]);
+		expect(hasActiveFilters(EMPTY_FILTERS)).toBe(false);
+		expect(hasActiveFilters(filters({ query: "  febre " }))).toBe(true);
+	});
+
+	it("marca os trechos no texto original, mesmo com acentos", () => {
+		const text = "Cefaléia e febre; cefaleia de novo";
+		const ranges = matchRanges(text, searchTerms("cefaleia"));
+
+		expect(ranges.map(({ start, end }) => text.slice(start, end))).toEqual(["Cefaléia", "cefaleia"]);
+	});
+
+	it("junta trechos sobrepostos", () => {
+		expect(matchRanges("febre alta", ["feb", "bre"])).toEqual([{ start: 0, end: 5 }]);
+	});
+});
@@ -0,0 +1,128 @@
+import type { HistoryItem } from "./types";
+
+export type HistoryFilters = {
+	query: string; // Palavras buscadas na transcrição, no paciente e no diagnóstico
+	from: string; // Data local YYYY-MM-DD (inclusive); vazio = sem limite
+	to: string;
+	language: "" | "pt" | "en";
+	condition: string; // Valor exato de result.conditions; vazio = todas
+	medication: string;
+};
+
+export const EMPTY_FILTERS: HistoryFilters = {
+	query: "",
+	from: "",
+	to: "",
+	language: "",
+	condition: "",
+	medication: "",
+};
+
+export type TextRange = { start: number; end: number };
+
+export function toDateKey(ts: number) {
+	const d = new Date(ts);
+	const y = d.getFullYear();
+	const m = String(d.getMonth() + 1).padStart(2, "0");
+	const day = String(d.getDate()).padStart(2, "0");
+	return `${y}-${m}-${day}`; // chave local YYYY-MM-DD
+}
+
+// Sem acentos e em minúsculas: "Cefaléia" encontra "cefaleia"
+function foldChar(char: string) {
+	return char.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+export function foldText(text: string) {
+	let folded = "";
+	for (const char of text) folded += foldChar(char);
+	return folded;
+}
+
+export function searchTerms(query: string) {
+	return foldText(query).split(/\s+/).filter(Boolean);
+}
+
+export function hasActiveFilters(filters: HistoryFilters) {
+	return Object.values(filters).some((value) => value.trim() !== "");
+}
+
+// Todo o texto pesquisável de uma consulta
+function searchableText(item: HistoryItem) {
+	const { result } = item;
+	return foldText(
+		[
+			item.patientName ?? "",
+			...item.segments.map((segment) => segment.text),
+			result.diagnosis,
+			...result.conditions,
+			...result.exams,
+			...result.medications,
+			result.explanation ?? "",
+		].join("\n"),
+	);
+}
+
+/**
+ * Consultas que atendem a todos os filtros. Na busca, cada palavra precisa
+ * aparecer em algum campo (sem diferenciar acentos e maiúsculas).
+ */
+export function filterHistory(items: HistoryItem[], filters: HistoryFilters): HistoryItem[] {
+	const terms = searchTerms(filters.query);
+	return items.filter((item) => {
+		const day = toDateKey(item.timestamp);
+		if (filters.from && day < filters.from) return false;
+		if (filters.to && day > filters.to) return false;
+		if (filters.language && item.language !== filters.language) return false;
+		if (filters.condition && !item.result.conditions.includes(filters.condition)) return false;
+		if (filters.medication && !item.result.medications.includes(filters.medication)) return false;
+		if (terms.length === 0) return true;
+		const text = searchableText(item);
+		return terms.every((term) => text.includes(term));
+	});
+}
+
+// Valores distintos de um campo de lista, para as opções dos filtros
+export function distinctValues(items: HistoryItem[], field: "conditions" | "medications") {
+	const values = new Set<string>();
+	for (const item of items) for (const value of item.result[field]) values.add(value);
+	return [...values].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Trechos de `text` que correspondem às palavras buscadas, em ordem e sem
+ * sobreposição. Os índices são do texto original (com acentos).
+ */
+export function matchRanges(text: string, terms: string[]): TextRange[] {
+	if (terms.length === 0) return [];
+
+	// Texto dobrado com o índice original de cada caractere
+	let folded = "";
+	const origin: number[] = [];
+	let index = 0;
+	for (const char of text) {
+		const foldedChar = foldChar(char);
+		for (let i = 0; i < foldedChar.length; i++) origin.push(index);
+		folded += foldedChar;
+		index += char.length;
+	}
+	origin.push(text.length);
+
+	const ranges: TextRange[] = [];
+	for (const term of terms) {
+		let from = folded.indexOf(term);
+		while (from !== -1) {
+			ranges.push({ start: origin[from], end: origin[from + term.length] });
+			from = folded.indexOf(term, from + term.length);
+		}
+	}
+
+	ranges.sort((a, b) => a.start - b.start);
+	const merged: TextRange[] = [];
+	for (const range of ranges) {
+		const last = merged[merged.length - 1];
+		if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+		else merged.push({ ...range });
+	}
+	return merged;
+}
@@ -0,0 +1,234 @@
+import { loadSettings } from "./settings";
+import type { DiagnosisResponse } from "./types";
+
+// Backend simulado no navegador, para desenvolver e demonstrar sem o servidor.
+// Ativado por VITE_MOCK_API=true ou nas configurações.
+
+export type MockFailureKind = "network" | "timeout" | "server" | "malformed";
+
+// Pausa entre os pedaços do diagnóstico em streaming
+const STREAM_CHUNK_DELAY_MS = 60;
+const STREAM_CHUNK_SIZE = 24;
+
+export function isMockEnvEnabled() {
+	return import.meta.env.VITE_MOCK_API === "true";
+}
+
+export function isMockBackendEnabled() {
+	return isMockEnvEnabled() || loadSettings().mockBackend;
+}
+
+type Language = "pt" | "en";
+
+const cannedDiagnoses: Record<Language, { keywords: string[]; result: Omit<DiagnosisResponse, "language"> }[]> = {
+	pt: [
+		{
+			keywords: ["febre", "tosse", "garganta"],
+			result: {
+				diagnosis: "Infecção de vias aéreas superiores, provavelmente viral.",
+				conditions: ["Resfriado comum", "Faringite viral", "Influenza"],
+				exams: ["Hemograma completo", "Teste rápido para influenza"],
+				medications: ["Dipirona 500 mg de 6/6h se febre", "Soro fisiológico nasal"],
+				explanation:
+					"Febre baixa com tosse e dor de garganta há poucos dias, sem sinais de gravidade, sugere quadro viral autolimitado.",
+			},
+		},
+		{
+			keywords: ["cabeça", "enxaqueca", "luz"],
+			result: {
+				diagnosis: "Cefaleia primária com características de enxaqueca.",
+				conditions: ["Enxaqueca sem aura", "Cefaleia tensional"],
+				exams: ["Avaliação clínica neurológica", "Diário de cefaleia"],
+				medications: ["Ibuprofeno 400 mg no início da crise", "Metoclopramida 10 mg se náusea"],
+				explanation:
+					"Dor pulsátil unilateral com fotofobia e piora aos esforços é típica de enxaqueca.",
+			},
+		},
+	],
+	en: [
+		{
+			keywords: ["fever", "cough", "throat"],
+			result: {
+				diagnosis: "Upper respiratory tract infection, most likely viral.",
+				conditions: ["Common cold", "Viral pharyngitis", "Influenza"],
+				exams: ["Complete blood count", "Rapid influenza test"],
+				medications: ["Acetaminophen 500 mg every 6h if fever", "Saline nasal spray"],
+				explanation:
+					"Low-grade fever with cough and sore throat for a few days, without red flags, suggests a self-limited viral illness.",
+			},
+		},
+		{
+			keywords: ["head", "migraine", "light"],
+			result: {
+				diagnosis: "Primary headache with migraine features.",
+				conditions: ["Migraine without aura", "Tension-type headache"],
+				exams: ["Neurological examination", "Headache diary"],
+				medications: ["Ibuprofen 400 mg at onset", "Metoclopramide 10 mg if nausea"],
+				explanation:
+					"Unilateral throbbing pain with photophobia that worsens with exertion is typical of migraine.",
+			},
+		},
+	],
+};
+
+const genericDiagnosis: Record<Language, Omit<DiagnosisResponse, "language">> = {
+	pt: {
+		diagnosis: "Quadro inespecífico; são necessárias mais informações clínicas.",
+		conditions: ["Síndrome a esclarecer"],
+		exams: ["Anamnese complementar", "Exame físico completo"],
+		medications: ["Sintomáticos conforme necessidade"],
+		explanation: "A transcrição não traz sintomas suficientes para uma hipótese principal.",
+	},
+	en: {
+		diagnosis: "Nonspecific presentation; more clinical information is needed.",
+		conditions: ["Condition to be clarified"],
+		exams: ["Further history taking", "Complete physical examination"],
+		medications: ["Symptomatic treatment as needed"],
+		explanation: "The transcript does not contain enough symptoms for a main hypothesis.",
+	},
+};
+
+const cannedTranscripts: Record<Language, string[]> = {
+	pt: [
+		"Estou com febre e tosse há três dias.",
+		"A dor de garganta piora quando eu engulo.",
+		"Tenho tomado bastante água e descansado.",
+		"Quando começou a dor de cabeça?",
+	],
+	en: [
+		"I have had a fever and a cough for three days.",
+		"My sore throat gets worse when I swallow.",
+		"I have been drinking plenty of water and resting.",
+		"When did the headache start?",
+	],
+};
+
+// Escolha estável: a mesma entrada sempre gera a mesma resposta
+function pick<T>(options: T[], seed: number) {
+	return options[Math.abs(seed) % options.length];
+}
+
+function mockDiagnosis(transcript: string, language: Language): DiagnosisResponse {
+	const lower = transcript.toLowerCase();
+	const match = cannedDiagnoses[language].find(({ keywords }) =>
+		keywords.some((keyword) => lower.includes(keyword)),
+	);
+	return { ...(match?.result ?? genericDiagnosis[language]), language };
+}
+
+function mockChat(message: string, diagnosis: string, language: Language) {
+	return language === "pt"
+		? `(Simulado) Sobre "${message.trim()}": considerando a hipótese "${diagnosis}", reavalie o paciente em 48 horas ou antes se surgirem sinais de alarme.`
+		: `(Mock) About "${message.trim()}": given the working diagnosis "${diagnosis}", reassess the patient in 48 hours or sooner if red flags appear.`;
+}
+
+function abortError() {
+	return new DOMException("The operation was aborted.", "AbortError");
+}
+
+function sleep(ms: number, signal?: AbortSignal | null) {
+	return new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) return reject(abortError());
+		const timer = setTimeout(resolve, ms);
+		signal?.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timer);
+				reject(abortError());
+			},
+			{ once: true },
+		);
+	});
+}
+
+function jsonResponse(body: unknown, status = 200) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+// Diagnóstico em pedaços no formato SSE, terminando com event: done
+function streamResponse(result: DiagnosisResponse, signal?: AbortSignal | null) {
+	const json = JSON.stringify(result);
+	const encoder = new TextEncoder();
+	const body = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			try {
+				for (let i = 0; i < json.length; i += STREAM_CHUNK_SIZE) {
+					await sleep(STREAM_CHUNK_DELAY_MS, signal);
+					controller.enqueue(encoder.encode(`data: ${json.slice(i, i + STREAM_CHUNK_SIZE)}\n\n`));
+				}
+				controller.enqueue(encoder.encode("event: done\ndata: [DONE]\n\n"));
+				controller.close();
+			} catch (error) {
+				controller.error(error);
+			}
+		},
+	});
+	return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+async function readBody(init?: RequestInit): Promise<Record<string, unknown>> {
+	if (init?.body instanceof FormData) {
+		const audio = init.body.get("audio");
+		return {
+			language: init.body.get("language"),
+			audioSize: audio instanceof Blob ? audio.size : 0,
+		};
+	}
+	return typeof init?.body === "string" ? JSON.parse(init.body) : {};
+}
+
+/**
+ * Substituto de fetch para os endpoints do backend. Aplica a latência e a
+ * injeção de falhas configuradas antes de responder.
+ */
+export async function mockFetch(url: string, init?: RequestInit): Promise<Response> {
+	const { mockLatencyMs, mockFailureRate, mockFailureKind } = loadSettings();
+	const signal = init?.signal;
+	const path = new URL(url, window.location.origin).pathname;
+
+	await sleep(mockLatencyMs, signal);
+
+	if (mockFailureRate > 0 && Math.random() < mockFailureRate) {
+		switch (mockFailureKind) {
+			case "network":
+				throw new TypeError("Failed to fetch (mock)");
+			case "timeout":
+				// Nunca responde: o tempo limite do cliente decide
+				await new Promise((_, reject) =>
+					signal?.addEventListener("abort", () => reject(abortError()), { once: true }),
+				);
+				break;
+			case "server":
+				return new Response("Mock: erro interno simulado", { status: 500 });
+			case "malformed":
+				return jsonResponse({ unexpected: true });
+		}
+	}
+
+	const body = await readBody(init);
+	const language: Language = body.language === "en" ? "en" : "pt";
+
+	switch (path) {
+		case "/api/transcribe/audio":
+			return jsonResponse({
+				transcript: pick(cannedTranscripts[language], Number(body.audioSize) || 0),
+			});
+		case "/api/transcribe/text":
+			return jsonResponse({ transcript: String(body.text ?? "") });
+		case "/api/diagnose":
+			return jsonResponse(mockDiagnosis(String(body.transcript ?? ""), language));
+		case "/api/diagnose/stream":
+			return streamResponse(mockDiagnosis(String(body.transcript ?? ""), language), signal);
+		case "/api/chat": {
+			const context = (body.context ?? {}) as { diagnosis?: string };
+			return jsonResponse({
+				response: mockChat(String(body.message ?? ""), context.diagnosis ?? "", language),
+			});
+		}
+		default:
+			return new Response("Mock: endpoint desconhecido", { status: 404 });
+	}
+}
@@ -0,0 +1,108 @@
+export type PartialJson = {
+	value: unknown; // undefined enquanto nada utilizável chegou
+	completeKeys: string[]; // Chaves do objeto raiz cujo valor já terminou
+	complete: boolean; // O valor raiz foi fechado
+};
+
+/**
+ * Interpreta um JSON ainda incompleto (ex.: chegando por streaming), fechando
+ * strings, arrays e objetos abertos. Valores pela metade (números, true/false,
+ * chaves sem valor) são descartados até chegarem inteiros; strings aparecem
+ * parcialmente para o texto ir surgindo aos poucos.
+ */
+export function parsePartialJson(text: string): PartialJson {
+	const begin = text.search(/[[{]/);
+	if (begin === -1) return { value: undefined, completeKeys: [], complete: false };
+
+	// Pilha de fechamentos; para objetos, se o próximo string é uma chave
+	const stack: { close: "}" | "]"; expectingKey: boolean }[] = [];
+	let inString = false;
+	let stringIsKey = false;
+	let escaped = false;
+	let stringStart = 0;
+	let rootKey: string | null = null;
+	const completeKeys: string[] = [];
+
+	// Último ponto em que o texto, fechado, forma um JSON válido
+	let safeEnd = begin;
+	let safeClosers = "";
+	const closers = () =>
+		stack
+			.map((frame) => frame.close)
+			.reverse()
+			.join("");
+	const markSafe = (end: number) => {
+		safeEnd = end;
+		safeClosers = closers();
+	};
+
+	let end = begin;
+	for (; end < text.length; end++) {
+		const char = text[end];
+
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (char === "\\") escaped = true;
+			else if (char === '"') {
+				inString = false;
+				if (stringIsKey) {
+					if (stack.length === 1) rootKey = JSON.parse(text.slice(stringStart, end + 1));
+				} else {
+					markSafe(end + 1);
+				}
+			}
+			continue;
+		}
+
+		const frame = stack[stack.length - 1];
+		if (char === '"') {
+			inString = true;
+			stringStart = end;
+			stringIsKey = frame?.close === "}" && frame.expectingKey;
+			if (stringIsKey) frame.expectingKey = false;
+		} else if (char === "{" || char === "[") {
+			stack.push({ close: char === "{" ? "}" : "]", expectingKey: char === "{" });
+			markSafe(end + 1);
+		} else if (char === "}" || char === "]") {
+			if (stack.length === 1 && rootKey !== null) completeKeys.push(rootKey);
+			stack.pop();
+			markSafe(end + 1);
+			if (stack.length === 0) {
+				end += 1;
+				break;
+			}
+		} else if (char === ",") {
+			// Vírgula só aparece depois de um valor completo
+			markSafe(end);
+			if (stack.length === 1 && rootKey !== null) {
+				completeKeys.push(rootKey);
+				rootKey = null;
+			}
+			if (frame?.close === "}") frame.expectingKey = true;
+		}
+	}
+
+	const complete = stack.length === 0;
+	const candidates: string[] = [];
+	if (complete) {
+		candidates.push(text.slice(begin, end));
+	} else {
+		// String de valor em andamento: mostra o que já chegou
+		if (inString && !stringIsKey) {
+			let partial = text.slice(begin, end);
+			if (escaped) partial = partial.slice(0, -1);
+			partial = partial.replace(/\\u[0-9a-fA-F]{0,3}$/, "");
+			candidates.push(partial + '"' + closers());
+		}
+		candidates.push(text.slice(begin, safeEnd) + safeClosers);
+	}
+
+	for (const candidate of candidates) {
+		try {
+			return { value: JSON.parse(candidate), completeKeys, complete };
+		} catch {
+			// Tenta o próximo ponto seguro
+		}
+	}
+	return { value: undefined, completeKeys, complete };
+}
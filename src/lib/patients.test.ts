@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { diagnosis, historyItem } from "../test/fixtures";
+import { PATIENTS_STORE, requestToPromise, withStore } from "./db";
+import {
+	conditionTimeline,
+	findPatientByName,
+	loadPatients,
+	parseIdentifiers,
+	patientAge,
+	patientConsultations,
+	savePatient,
+} from "./patients";
+import type { Patient } from "./types";
+import { createVault, lockVault } from "./vault";
+
+const maria = (overrides: Partial<Patient> = {}): Patient => ({
+	id: "maria",
+	name: "Maria Silva",
+	identifiers: [],
+	allergies: [],
+	createdAt: 0,
+	updatedAt: 0,
+	...overrides,
+});
+
+describe("patients", () => {
+	it("acha o paciente pelo nome sem diferenciar maiúsculas, acentos e espaços", () => {
+		const patients = [maria(), maria({ id: "jose", name: "José Souza" })];
+		expect(findPatientByName(patients, "  maria   silva ")?.id).toBe("maria");
+		expect(findPatientByName(patients, "jose souza")?.id).toBe("jose");
+		expect(findPatientByName(patients, "Maria")).toBeUndefined();
+	});
+
+	it("lê documentos e calcula a idade", () => {
+		expect(parseIdentifiers("CPF: 123.456.789-00\n\n 98765 ")).toEqual([
+			{ label: "CPF", value: "123.456.789-00" },
+			{ label: "", value: "98765" },
+		]);
+		const now = new Date(2024, 5, 10).getTime();
+		expect(patientAge("1990-06-10", now)).toBe(34);
+		expect(patientAge("1990-06-11", now)).toBe(33);
+		expect(patientAge(undefined, now)).toBeNull();
+	});
+
+	it("cadastra, atualiza e lista em ordem alfabética", async () => {
+		const created = await savePatient({
+			name: " Maria  Silva ",
+			birthDate: "1980-02-01",
+			identifiers: [{ label: "CPF", value: "123" }],
+			allergies: ["Dipirona", "dipirona", "Penicilina"],
+		});
+		expect(created).toMatchObject({ name: "Maria Silva", allergies: ["Dipirona", "Penicilina"] });
+		await savePatient({ name: "Ana Lima", identifiers: [], allergies: [] });
+
+		const updated = await savePatient({ ...created, allergies: [] }, created.id);
+		expect(updated.createdAt).toBe(created.createdAt);
+		expect((await loadPatients()).map((p) => [p.name, p.allergies])).toEqual([
+			["Ana Lima", []],
+			["Maria Silva", []],
+		]);
+	});
+
+	it("com senha, grava o cadastro cifrado", async () => {
+		await savePatient({ name: "Maria Silva", identifiers: [], allergies: ["Látex"] });
+		await createVault("senha-segura");
+		await savePatient({ name: "Bruno Lima", identifiers: [], allergies: [] });
+
+		const raw = JSON.stringify(
+			await withStore(PATIENTS_STORE, "readonly", (store) => requestToPromise(store.getAll())),
+		);
+		expect(raw).not.toContain("Maria Silva");
+		expect(raw).not.toContain("Bruno Lima");
+		expect((await loadPatients()).map((p) => p.name)).toEqual(["Bruno Lima", "Maria Silva"]);
+
+		lockVault();
+		await expect(loadPatients()).rejects.toMatchObject({ kind: "locked" });
+	});
+
+	it("monta a linha do tempo com as consultas vinculadas e as antigas pelo nome", () => {
+		const items = [
+			historyItem({ id: "vinculada", timestamp: 3000, patientId: "maria", patientName: "Maria S." }),
+			historyItem({
+				id: "antiga",
+				timestamp: 1000,
+				patientName: "MARIA SILVA",
+				result: diagnosis({ conditions: ["Asma", "Rinite"] }),
+			}),
+			historyItem({ id: "homonima", timestamp: 2000, patientId: "outra", patientName: "Maria Silva" }),
+			historyItem({ id: "sem-nome", timestamp: 2500 }),
+			historyItem({ id: "crise", timestamp: 4000, patientId: "maria", result: diagnosis({ conditions: ["asma"] }) }),
+		];
+
+		const consultations = patientConsultations(maria(), items);
+		expect(consultations.map((item) => item.id)).toEqual(["antiga", "vinculada", "crise"]);
+		expect(conditionTimeline(consultations)).toEqual([
+			{ condition: "Asma", first: 1000, last: 4000, count: 2 },
+			{ condition: "Rinite", first: 1000, last: 1000, count: 1 },
+			{ condition: "Resfriado comum", first: 3000, last: 3000, count: 1 },
+		]);
+	});
+});
@@ -0,0 +1,181 @@
+import { PATIENTS_STORE, requestToPromise, withStore } from "./db";
+import { toStorageError } from "./history";
+import { foldText } from "./historySearch";
+import type { HistoryItem, Patient, PatientIdentifier, PatientSex } from "./types";
+import { openRecords, putSealedRecords } from "./vault";
+
+// Cadastro local de pacientes, no mesmo banco (e cofre) do histórico
+
+export const PATIENT_SEX_OPTIONS: PatientSex[] = ["female", "male", "other"];
+
+// O que o formulário informa; id e datas são do cadastro
+export type PatientInput = Omit<Patient, "id" | "createdAt" | "updatedAt">;
+
+// Paciente escolhido para a consulta; sem id, só o nome digitado (não cadastrado)
+export type PatientSelection = { id?: string; name: string };
+
+// Diagnósticos de uma condição ao longo das consultas do paciente
+export type ConditionSpan = { condition: string; first: number; last: number; count: number };
+
+function notifyUpdated() {
+	window.dispatchEvent(new Event("patients-updated"));
+}
+
+const collapseSpaces = (text: string) => text.trim().replace(/\s+/g, " ");
+
+// Chave para comparar nomes: "Maria  Silva" e "maria silva" são a mesma pessoa
+export function patientNameKey(name: string) {
+	return foldText(collapseSpaces(name));
+}
+
+export function findPatientByName(patients: Patient[], name: string): Patient | undefined {
+	const key = patientNameKey(name);
+	return key ? patients.find((patient) => patientNameKey(patient.name) === key) : undefined;
+}
+
+// Pacientes cujo nome ou documento contém todas as palavras buscadas
+export function searchPatients(patients: Patient[], query: string): Patient[] {
+	const terms = patientNameKey(query).split(" ").filter(Boolean);
+	if (terms.length === 0) return patients;
+	return patients.filter((patient) => {
+		const text = foldText([patient.name, ...patient.identifiers.map((id) => id.value)].join(" "));
+		return terms.every((term) => text.includes(term));
+	});
+}
+
+// Idade em anos completos, ou null sem data de nascimento válida
+export function patientAge(birthDate: string | undefined, now = Date.now()): number | null {
+	const match = birthDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (!match) return null;
+	const [year, month, day] = match.slice(1).map(Number);
+	const today = new Date(now);
+	let age = today.getFullYear() - year;
+	if (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day)) age--;
+	return age >= 0 ? age : null;
+}
+
+// Uma linha por documento, no formato "Tipo: número"
+export function parseIdentifiers(text: string): PatientIdentifier[] {
+	return text
+		.split("\n")
+		.map((line) => {
+			const separator = line.indexOf(":");
+			return separator < 0
+				? { label: "", value: line.trim() }
+				: { label: line.slice(0, separator).trim(), value: line.slice(separator + 1).trim() };
+		})
+		.filter((identifier) => identifier.value);
+}
+
+export function formatIdentifiers(identifiers: PatientIdentifier[]) {
+	return identifiers.map(({ label, value }) => (label ? `${label}: ${value}` : value)).join("\n");
+}
+
+// Alergias separadas por vírgula, ponto e vírgula ou linha, sem repetir
+export function parseAllergies(text: string): string[] {
+	const allergies: string[] = [];
+	for (const part of text.split(/[,;\n]/)) {
+		const allergy = collapseSpaces(part);
+		if (allergy && !allergies.some((a) => foldText(a) === foldText(allergy))) allergies.push(allergy);
+	}
+	return allergies;
+}
+
+// Executa no store de pacientes convertendo falhas em HistoryStorageError
+async function patientsStore<T>(
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => T | Promise<T>,
+): Promise<T> {
+	try {
+		return await withStore(PATIENTS_STORE, mode, run);
+	} catch (error) {
+		throw toStorageError(error);
+	}
+}
+
+async function openPatients(records: unknown[]): Promise<Patient[]> {
+	try {
+		return await openRecords<Patient>(records);
+	} catch (error) {
+		throw toStorageError(error);
+	}
+}
+
+// Pacientes em ordem alfabética
+export async function loadPatients(): Promise<Patient[]> {
+	const records = await patientsStore("readonly", (store) => requestToPromise(store.getAll()));
+	const patients = await openPatients(records);
+	return patients.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getPatient(id: string): Promise<Patient | undefined> {
+	const record = await patientsStore("readonly", (store) => requestToPromise(store.get(id)));
+	if (!record) return undefined;
+	const [patient] = await openPatients([record]);
+	return patient;
+}
+
+/**
+ * Cadastra um paciente (sem `id`) ou atualiza o existente. Lança
+ * HistoryStorageError quando o navegador não grava (ou o cofre está bloqueado).
+ */
+export async function savePatient(input: PatientInput, id?: string): Promise<Patient> {
+	const name = collapseSpaces(input.name);
+	if (!name) throw new Error("Informe o nome do paciente");
+
+	const now = Date.now();
+	const existing = id ? await getPatient(id) : undefined;
+	const patient: Patient = {
+		...input,
+		id: existing?.id ?? id ?? crypto.randomUUID?.() ?? String(now),
+		name,
+		identifiers: input.identifiers.filter((identifier) => identifier.value.trim()),
+		allergies: parseAllergies(input.allergies.join("\n")),
+		createdAt: existing?.createdAt ?? now,
+		updatedAt: now,
+	};
+	if (!patient.birthDate) delete patient.birthDate;
+	if (!patient.sex) delete patient.sex;
+
+	try {
+		await putSealedRecords(PATIENTS_STORE, [patient]);
+	} catch (error) {
+		throw toStorageError(error);
+	}
+	notifyUpdated();
+	return patient;
+}
+
+/**
+ * Consultas do paciente, da mais antiga para a mais recente. As salvas antes
+ * do cadastro (sem patientId) entram pelo nome, comparado como em
+ * patientNameKey.
+ */
+export function patientConsultations(patient: Patient, items: HistoryItem[]): HistoryItem[] {
+	const key = patientNameKey(patient.name);
+	return items
+		.filter((item) =>
+			item.patientId
+				? item.patientId === patient.id
+				: !!item.patientName && patientNameKey(item.patientName) === key,
+		)
+		.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Condições diagnosticadas nas consultas, na ordem em que apareceram pela primeira vez
+export function conditionTimeline(items: HistoryItem[]): ConditionSpan[] {
+	const spans = new Map<string, ConditionSpan>();
+	for (const item of [...items].sort((a, b) => a.timestamp - b.timestamp)) {
+		for (const condition of new Set(item.result.conditions)) {
+			const key = foldText(collapseSpaces(condition));
+			const span = spans.get(key);
+			if (span) {
+				span.last = item.timestamp;
+				span.count++;
+			} else {
+				spans.set(key, { condition, first: item.timestamp, last: item.timestamp, count: 1 });
+			}
+		}
+	}
+	return [...spans.values()];
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import { historyItem } from "../test/fixtures";
+import {
+	deleteHistoryItems,
+	getHistoryItem,
+	loadHistory,
+	restoreHistoryItems,
+	saveHistoryItem,
+	saveHistoryItems,
+} from "./history";
+import {
+	applyRetention,
+	loadPurgeLog,
+	previewImportRetention,
+	retentionCandidates,
+	startRetention,
+} from "./retention";
+import { saveSettings } from "./settings";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+const daysAgo = (days: number) => NOW - days * DAY;
+
+const ids = (candidates: { item: { id: string } }[]) => candidates.map(({ item }) => item.id);
+
+describe("retention", () => {
+	const items = [
+		historyItem({ id: "hoje", timestamp: daysAgo(0) }),
+		historyItem({ id: "10-dias", timestamp: daysAgo(10) }),
+		historyItem({ id: "40-dias", timestamp: daysAgo(40) }),
+		historyItem({ id: "fixada", timestamp: daysAgo(60), pinned: true }),
+	];
+
+	it("apaga as consultas mais antigas que o prazo, menos as fixadas", () => {
+		expect(retentionCandidates(items, { days: 30, maxItems: 0 }, NOW)).toEqual([
+			{ item: items[2], reason: "age" },
+		]);
+	});
+
+	it("mantém só as mais recentes além das fixadas", () => {
+		const candidates = retentionCandidates(items, { days: 0, maxItems: 1 }, NOW);
+		expect(ids(candidates)).toEqual(["10-dias", "40-dias"]);
+		expect(candidates.every(({ reason }) => reason === "count")).toBe(true);
+	});
+
+	it("sem limites não apaga nada", () => {
+		expect(retentionCandidates(items, { days: 0, maxItems: 0 }, NOW)).toEqual([]);
+	});
+
+	it("apaga de vez e registra a limpeza sem dados do paciente", async () => {
+		vi.spyOn(Date, "now").mockReturnValue(NOW);
+		for (const item of items) await saveHistoryItem({ ...item, patientName: "Ana Souza" });
+
+		const entry = await applyRetention({ days: 30, maxItems: 1 });
+
+		expect(entry).toMatchObject({ ids: ["10-dias", "40-dias"], byAge: 1, byCount: 1 });
+		expect((await loadHistory()).map((item) => item.id)).toEqual(["hoje", "fixada"]);
+		expect(await getHistoryItem("40-dias")).toBeUndefined();
+		expect(loadPurgeLog()).toEqual([entry]);
+		expect(JSON.stringify(loadPurgeLog())).not.toContain("Ana Souza");
+		expect(await applyRetention({ days: 30, maxItems: 1 })).toBeNull();
+	});
+
+	it("aplica ao salvar, mas não ao restaurar da lixeira", async () => {
+		saveSettings({ retentionMaxItems: 1 });
+		await saveHistoryItem(historyItem({ id: "antiga", timestamp: 1000 }));
+		await deleteHistoryItems(["antiga"]);
+		const stop = startRetention();
+		try {
+			await saveHistoryItem(historyItem({ id: "nova", timestamp: 2000 }));
+			await restoreHistoryItems(["antiga"]);
+			await vi.waitFor(async () => expect(loadPurgeLog()).toHaveLength(0));
+			expect((await loadHistory()).map((item) => item.id)).toEqual(["nova", "antiga"]);
+
+			await saveHistoryItem(historyItem({ id: "mais-nova", timestamp: 3000 }));
+			await vi.waitFor(() => expect(loadPurgeLog()).toHaveLength(1));
+			expect((await loadHistory()).map((item) => item.id)).toEqual(["mais-nova"]);
+		} finally {
+			stop();
+		}
+	});
+
+	it("não apaga o que acabou de vir de um backup e aponta o que a política apagaria", async () => {
+		saveSettings({ retentionMaxItems: 1 });
+		await saveHistoryItem(historyItem({ id: "atual", timestamp: 3000 }));
+		const backup = [historyItem({ id: "backup-1", timestamp: 1000 }), historyItem({ id: "backup-2", timestamp: 2000 })];
+
+		expect(ids(await previewImportRetention(backup))).toEqual(["backup-2", "backup-1"]);
+
+		const stop = startRetention();
+		try {
+			await vi.waitFor(() => expect(loadPurgeLog()).toHaveLength(0));
+			await saveHistoryItems(backup);
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			expect(loadPurgeLog()).toHaveLength(0);
+			expect(await loadHistory()).toHaveLength(3);
+		} finally {
+			stop();
+		}
+	});
+});
@@ -0,0 +1,133 @@
+import { type HistoryUpdatedDetail, loadHistory, purgeHistoryItems } from "./history";
+import { loadSettings } from "./settings";
+import type { HistoryItem } from "./types";
+
+const LOG_KEY = "mednote-purge-log-v1";
+// Entradas mais antigas do registro são descartadas
+const MAX_LOG_ENTRIES = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 0 desliga cada limite
+export type RetentionPolicy = { days: number; maxItems: number };
+
+export type PurgeReason = "age" | "count";
+
+export type PurgeCandidate = { item: HistoryItem; reason: PurgeReason };
+
+// Registro de cada limpeza automática: só ids e contagens, sem dados do paciente
+export type PurgeLogEntry = {
+	at: number;
+	policy: RetentionPolicy;
+	ids: string[];
+	byAge: number;
+	byCount: number;
+};
+
+export function retentionPolicy(): RetentionPolicy {
+	const { retentionDays, retentionMaxItems } = loadSettings();
+	return { days: retentionDays, maxItems: retentionMaxItems };
+}
+
+export function isRetentionEnabled(policy: RetentionPolicy) {
+	return policy.days > 0 || policy.maxItems > 0;
+}
+
+/**
+ * Consultas que a política apaga: as mais antigas que `days` e, das que
+ * sobram, as que passam das `maxItems` mais recentes. Fixadas nunca entram
+ * (nem contam para o limite).
+ */
+export function retentionCandidates(
+	items: HistoryItem[],
+	policy: RetentionPolicy,
+	now = Date.now(),
+): PurgeCandidate[] {
+	const unpinned = items.filter((item) => !item.pinned).sort((a, b) => b.timestamp - a.timestamp);
+	const cutoff = now - policy.days * DAY_MS;
+
+	const candidates: PurgeCandidate[] = [];
+	let kept = 0;
+	for (const item of unpinned) {
+		if (policy.days > 0 && item.timestamp < cutoff) candidates.push({ item, reason: "age" });
+		else if (policy.maxItems > 0 && kept >= policy.maxItems) candidates.push({ item, reason: "count" });
+		else kept++;
+	}
+	return candidates;
+}
+
+// O que a política apagaria agora, sem alterar nada
+export async function previewRetention(policy = retentionPolicy()): Promise<PurgeCandidate[]> {
+	if (!isRetentionEnabled(policy)) return [];
+	return retentionCandidates(await loadHistory(), policy);
+}
+
+// Das consultas de um backup, as que a política apagaria na próxima limpeza se importadas
+export async function previewImportRetention(
+	incoming: HistoryItem[],
+	policy = retentionPolicy(),
+): Promise<PurgeCandidate[]> {
+	if (!isRetentionEnabled(policy) || incoming.length === 0) return [];
+	const ids = new Set(incoming.map((item) => item.id));
+	const current = (await loadHistory()).filter((item) => !ids.has(item.id));
+	return retentionCandidates([...current, ...incoming], policy).filter(({ item }) => ids.has(item.id));
+}
+
+export function loadPurgeLog(): PurgeLogEntry[] {
+	try {
+		return JSON.parse(localStorage.getItem(LOG_KEY) || "[]");
+	} catch {
+		return [];
+	}
+}
+
+function appendPurgeLog(entry: PurgeLogEntry) {
+	const log = [entry, ...loadPurgeLog()].slice(0, MAX_LOG_ENTRIES);
+	localStorage.setItem(LOG_KEY, JSON.stringify(log));
+	window.dispatchEvent(new Event("purge-log-updated"));
+}
+
+/**
+ * Apaga de vez (sem lixeira) o que a política não mantém e registra a
+ * limpeza. Devolve a entrada do registro, ou null se nada foi apagado.
+ */
+export async function applyRetention(policy = retentionPolicy()): Promise<PurgeLogEntry | null> {
+	const candidates = await previewRetention(policy);
+	if (candidates.length === 0) return null;
+
+	const ids = candidates.map(({ item }) => item.id);
+	await purgeHistoryItems(ids);
+	const entry: PurgeLogEntry = {
+		at: Date.now(),
+		policy,
+		ids,
+		byAge: candidates.filter(({ reason }) => reason === "age").length,
+		byCount: candidates.filter(({ reason }) => reason === "count").length,
+	};
+	appendPurgeLog(entry);
+	return entry;
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+// Uma limpeza por vez, na ordem; falhas (ex.: histórico bloqueado) só vão para o console
+function runRetention() {
+	queue = queue
+		.then(() => applyRetention())
+		.catch((error) => console.error("Erro ao aplicar a retenção do histórico:", error));
+	return queue;
+}
+
+/**
+ * Aplica a retenção agora e depois de cada consulta gravada. Restaurar da
+ * lixeira, desafixar ou importar um backup (o painel de importação mostra o
+ * que a política apagaria) não dispara a limpeza. Devolve a função que para.
+ */
+export function startRetention(): () => void {
+	runRetention();
+	const handler = (event: Event) => {
+		const { detail } = event as CustomEvent<HistoryUpdatedDetail>;
+		if (detail.type === "saved" && !detail.source) runRetention();
+	};
+	window.addEventListener("history-updated", handler);
+	return () => window.removeEventListener("history-updated", handler);
+}
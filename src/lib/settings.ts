@@ -0,0 +1,56 @@
+import type { MockFailureKind } from "./mockBackend";
+import type { SpeechEngineId } from "./speechEngines";
+
+const KEY = "mednote-settings-v1";
+
+export type Settings = {
+	speechEngine: SpeechEngineId;
+	serverChunkSeconds: number; // Duração dos trechos enviados no modo servidor
+	// Backend simulado (desenvolvimento e demonstrações)
+	mockBackend: boolean;
+	mockLatencyMs: number;
+	mockFailureRate: number; // 0-1
+	mockFailureKind: MockFailureKind;
+	// JSON do roteiro usado pelo motor "script"; vazio usa o exemplo
+	simulationScript: string;
+	trashRetentionDays: number; // Prazo para desfazer a exclusão de consultas
+	autoLockMinutes: number; // Inatividade até bloquear o histórico com senha
+	// Retenção do histórico (0 = sem limite); consultas fixadas nunca são apagadas
+	retentionDays: number;
+	retentionMaxItems: number;
+};
+
+export const SERVER_CHUNK_OPTIONS = [15, 20, 30];
+export const MOCK_LATENCY_OPTIONS = [0, 400, 1500, 5000];
+export const MOCK_FAILURE_RATE_OPTIONS = [0, 0.2, 0.5, 1];
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30];
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+export const RETENTION_DAYS_OPTIONS = [0, 7, 30, 90, 365];
+export const RETENTION_MAX_ITEMS_OPTIONS = [0, 50, 100, 500];
+
+export const DEFAULT_SETTINGS: Settings = {
+	speechEngine: "webspeech",
+	serverChunkSeconds: 20,
+	mockBackend: false,
+	mockLatencyMs: 400,
+	mockFailureRate: 0,
+	mockFailureKind: "network",
+	simulationScript: "",
+	trashRetentionDays: 7,
+	autoLockMinutes: 15,
+	retentionDays: 0,
+	retentionMaxItems: 0,
+};
+
+export function loadSettings(): Settings {
+	try {
+		return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(KEY) || "{}") };
+	} catch {
+		return DEFAULT_SETTINGS;
+	}
+}
+
+export function saveSettings(patch: Partial<Settings>) {
+	localStorage.setItem(KEY, JSON.stringify({ ...loadSettings(), ...patch }));
+	window.dispatchEvent(new Event("settings-updated"));
+}
@@ -0,0 +1,273 @@
+import { transcribeAudio } from "./api";
+import {
+	createScriptPlayback,
+	loadConsultationScript,
+	ScriptedSpeechRecognition,
+} from "./consultationScript";
+import { pendingTranscriptionText } from "./transcript";
+import {
+	createResilientRecognition,
+	isSpeechRecognitionSupported,
+	type RecognitionResult,
+	type RecognitionStatus,
+} from "./speechRecognition";
+
+export type SpeechEngineId = "webspeech" | "backend" | "script";
+
+// Trechos de áudio ainda sem transcrição (motor do servidor)
+export type ChunkProgress = {
+	pending: number;
+	retrying: number;
+};
+
+export type SpeechEngineOptions = {
+	language: "pt" | "en";
+	chunkSeconds?: number;
+	onResult: (result: RecognitionResult) => void;
+	onStatusChange?: (status: RecognitionStatus, error?: string) => void;
+	onProgress?: (progress: ChunkProgress) => void;
+	// Falante da fonte, quando fixo (o roteiro simulado só reproduz as falas dele)
+	speaker?: "doctor" | "patient";
+};
+
+// Motor de transcrição plugável usado por useSpeechEngine
+export interface SpeechEngine {
+	// stream: áudio a transcrever (a Web Speech API sempre usa o microfone)
+	start(stream: MediaStream | null): void;
+	// Para de capturar; o que já foi capturado ainda é transcrito
+	stop(): void;
+	// Para e descarta o que ainda não foi transcrito
+	abort(): void;
+}
+
+type SpeechEngineDefinition = {
+	label: { pt: string; en: string };
+	needsStream: boolean;
+	isSupported: () => boolean;
+	create: (options: SpeechEngineOptions) => SpeechEngine;
+};
+
+// Duração padrão de cada trecho de áudio enviado ao servidor
+const DEFAULT_CHUNK_SECONDS = 20;
+
+// Tentativas por trecho antes de desistir, com espera crescente (o endpoint
+// não repete por conta própria: esta é a única camada de novas tentativas)
+const MAX_CHUNK_ATTEMPTS = 4;
+const CHUNK_RETRY_BASE_DELAY_MS = 2000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function pickAudioMimeType() {
+	const candidates = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/webm"];
+	return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+}
+
+function createWebSpeechEngine(options: SpeechEngineOptions): SpeechEngine {
+	const recognition = createResilientRecognition(options);
+	return {
+		start: () => recognition.start(),
+		stop: () => recognition.stop(),
+		abort: () => recognition.stop(),
+	};
+}
+
+/**
+ * Grava o stream em trechos de chunkSeconds e envia cada um para
+ * /api/transcribe/audio. O MediaRecorder é reiniciado a cada trecho para que
+ * cada arquivo seja decodificável isoladamente. Os envios correm em paralelo,
+ * com novas tentativas em caso de falha, e os textos são repassados na ordem
+ * em que foram gravados.
+ */
+function createBackendEngine({
+	language,
+	chunkSeconds = DEFAULT_CHUNK_SECONDS,
+	onResult,
+	onStatusChange,
+	onProgress,
+}: SpeechEngineOptions): SpeechEngine {
+	let recorder: MediaRecorder | null = null;
+	let chunkTimer: number | null = null;
+	let active = false;
+	// Descarta respostas de capturas abortadas
+	let generation = 0;
+
+	// Ordem dos trechos: só emitimos o trecho n depois do n-1
+	let nextSeq = 0;
+	let nextToEmit = 0;
+	const finished = new Map<number, RecognitionResult>();
+	const retrying = new Set<number>();
+	let pending = 0;
+
+	const reportProgress = () => {
+		onProgress?.({ pending, retrying: retrying.size });
+	};
+
+	const flush = () => {
+		while (finished.has(nextToEmit)) {
+			const result = finished.get(nextToEmit)!;
+			finished.delete(nextToEmit);
+			nextToEmit += 1;
+			if (result.finalText) onResult(result);
+		}
+	};
+
+	// Envia o trecho até obter uma transcrição real; se o servidor continuar
+	// fora do ar, devolve o áudio para a fila offline com um texto provisório
+	const transcribeChunk = async (
+		seq: number,
+		audioBlob: Blob,
+	): Promise<Pick<RecognitionResult, "finalText" | "unprocessedAudio">> => {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				const result = await transcribeAudio(audioBlob, language);
+				if (result?.fallback) throw new Error("Backend indisponível");
+				return { finalText: String(result?.transcript ?? "").trim() };
+			} catch (error) {
+				console.error(`❌ Erro ao transcrever trecho ${seq} (tentativa ${attempt}):`, error);
+				if (attempt >= MAX_CHUNK_ATTEMPTS) {
+					return {
+						finalText: pendingTranscriptionText(language),
+						unprocessedAudio: audioBlob,
+					};
+				}
+
+				retrying.add(seq);
+				reportProgress();
+				onStatusChange?.("reconnecting", "upload");
+				await wait(CHUNK_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+			}
+		}
+	};
+
+	const upload = async (audioBlob: Blob, start: number, end: number) => {
+		const seq = nextSeq++;
+		const uploadGeneration = generation;
+		pending += 1;
+		reportProgress();
+
+		const transcription = await transcribeChunk(seq, audioBlob);
+		if (uploadGeneration !== generation) return;
+
+		pending -= 1;
+		if (retrying.delete(seq) && retrying.size === 0 && active) {
+			onStatusChange?.("listening");
+		}
+		reportProgress();
+
+		finished.set(seq, { ...transcription, interimText: "", start, end });
+		flush();
+	};
+
+	const recordChunk = (stream: MediaStream) => {
+		const chunks: Blob[] = [];
+		const mimeType = pickAudioMimeType();
+		const chunkRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+		const start = Date.now();
+		const chunkGeneration = generation;
+
+		chunkRecorder.ondataavailable = (event) => {
+			if (event.data.size > 0) chunks.push(event.data);
+		};
+		chunkRecorder.onstop = () => {
+			if (chunks.length > 0 && chunkGeneration === generation) {
+				upload(new Blob(chunks, { type: chunkRecorder.mimeType }), start, Date.now());
+			}
+			if (active && stream.active) recordChunk(stream);
+		};
+
+		chunkRecorder.start();
+		recorder = chunkRecorder;
+		chunkTimer = window.setTimeout(() => {
+			if (chunkRecorder.state === "recording") chunkRecorder.stop();
+		}, chunkSeconds * 1000);
+	};
+
+	const stopRecorder = () => {
+		active = false;
+		if (chunkTimer) {
+			window.clearTimeout(chunkTimer);
+			chunkTimer = null;
+		}
+		if (recorder?.state === "recording") recorder.stop();
+		recorder = null;
+		onStatusChange?.("idle");
+	};
+
+	return {
+		start(stream) {
+			if (!stream) {
+				onStatusChange?.("failed", "no-stream");
+				return;
+			}
+			active = true;
+			recordChunk(stream);
+			onStatusChange?.("listening");
+		},
+		// O último trecho ainda é enviado no onstop
+		stop: stopRecorder,
+		abort() {
+			generation += 1;
+			stopRecorder();
+			finished.clear();
+			retrying.clear();
+			pending = 0;
+			nextToEmit = nextSeq;
+			reportProgress();
+		},
+	};
+}
+
+/**
+ * Reproduz o roteiro de simulação das configurações pelo mesmo caminho da Web
+ * Speech API (reinício automático, resultados parciais e finais), sem
+ * microfone. Parar e retomar continua do ponto atual; abortar recomeça.
+ */
+function createScriptEngine(options: SpeechEngineOptions): SpeechEngine {
+	const playback = createScriptPlayback(
+		() => loadConsultationScript(options.language),
+		options.speaker,
+	);
+	const recognition = createResilientRecognition({
+		...options,
+		createRecognition: () => new ScriptedSpeechRecognition(playback),
+	});
+	return {
+		start: () => recognition.start(),
+		stop: () => recognition.stop(),
+		abort() {
+			// Volta ao início antes de parar, para não finalizar a fala em curso
+			playback.rewind();
+			recognition.stop();
+		},
+	};
+}
+
+export const speechEngines: Record<SpeechEngineId, SpeechEngineDefinition> = {
+	webspeech: {
+		label: { pt: "Navegador (Web Speech)", en: "Browser (Web Speech)" },
+		needsStream: false,
+		isSupported: isSpeechRecognitionSupported,
+		create: createWebSpeechEngine,
+	},
+	backend: {
+		label: { pt: "Servidor (envio de áudio)", en: "Server (audio upload)" },
+		needsStream: true,
+		isSupported: () => "MediaRecorder" in window,
+		create: createBackendEngine,
+	},
+	script: {
+		label: { pt: "Simulação (roteiro)", en: "Simulation (script)" },
+		needsStream: false,
+		isSupported: () => true,
+		create: createScriptEngine,
+	},
+};
+
+// Usa o motor escolhido se o navegador suportar (ex.: Firefox não tem Web Speech)
+export function resolveSpeechEngine(preferred: SpeechEngineId): SpeechEngineId {
+	if (speechEngines[preferred].isSupported()) return preferred;
+	// A simulação nunca substitui a captura real
+	return (Object.keys(speechEngines) as SpeechEngineId[]).find((id) =>
+		id !== "script" && speechEngines[id].isSupported(),
+	) ?? preferred;
+}
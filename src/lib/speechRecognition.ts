@@ -0,0 +1,154 @@
+export type RecognitionStatus = "idle" | "listening" | "reconnecting" | "failed";
+
+export type RecognitionResult = {
+	finalText: string; // Novas falas finalizadas nesta sessão do reconhecimento
+	interimText: string;
+	start?: number; // Início/fim do áudio (epoch ms), quando o motor souber
+	end?: number;
+	unprocessedAudio?: Blob; // Áudio que o servidor não transcreveu (vai para a fila offline)
+};
+
+type Options = {
+	language: "pt" | "en";
+	onResult: (result: RecognitionResult) => void;
+	onStatusChange?: (status: RecognitionStatus, error?: string) => void;
+	// Outra implementação com a interface de webkitSpeechRecognition (ex.: roteiro simulado)
+	createRecognition?: () => any;
+};
+
+// Backoff entre reinícios após erros consecutivos
+const RESTART_BASE_DELAY_MS = 500;
+const RESTART_MAX_DELAY_MS = 10000;
+
+// Erros que não adianta tentar de novo (permissão negada)
+const FATAL_ERRORS = ["not-allowed", "service-not-allowed", "language-not-supported"];
+
+export function isSpeechRecognitionSupported() {
+	return "webkitSpeechRecognition" in window;
+}
+
+/**
+ * Reconhecimento contínuo que se reinicia sozinho enquanto estiver ativo.
+ * O Chrome encerra a sessão após silêncio ou falhas de rede; cada sessão nova
+ * recomeça a lista de resultados, então só repassamos os finais ainda não vistos.
+ */
+export function createResilientRecognition({
+	language,
+	onResult,
+	onStatusChange,
+	createRecognition = () => new (window as any).webkitSpeechRecognition(),
+}: Options) {
+	const rec = createRecognition();
+	rec.continuous = true;
+	rec.interimResults = true;
+	rec.lang = language === "pt" ? "pt-BR" : "en-US";
+
+	let active = false;
+	let consecutiveErrors = 0;
+	let restartTimer: number | null = null;
+	let finalizedCount = 0;
+	let status: RecognitionStatus = "idle";
+
+	const setStatus = (next: RecognitionStatus, error?: string) => {
+		if (next === status && !error) return;
+		status = next;
+		onStatusChange?.(next, error);
+	};
+
+	const safeStart = () => {
+		try {
+			rec.start();
+		} catch (error: any) {
+			// Já iniciado: nada a fazer
+			if (error?.name !== "InvalidStateError") throw error;
+		}
+	};
+
+	rec.onstart = () => {
+		finalizedCount = 0;
+	};
+
+	rec.onresult = (event: any) => {
+		consecutiveErrors = 0;
+		setStatus("listening");
+
+		let finalText = "";
+		let interimText = "";
+		for (let i = event.resultIndex; i < event.results.length; i++) {
+			const transcript = event.results[i][0].transcript;
+			if (event.results[i].isFinal) {
+				if (i < finalizedCount) continue;
+				finalText += transcript + " ";
+				finalizedCount = i + 1;
+			} else {
+				interimText += transcript;
+			}
+		}
+
+		onResult({ finalText: finalText.trim(), interimText });
+	};
+
+	rec.onerror = (event: any) => {
+		console.error("Speech recognition error:", event.error);
+
+		if (FATAL_ERRORS.includes(event.error)) {
+			active = false;
+			setStatus("failed", event.error);
+			return;
+		}
+
+		consecutiveErrors += 1;
+		setStatus("reconnecting", event.error);
+	};
+
+	rec.onend = () => {
+		if (!active) {
+			if (status !== "failed") setStatus("idle");
+			return;
+		}
+
+		// Reinicia imediatamente após silêncio; com erros, espera cada vez mais
+		const delay =
+			consecutiveErrors === 0
+				? 0
+				: Math.min(
+						RESTART_BASE_DELAY_MS * 2 ** (consecutiveErrors - 1),
+						RESTART_MAX_DELAY_MS,
+					);
+
+		restartTimer = window.setTimeout(() => {
+			restartTimer = null;
+			if (!active) return;
+			try {
+				safeStart();
+			} catch (error) {
+				console.error("Erro ao reiniciar reconhecimento:", error);
+				consecutiveErrors += 1;
+				rec.onend();
+			}
+		}, delay);
+	};
+
+	return {
+		start() {
+			active = true;
+			consecutiveErrors = 0;
+			safeStart();
+			setStatus("listening");
+		},
+		stop() {
+			active = false;
+			if (restartTimer) {
+				window.clearTimeout(restartTimer);
+				restartTimer = null;
+			}
+			rec.stop();
+			setStatus("idle");
+		},
+		isActive() {
+			return active;
+		},
+	};
+}
+
+export type ResilientRecognition = ReturnType<typeof createResilientRecognition>;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { readEventStream } from "./sse";
+
+// Resposta com o corpo entregue nos pedaços indicados
+const streamOf = (...chunks: string[]) =>
+	new Response(
+		new ReadableStream({
+			start(controller) {
+				for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+				controller.close();
+			},
+		}),
+	);
+
+async function collect(response: Response) {
+	const events = [];
+	for await (const event of readEventStream(response)) events.push(event);
+	return events;
+}
+
+describe("readEventStream", () => {
+	it("junta linhas de data e eventos divididos entre pedaços", async () => {
+		const events = await collect(streamOf("data: um\ndata: dois\n\nevent: par", "cial\ndata: {\"a\"\n\n"));
+
+		expect(events).toEqual([
+			{ event: "message", data: "um\ndois", id: undefined },
+			{ event: "parcial", data: '{"a"', id: undefined },
+		]);
+	});
+
+	it("entrega eventos com tipo e sem data", async () => {
+		const events = await collect(streamOf("data: texto\n\n: keep-alive\n\nevent: done\n\n"));
+
+		expect(events.map(({ event, data }) => [event, data])).toEqual([
+			["message", "texto"],
+			["done", ""],
+		]);
+	});
+});
@@ -0,0 +1,74 @@
+export type ServerSentEvent = {
+	event: string; // "message" quando o servidor não informa o tipo
+	data: string;
+	id?: string;
+};
+
+/**
+ * Lê uma resposta text/event-stream e entrega cada evento completo.
+ * Diferente do EventSource, funciona com qualquer fetch (POST, cabeçalhos,
+ * AbortController). Interromper o for-await ou abortar o signal cancela a
+ * leitura do corpo; com o signal abortado, rejeita com o motivo do abort.
+ */
+export async function* readEventStream(
+	response: Response,
+	signal?: AbortSignal,
+): AsyncGenerator<ServerSentEvent> {
+	if (!response.body) return;
+	signal?.throwIfAborted();
+
+	const reader = response.body.getReader();
+	const cancel = () => reader.cancel(signal?.reason).catch(() => {});
+	signal?.addEventListener("abort", cancel, { once: true });
+	const decoder = new TextDecoder();
+	let buffer = "";
+	let event = "";
+	let data: string[] = [];
+	let id: string | undefined;
+
+	// Processa uma linha; devolve o evento quando uma linha em branco o encerra
+	const handleLine = (line: string): ServerSentEvent | null => {
+		if (line === "") {
+			// Sem data, só conta se tiver tipo (ex.: "event: done" sozinho encerra o stream)
+			const complete =
+				data.length > 0 || event ? { event: event || "message", data: data.join("\n"), id } : null;
+			event = "";
+			data = [];
+			return complete;
+		}
+		if (line.startsWith(":")) return null; // Comentário / keep-alive
+
+		const colon = line.indexOf(":");
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? "" : line.slice(colon + 1);
+		if (value.startsWith(" ")) value = value.slice(1);
+
+		if (field === "event") event = value;
+		else if (field === "data") data.push(value);
+		else if (field === "id") id = value;
+		return null;
+	};
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			// Nada do que chegar depois do cancelamento é entregue
+			signal?.throwIfAborted();
+			buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+			const lines = buffer.split(/\r?\n/);
+			// A última parte pode ser uma linha incompleta
+			buffer = done ? "" : (lines.pop() ?? "");
+			if (done) lines.push("");
+
+			for (const line of lines) {
+				const complete = handleLine(line);
+				if (complete) yield complete;
+			}
+			if (done) return;
+		}
+	} finally {
+		signal?.removeEventListener("abort", cancel);
+		reader.cancel().catch(() => {});
+	}
+}
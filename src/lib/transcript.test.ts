@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { segment } from "../test/fixtures";
+import {
+	applyCaptureUpdate,
+	applyPatch,
+	diffSegments,
+	parseTranscript,
+	removeSegment,
+	revertPatch,
+	updateSegmentText,
+} from "./transcript";
+
+const texts = (segments: { text: string }[]) => segments.map((s) => s.text);
+
+describe("transcript", () => {
+	it("desfazer uma edição preserva as falas capturadas depois dela", () => {
+		const first = segment({ id: "a", text: "Bom dia", start: 0 });
+		const second = segment({ id: "b", speaker: "patient", text: "Dor de cabeça", start: 1000 });
+		const edited = updateSegmentText([first, second], "a", "Bom dia, tudo bem?");
+		const patch = diffSegments([first, second], edited);
+
+		// A captura continua depois da edição
+		let current = applyPatch([first, second], patch);
+		current = applyCaptureUpdate(current, "interim", {
+			append: [segment({ id: "c", text: "Desde quando?", start: 2000 })],
+			interim: segment({ id: "interim", text: "e a febre", interim: true, start: 3000 }),
+		});
+
+		const undone = revertPatch(current, patch);
+		expect(texts(undone)).toEqual(["Bom dia", "Dor de cabeça", "Desde quando?", "e a febre"]);
+		expect(texts(applyPatch(undone, patch))).toEqual(texts(current));
+	});
+
+	it("desfazer uma remoção devolve a fala ao lugar dela", () => {
+		const list = [segment({ id: "a" }), segment({ id: "b", text: "Tosse" }), segment({ id: "c" })];
+		const patch = diffSegments(list, removeSegment(list, "b"));
+		const current = [...applyPatch(list, patch), segment({ id: "d", text: "Nova fala" })];
+
+		expect(revertPatch(current, patch).map((s) => s.id)).toEqual(["a", "b", "c", "d"]);
+	});
+
+	it("lê participantes conhecidos e o rótulo sem nome como speaker other", () => {
+		const parsed = parseTranscript(
+			"Médico: Bom dia\nAna: Estou com febre\nEnfermeira Lima: Confirmo\nParticipante: Olá",
+			"manual",
+			{ participants: ["Enfermeira Lima"] },
+		);
+
+		expect(parsed.map(({ speaker, speakerName }) => ({ speaker, speakerName }))).toEqual([
+			{ speaker: "doctor", speakerName: undefined },
+			{ speaker: "patient", speakerName: "Ana" },
+			{ speaker: "other", speakerName: "Enfermeira Lima" },
+			{ speaker: "other", speakerName: undefined },
+		]);
+	});
+});
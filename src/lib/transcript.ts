@@ -0,0 +1,321 @@
+import type { SpeakerRole, TranscriptSegment, TranscriptSource } from "./types";
+
+const DOCTOR_LABELS = ["Médico", "Doctor"];
+const DEFAULT_PATIENT_LABELS = ["Paciente", "Patient"];
+const DEFAULT_OTHER_LABELS = ["Participante", "Participant"];
+const AUTO_PREFIX = "🤖 ";
+
+export function createSegmentId() {
+	return crypto.randomUUID?.() || `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Rótulo exibido para o falante de um segmento
+export function speakerLabel(
+	segment: Pick<TranscriptSegment, "speaker" | "speakerName">,
+	language: "pt" | "en",
+): string {
+	switch (segment.speaker) {
+		case "doctor":
+			return language === "pt" ? "Médico" : "Doctor";
+		case "patient":
+			return (
+				segment.speakerName?.trim() ||
+				(language === "pt" ? "Paciente" : "Patient")
+			);
+		default:
+			return (
+				segment.speakerName?.trim() ||
+				(language === "pt" ? "Participante" : "Participant")
+			);
+	}
+}
+
+/**
+ * Gera o texto com prefixos ("Médico: ...") usado no payload de /api/diagnose.
+ * Segmentos interim entram sem prefixo no final, como texto ainda em reconhecimento.
+ */
+export function serializeTranscript(
+	segments: TranscriptSegment[],
+	language: "pt" | "en",
+	{ includeInterim = false } = {},
+): string {
+	let text = "";
+	for (const segment of segments) {
+		if (segment.interim) {
+			if (includeInterim) text += segment.text;
+			continue;
+		}
+		text += `${speakerLabel(segment, language)}: ${segment.text}\n`;
+	}
+	return text;
+}
+
+export function finalSegments(segments: TranscriptSegment[]) {
+	return segments.filter((segment) => !segment.interim);
+}
+
+export function hasTranscriptContent(segments: TranscriptSegment[]) {
+	return segments.some((segment) => segment.text.trim());
+}
+
+// Interpreta o prefixo de uma linha ("Nome: texto"); `participants` são os
+// nomes já conhecidos de speaker "other", os demais nomes são do paciente
+function parseLine(
+	line: string,
+	participants: string[],
+): { speaker: SpeakerRole; speakerName?: string; text: string } | null {
+	if (line.startsWith(AUTO_PREFIX)) {
+		return { speaker: "other", text: line.slice(AUTO_PREFIX.length).trim() };
+	}
+
+	const match = line.match(/^([^:.!?]{1,40}):\s*(.*)$/);
+	if (!match) return null;
+
+	const label = match[1].trim();
+	const text = match[2].trim();
+	if (DOCTOR_LABELS.includes(label)) return { speaker: "doctor", text };
+	if (DEFAULT_PATIENT_LABELS.includes(label)) return { speaker: "patient", text };
+	if (DEFAULT_OTHER_LABELS.includes(label)) return { speaker: "other", text };
+	if (participants.includes(label)) return { speaker: "other", speakerName: label, text };
+	return { speaker: "patient", speakerName: label, text };
+}
+
+/**
+ * Converte texto com prefixos (formato antigo do histórico ou edição manual)
+ * em segmentos. Linhas sem prefixo continuam o segmento anterior. Rótulos em
+ * `participants` voltam a ser participantes adicionais, não o paciente.
+ */
+export function parseTranscript(
+	text: string,
+	source: TranscriptSource = "manual",
+	{ participants = [] as string[] } = {},
+): TranscriptSegment[] {
+	const segments: TranscriptSegment[] = [];
+
+	for (const rawLine of text.split("\n")) {
+		const line = rawLine.trim();
+		if (!line) continue;
+
+		const parsed = parseLine(line, participants);
+		const previous = segments[segments.length - 1];
+		if (!parsed && previous) {
+			previous.text = `${previous.text} ${line}`.trim();
+			continue;
+		}
+
+		segments.push({
+			id: createSegmentId(),
+			speaker: parsed?.speaker ?? "other",
+			speakerName: parsed?.speakerName,
+			text: parsed?.text ?? line,
+			start: 0,
+			end: 0,
+			source,
+			interim: false,
+		});
+	}
+
+	return segments;
+}
+
+/**
+ * Aplica o resultado de uma edição de texto mantendo id, tempos e confiança
+ * dos segmentos que não mudaram.
+ */
+export function reconcileSegments(
+	previous: TranscriptSegment[],
+	edited: TranscriptSegment[],
+): TranscriptSegment[] {
+	const finals = finalSegments(previous);
+	return edited.map((segment, index) => {
+		const old = finals[index];
+		if (!old || old.speaker !== segment.speaker) return segment;
+		if (old.text === segment.text && old.speakerName === segment.speakerName) {
+			return old;
+		}
+		return { ...old, text: segment.text, speakerName: segment.speakerName };
+	});
+}
+
+/**
+ * Trecho alterado por uma edição: os segmentos que havia (`before`) e os que
+ * ficaram (`after`) logo depois de `anchor` (null = início da transcrição).
+ */
+export type TranscriptPatch = {
+	anchor: string | null;
+	before: TranscriptSegment[];
+	after: TranscriptSegment[];
+};
+
+// Compara as listas antes e depois de uma edição e guarda só o trecho que mudou
+export function diffSegments(
+	previous: TranscriptSegment[],
+	next: TranscriptSegment[],
+): TranscriptPatch {
+	let start = 0;
+	while (start < previous.length && start < next.length && previous[start] === next[start]) {
+		start++;
+	}
+	let end = 0;
+	while (
+		end < previous.length - start &&
+		end < next.length - start &&
+		previous[previous.length - 1 - end] === next[next.length - 1 - end]
+	) {
+		end++;
+	}
+	return {
+		anchor: start > 0 ? previous[start - 1].id : null,
+		before: previous.slice(start, previous.length - end),
+		after: next.slice(start, next.length - end),
+	};
+}
+
+// Troca `remove` por `insert` na lista atual, que pode ter recebido falas
+// novas da captura depois da edição; essas ficam onde estão
+function replaceRange(
+	segments: TranscriptSegment[],
+	anchor: string | null,
+	remove: TranscriptSegment[],
+	insert: TranscriptSegment[],
+): TranscriptSegment[] {
+	const ids = new Set(remove.map((segment) => segment.id));
+	const kept = segments.filter((segment) => !ids.has(segment.id));
+	const anchorIndex = anchor === null ? -1 : kept.findIndex((segment) => segment.id === anchor);
+	// Âncora removida nesse meio-tempo: a edição volta para o fim das falas finais
+	const at = anchor !== null && anchorIndex < 0 ? finalSegments(kept).length : anchorIndex + 1;
+	return [...kept.slice(0, at), ...insert, ...kept.slice(at)];
+}
+
+export function applyPatch(segments: TranscriptSegment[], patch: TranscriptPatch) {
+	return replaceRange(segments, patch.anchor, patch.before, patch.after);
+}
+
+export function revertPatch(segments: TranscriptSegment[], patch: TranscriptPatch) {
+	return replaceRange(segments, patch.anchor, patch.after, patch.before);
+}
+
+// Participantes adicionais (speaker "other") presentes na transcrição
+export function otherParticipants(segments: TranscriptSegment[]): string[] {
+	const names = new Set<string>();
+	for (const segment of segments) {
+		if (segment.speaker === "other" && segment.speakerName?.trim()) {
+			names.add(segment.speakerName.trim());
+		}
+	}
+	return Array.from(names);
+}
+
+export function reassignSpeaker(
+	segments: TranscriptSegment[],
+	id: string,
+	speaker: SpeakerRole,
+	speakerName?: string,
+): TranscriptSegment[] {
+	return segments.map((segment) =>
+		segment.id === id
+			? { ...segment, speaker, speakerName, confidence: 1, attribution: "manual" }
+			: segment,
+	);
+}
+
+export function updateSegmentText(
+	segments: TranscriptSegment[],
+	id: string,
+	text: string,
+): TranscriptSegment[] {
+	return segments.map((segment) =>
+		segment.id === id ? { ...segment, text } : segment,
+	);
+}
+
+/**
+ * Divide um segmento na posição indicada do texto. O tempo é repartido
+ * proporcionalmente ao tamanho de cada parte.
+ */
+export function splitSegment(
+	segments: TranscriptSegment[],
+	id: string,
+	at: number,
+): TranscriptSegment[] {
+	const index = segments.findIndex((segment) => segment.id === id);
+	if (index < 0) return segments;
+
+	const segment = segments[index];
+	const head = segment.text.slice(0, at).trim();
+	const tail = segment.text.slice(at).trim();
+	if (!head || !tail) return segments;
+
+	const splitTime =
+		segment.start + Math.round(((segment.end - segment.start) * at) / segment.text.length);
+	const first = { ...segment, text: head, end: splitTime };
+	const second = { ...segment, id: createSegmentId(), text: tail, start: splitTime };
+	return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+}
+
+// Junta o segmento com o seguinte, mantendo o falante do primeiro
+export function mergeWithNext(
+	segments: TranscriptSegment[],
+	id: string,
+): TranscriptSegment[] {
+	const index = segments.findIndex((segment) => segment.id === id);
+	const next = segments[index + 1];
+	if (index < 0 || !next || next.interim) return segments;
+
+	const merged = {
+		...segments[index],
+		text: `${segments[index].text} ${next.text}`.trim(),
+		end: next.end,
+	};
+	return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+}
+
+export function removeSegment(
+	segments: TranscriptSegment[],
+	id: string,
+): TranscriptSegment[] {
+	return segments.filter((segment) => segment.id !== id);
+}
+
+/**
+ * Aplica o que um componente de captura produziu: substitui o segmento interim
+ * dele e acrescenta as novas falas finais, preservando edições já feitas.
+ * Com várias fontes (ex.: microfone em tempo real e aba enviada ao servidor),
+ * falas que chegam atrasadas entram na posição do seu início.
+ */
+export function applyCaptureUpdate(
+	segments: TranscriptSegment[],
+	interimId: string,
+	{
+		append = [],
+		interim = null,
+	}: { append?: TranscriptSegment[]; interim?: TranscriptSegment | null },
+): TranscriptSegment[] {
+	const kept = segments.filter((segment) => segment.id !== interimId);
+	const finals = kept.filter((segment) => !segment.interim);
+	const otherInterims = kept.filter((segment) => segment.interim);
+
+	for (const segment of append) {
+		let index = finals.length;
+		while (index > 0 && finals[index - 1].start > segment.start) index--;
+		finals.splice(index, 0, segment);
+	}
+	return [...finals, ...otherInterims, ...(interim ? [interim] : [])];
+}
+
+// Texto exibido enquanto o áudio do trecho espera na fila offline
+export function pendingTranscriptionText(language: "pt" | "en") {
+	return language === "pt"
+		? "⏳ Trecho aguardando transcrição - servidor indisponível. O texto será preenchido quando o serviço voltar."
+		: "⏳ Chunk awaiting transcription - server unavailable. The text will be filled in when the service is back.";
+}
+
+export function resolvePendingSegment(
+	segments: TranscriptSegment[],
+	id: string,
+	text: string,
+): TranscriptSegment[] {
+	return segments.map((segment) =>
+		segment.id === id ? { ...segment, text, pendingTranscription: false } : segment,
+	);
+}
@@ -0,0 +1,145 @@
+import { transcribeAudio } from "./api";
+import { PENDING_AUDIO_STORE, requestToPromise, withStore } from "./db";
+import { resolveHistorySegment } from "./history";
+import { openRecords, putSealedRecords, VaultError } from "./vault";
+
+// Áudio que o servidor não conseguiu transcrever, guardado até ele voltar
+// (cifrado, como o histórico, quando há senha)
+export type QueuedAudio = {
+	id: string;
+	consultationId: string;
+	segmentId: string; // Segmento com o texto provisório a substituir
+	language: "pt" | "en";
+	audio: Blob;
+	createdAt: number;
+	attempts: number;
+};
+
+export type TranscriptionRecoveredDetail = {
+	consultationId: string;
+	segmentId: string;
+	text: string;
+};
+
+// Intervalo da verificação periódica enquanto houver áudio na fila
+const PROBE_INTERVAL_MS = 60000;
+
+export async function enqueueAudio(
+	entry: Omit<QueuedAudio, "id" | "createdAt" | "attempts">,
+) {
+	const item: QueuedAudio = {
+		...entry,
+		id: crypto.randomUUID?.() || String(Date.now()),
+		createdAt: Date.now(),
+		attempts: 0,
+	};
+	await putSealedRecords(PENDING_AUDIO_STORE, [item]);
+	window.dispatchEvent(new Event("transcription-queue-updated"));
+}
+
+// Lança VaultError("locked") com o histórico bloqueado
+export async function listQueuedAudio(): Promise<QueuedAudio[]> {
+	const records = await withStore(PENDING_AUDIO_STORE, "readonly", (store) =>
+		requestToPromise(store.getAll()),
+	);
+	return openRecords<QueuedAudio>(records);
+}
+
+let processing: Promise<void> | null = null;
+
+/**
+ * Tenta transcrever o que está na fila, na ordem de gravação. Para no primeiro
+ * item que ainda falhar: o servidor continua fora e o resto falharia também.
+ */
+export function processQueue(): Promise<void> {
+	if (!processing) {
+		processing = drainQueue().finally(() => {
+			processing = null;
+		});
+	}
+	return processing;
+}
+
+async function drainQueue() {
+	let items: QueuedAudio[];
+	try {
+		items = (await listQueuedAudio()).sort((a, b) => a.createdAt - b.createdAt);
+	} catch (error) {
+		// Bloqueado: o áudio espera o desbloqueio, como o histórico
+		if (error instanceof VaultError && error.kind === "locked") return;
+		throw error;
+	}
+
+	for (const item of items) {
+		let text = "";
+		try {
+			const result = await transcribeAudio(item.audio, item.language);
+			if (!result?.fallback) text = String(result?.transcript ?? "").trim();
+		} catch (error) {
+			console.error("❌ Erro ao reprocessar áudio da fila:", error);
+		}
+
+		if (!text) {
+			await putSealedRecords(PENDING_AUDIO_STORE, [{ ...item, attempts: item.attempts + 1 }]);
+			return;
+		}
+
+		// Histórico primeiro: se não gravar, o áudio continua na fila
+		await resolveHistorySegment(item.consultationId, item.segmentId, text);
+		await withStore(PENDING_AUDIO_STORE, "readwrite", (store) =>
+			requestToPromise(store.delete(item.id)),
+		);
+
+		const detail: TranscriptionRecoveredDetail = {
+			consultationId: item.consultationId,
+			segmentId: item.segmentId,
+			text,
+		};
+		window.dispatchEvent(new CustomEvent("transcription-recovered", { detail }));
+		window.dispatchEvent(new Event("transcription-queue-updated"));
+	}
+}
+
+/**
+ * Reprocessa a fila quando a conexão volta (evento online) e periodicamente,
+ * já que o navegador pode estar online com o servidor fora do ar.
+ * Retorna a função que encerra o processamento em segundo plano.
+ */
+export function startQueueProcessor() {
+	const run = () => {
+		if (!navigator.onLine) return;
+		processQueue().catch((error) =>
+			console.error("❌ Erro ao processar fila de transcrição:", error),
+		);
+	};
+
+	window.addEventListener("online", run);
+	// Desbloqueio do histórico: o áudio cifrado pode ser lido de novo
+	window.addEventListener("vault-updated", run);
+	window.addEventListener("transcription-queue-updated", scheduleProbe);
+	let probeTimer: number | null = null;
+	let stopped = false;
+
+	function scheduleProbe() {
+		if (stopped || probeTimer !== null) return;
+		probeTimer = window.setTimeout(async () => {
+			probeTimer = null;
+			run();
+			await processing;
+			const remaining = await listQueuedAudio().catch(() => []);
+			if (remaining.length > 0) scheduleProbe();
+		}, PROBE_INTERVAL_MS);
+	}
+
+	// Áudio deixado por uma sessão anterior
+	run();
+	scheduleProbe();
+
+	return () => {
+		stopped = true;
+		window.removeEventListener("online", run);
+		window.removeEventListener("vault-updated", run);
+		window.removeEventListener("transcription-queue-updated", scheduleProbe);
+		if (probeTimer !== null) window.clearTimeout(probeTimer);
+	};
+}
@@ -7,11 +7,68 @@ export type DiagnosisResponse = {
 	language: "pt" | "en";
 };
 
+export type SpeakerRole = "doctor" | "patient" | "other";
+
+// Origem do áudio: microfone local, aba da videochamada ou edição manual
+export type TranscriptSource = "mic" | "tab" | "manual";
+
+export type TranscriptSegment = {
+	id: string;
+	speaker: SpeakerRole;
+	speakerName?: string; // Nome exibido (paciente ou outro participante)
+	text: string;
+	start: number; // ms desde o início da gravação
+	end: number;
+	source: TranscriptSource;
+	confidence?: number; // Confiança da atribuição do falante (0-1)
+	attribution?: "voice" | "source" | "alternation" | "manual";
+	pendingTranscription?: boolean; // Texto provisório; o áudio está na fila offline
+	interim: boolean;
+};
+
 export type HistoryItem = {
 	id: string;
 	timestamp: number;
 	language: "pt" | "en";
-	transcript: string;
+	segments: TranscriptSegment[];
 	result: DiagnosisResponse;
-	patientName?: string; // Nome do paciente
+	patientName?: string; // Nome do paciente (como estava ao salvar)
+	patientId?: string; // Paciente cadastrado; consultas antigas só têm o nome
+	revisionOf?: string; // Consulta reaberta da qual esta é uma nova revisão
+	deletedAt?: number; // Na lixeira desde (ms); fora do histórico até ser restaurada
+	pinned?: boolean; // Fixada: nunca apagada pela política de retenção
+};
+
+export type PatientSex = "female" | "male" | "other";
+
+// Documento ou registro do paciente (ex.: CPF, prontuário, cartão do SUS)
+export type PatientIdentifier = { label: string; value: string };
+
+export type Patient = {
+	id: string;
+	name: string;
+	birthDate?: string; // YYYY-MM-DD
+	sex?: PatientSex;
+	identifiers: PatientIdentifier[];
+	allergies: string[];
+	createdAt: number;
+	updatedAt: number;
+};
+
+export type VoiceFeatures = {
+	avgPitch: number;
+	pitchVariance: number;
+	avgIntensity: number;
+	formantF1: number;
+	formantF2: number;
+	speechRate: number;
+	voiceQuality: number;
+};
+
+export type VoiceProfile = {
+	id: string;
+	name: "doctor" | "patient" | "auto";
+	features: VoiceFeatures;
+	samples: number;
+	enrolledAt?: number; // Data do cadastro de voz do médico
 };
@@ -0,0 +1,151 @@
+import type { DiagnosisResponse } from "./types";
+
+export type ValidationIssueCode =
+	| "not-json"
+	| "not-object"
+	| "missing-text"
+	| "empty-text"
+	| "missing-list"
+	| "non-text-items"
+	| "unknown-language";
+
+// Problema em um campo da resposta (sem `field`, na resposta inteira)
+export type ValidationIssue = { field?: string; code: ValidationIssueCode };
+
+const issueMessages: Record<"pt" | "en", Record<ValidationIssueCode, string>> = {
+	pt: {
+		"not-json": "resposta não é JSON",
+		"not-object": "resposta não é um objeto JSON",
+		"missing-text": "texto ausente",
+		"empty-text": "texto vazio",
+		"missing-list": "lista ausente",
+		"non-text-items": "lista com itens que não são texto",
+		"unknown-language": "idioma desconhecido",
+	},
+	en: {
+		"not-json": "response is not JSON",
+		"not-object": "response is not a JSON object",
+		"missing-text": "missing text",
+		"empty-text": "empty text",
+		"missing-list": "missing list",
+		"non-text-items": "list has items that are not text",
+		"unknown-language": "unknown language",
+	},
+};
+
+// Texto traduzido de um problema, com o campo na frente ("diagnosis: texto ausente")
+export function formatIssue({ field, code }: ValidationIssue, language: "pt" | "en") {
+	const message = issueMessages[language][code];
+	return field ? `${field}: ${message}` : message;
+}
+
+/**
+ * Resposta do backend fora do formato esperado. `issues` lista os campos
+ * ausentes ou inválidos (como códigos, traduzidos por formatIssue), para a
+ * interface mostrar o que faltou.
+ */
+export class ResponseValidationError extends Error {
+	readonly endpoint: string;
+	readonly issues: ValidationIssue[];
+	readonly payload: unknown;
+
+	constructor(endpoint: string, issues: ValidationIssue[], payload: unknown) {
+		const summary = issues.map((issue) => formatIssue(issue, "pt")).join("; ");
+		super(`Resposta inválida de ${endpoint}: ${summary}`);
+		this.name = "ResponseValidationError";
+		this.endpoint = endpoint;
+		this.issues = issues;
+		this.payload = payload;
+	}
+}
+
+export type TranscriptionResponse = {
+	transcript: string;
+	fallback?: boolean; // Texto provisório gerado localmente (backend fora do ar)
+};
+
+export type ChatResponse = {
+	response: string;
+};
+
+type Fields = Record<string, unknown>;
+
+function asObject(value: unknown, endpoint: string): Fields {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		throw new ResponseValidationError(endpoint, [{ code: "not-object" }], value);
+	}
+	return value as Fields;
+}
+
+function checkString(data: Fields, key: string, issues: ValidationIssue[], optional = false) {
+	const value = data[key];
+	if (value === undefined && optional) return;
+	if (typeof value !== "string") issues.push({ field: key, code: "missing-text" });
+	else if (!optional && !value.trim()) issues.push({ field: key, code: "empty-text" });
+}
+
+function checkStringList(data: Fields, key: string, issues: ValidationIssue[]) {
+	const value = data[key];
+	if (!Array.isArray(value)) issues.push({ field: key, code: "missing-list" });
+	else if (value.some((item) => typeof item !== "string")) {
+		issues.push({ field: key, code: "non-text-items" });
+	}
+}
+
+export function validateDiagnosis(
+	value: unknown,
+	language: "pt" | "en",
+	endpoint = "/api/diagnose",
+): DiagnosisResponse {
+	const data = asObject(value, endpoint);
+	const issues: ValidationIssue[] = [];
+	checkString(data, "diagnosis", issues);
+	checkStringList(data, "conditions", issues);
+	checkStringList(data, "exams", issues);
+	checkStringList(data, "medications", issues);
+	checkString(data, "explanation", issues, true);
+	if (data.language !== undefined && data.language !== "pt" && data.language !== "en") {
+		issues.push({ field: "language", code: "unknown-language" });
+	}
+	if (issues.length > 0) throw new ResponseValidationError(endpoint, issues, value);
+
+	// O idioma nem sempre vem na resposta; vale o da consulta
+	return { ...(data as DiagnosisResponse), language: (data.language as "pt" | "en") ?? language };
+}
+
+export function validateTranscription(
+	value: unknown,
+	endpoint = "/api/transcribe/audio",
+): TranscriptionResponse {
+	const data = asObject(value, endpoint);
+	const issues: ValidationIssue[] = [];
+	if (typeof data.transcript !== "string") issues.push({ field: "transcript", code: "missing-text" });
+	if (issues.length > 0) throw new ResponseValidationError(endpoint, issues, value);
+	return { transcript: data.transcript as string, fallback: data.fallback === true };
+}
+
+export function validateChatResponse(value: unknown, endpoint = "/api/chat"): ChatResponse {
+	const data = asObject(value, endpoint);
+	const issues: ValidationIssue[] = [];
+	checkString(data, "response", issues);
+	if (issues.length > 0) throw new ResponseValidationError(endpoint, issues, value);
+	return { response: data.response as string };
+}
+
+/**
+ * Diagnóstico salvo antes da validação existir: completa os campos ausentes
+ * para o histórico continuar exibível.
+ */
+export function coerceDiagnosis(value: unknown, language: "pt" | "en"): DiagnosisResponse {
+	const data = value && typeof value === "object" ? (value as Fields) : {};
+	const list = (v: unknown) =>
+		Array.isArray(v) ? v.filter((item): item is string => typeof item === "string") : [];
+	return {
+		diagnosis: typeof data.diagnosis === "string" ? data.diagnosis : "",
+		conditions: list(data.conditions),
+		exams: list(data.exams),
+		medications: list(data.medications),
+		explanation: typeof data.explanation === "string" ? data.explanation : undefined,
+		language: data.language === "pt" || data.language === "en" ? data.language : language,
+	};
+}
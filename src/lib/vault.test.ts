@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from "vitest";
+import { historyItem } from "../test/fixtures";
+import { HISTORY_STORE, PENDING_AUDIO_STORE, requestToPromise, withStore } from "./db";
+import { HistoryStorageError, loadHistory, saveHistoryItem } from "./history";
+import { enqueueAudio, listQueuedAudio } from "./transcriptionQueue";
+import {
+	changePassphrase,
+	createVault,
+	destroyVault,
+	lockVault,
+	unlockVault,
+	VaultError,
+	vaultStatus,
+} from "./vault";
+
+const storedRecords = (storeName = HISTORY_STORE) =>
+	withStore(storeName, "readonly", (store) => requestToPromise(store.getAll()));
+
+// O Blob do jsdom não tem text()
+const blobText = (blob: Blob) =>
+	new Promise<string>((resolve) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.readAsText(blob);
+	});
+
+const queueAudio = (segmentId = "s1") =>
+	enqueueAudio({
+		consultationId: "consulta-ana",
+		segmentId,
+		language: "pt",
+		audio: new Blob(["áudio da consulta"], { type: "audio/webm" }),
+	});
+
+describe("vault", () => {
+	it("cifra as consultas já gravadas e as novas", async () => {
+		await saveHistoryItem(historyItem({ id: "a", patientName: "Ana Souza" }));
+		await createVault("senha-segura");
+		await saveHistoryItem(historyItem({ id: "b", patientName: "Bruno Lima" }));
+
+		const raw = JSON.stringify(await storedRecords());
+		expect(raw).not.toContain("Ana Souza");
+		expect(raw).not.toContain("Bruno Lima");
+		expect((await loadHistory()).map((item) => item.patientName).sort()).toEqual(["Ana Souza", "Bruno Lima"]);
+	});
+
+	it("bloqueado, não lê nem grava o histórico", async () => {
+		await saveHistoryItem(historyItem({ id: "a" }));
+		await createVault("senha-segura");
+		lockVault();
+
+		expect(await vaultStatus()).toBe("locked");
+		const readError = await loadHistory().catch((error) => error);
+		expect(readError).toBeInstanceOf(HistoryStorageError);
+		expect(readError.kind).toBe("locked");
+		await expect(saveHistoryItem(historyItem({ id: "b" }))).rejects.toMatchObject({ kind: "locked" });
+		expect(await storedRecords()).toHaveLength(1);
+	});
+
+	it("desbloqueia só com a senha certa", async () => {
+		await saveHistoryItem(historyItem({ id: "a" }));
+		await createVault("senha-segura");
+		lockVault();
+
+		await expect(unlockVault("senha-errada")).rejects.toMatchObject({ kind: "wrong-passphrase" });
+		await unlockVault("senha-segura");
+
+		expect(await vaultStatus()).toBe("unlocked");
+		expect(await loadHistory()).toHaveLength(1);
+	});
+
+	it("recusa senha curta", async () => {
+		const error = await createVault("curta").catch((e) => e);
+		expect(error).toBeInstanceOf(VaultError);
+		expect(error.kind).toBe("weak-passphrase");
+		expect(await vaultStatus()).toBe("none");
+	});
+
+	it("troca a senha recifrando o histórico", async () => {
+		await saveHistoryItem(historyItem({ id: "a" }));
+		await createVault("senha-antiga");
+		const before = await storedRecords();
+
+		await expect(changePassphrase("errada-123", "senha-nova")).rejects.toMatchObject({
+			kind: "wrong-passphrase",
+		});
+		await changePassphrase("senha-antiga", "senha-nova");
+		lockVault();
+
+		expect((await storedRecords())[0].sealed.iv).not.toEqual(before[0].sealed.iv);
+		await expect(unlockVault("senha-antiga")).rejects.toMatchObject({ kind: "wrong-passphrase" });
+		await unlockVault("senha-nova");
+		expect((await loadHistory()).map((item) => item.id)).toEqual(["a"]);
+	});
+
+	it("grava com a chave nova o que é salvo durante a troca de senha", async () => {
+		await saveHistoryItem(historyItem({ id: "a" }));
+		await createVault("senha-antiga");
+
+		let changing = true;
+		const change = changePassphrase("senha-antiga", "senha-nova").finally(() => {
+			changing = false;
+		});
+		const saved: string[] = [];
+		while (changing) {
+			const id = `durante-${saved.length}`;
+			await saveHistoryItem(historyItem({ id }));
+			saved.push(id);
+			await new Promise((resolve) => setTimeout(resolve, 20));
+		}
+		await change;
+		lockVault();
+		await unlockVault("senha-nova");
+
+		expect((await loadHistory()).map((item) => item.id).sort()).toEqual(["a", ...saved].sort());
+	});
+
+	it("deixa de fora uma consulta que não abre com a chave atual", async () => {
+		await saveHistoryItem(historyItem({ id: "a" }));
+		await createVault("senha-segura");
+		await withStore(HISTORY_STORE, "readwrite", (store) =>
+			store.put({ id: "x", timestamp: 1, sealed: { iv: new Uint8Array(12), data: new ArrayBuffer(32) } }),
+		);
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		expect((await loadHistory()).map((item) => item.id)).toEqual(["a"]);
+	});
+
+	it("cifra o áudio na fila de transcrição e o lê de volta desbloqueado", async () => {
+		await queueAudio("antes");
+		await createVault("senha-segura");
+		await queueAudio("depois");
+
+		const raw = await storedRecords(PENDING_AUDIO_STORE);
+		expect(raw).toHaveLength(2);
+		expect(JSON.stringify(raw)).not.toContain("consulta-ana");
+		expect(raw.every((record) => !("audio" in record))).toBe(true);
+
+		const queued = await listQueuedAudio();
+		expect(queued.map((item) => item.segmentId).sort()).toEqual(["antes", "depois"]);
+		// O fake-indexeddb não guarda Blob do jsdom; o gravado depois da senha volta inteiro
+		const audio = queued.find((item) => item.segmentId === "depois")!.audio;
+		expect(audio.type).toBe("audio/webm");
+		expect(await blobText(audio)).toBe("áudio da consulta");
+
+		lockVault();
+		await expect(listQueuedAudio()).rejects.toMatchObject({ kind: "locked" });
+	});
+
+	it("senha esquecida apaga o histórico e volta ao modo sem senha", async () => {
+		await saveHistoryItem(historyItem({ id: "a" }));
+		await createVault("senha-segura");
+		await queueAudio();
+		lockVault();
+
+		await destroyVault();
+
+		expect(await vaultStatus()).toBe("none");
+		expect(await loadHistory()).toEqual([]);
+		expect(await listQueuedAudio()).toEqual([]);
+	});
+});
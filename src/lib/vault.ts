@@ -0,0 +1,364 @@
+import {
+	HISTORY_STORE,
+	PATIENTS_STORE,
+	PENDING_AUDIO_STORE,
+	requestToPromise,
+	VAULT_STORE,
+	withStore,
+	withTransaction,
+} from "./db";
+
+// Cofre do histórico: com senha, cada consulta (e cada paciente cadastrado e
+// cada áudio na fila de transcrição) é gravada cifrada (AES-GCM) com uma chave derivada da senha (PBKDF2). A chave
+// só existe na memória da aba.
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+const PBKDF2_ITERATIONS = 600000;
+const META_ID = "meta";
+// Texto conhecido cifrado com a chave, para conferir a senha ao desbloquear
+const CHECK_VALUE = "mednote-vault";
+
+// none: histórico sem senha; locked: com senha e chave fora da memória
+export type VaultStatus = "none" | "locked" | "unlocked";
+
+export type VaultErrorKind = "wrong-passphrase" | "weak-passphrase" | "locked" | "unsupported";
+
+export class VaultError extends Error {
+	readonly kind: VaultErrorKind;
+
+	constructor(kind: VaultErrorKind, message: string) {
+		super(message);
+		this.name = "VaultError";
+		this.kind = kind;
+	}
+}
+
+type Sealed = { iv: Uint8Array; data: ArrayBuffer };
+
+type VaultMeta = {
+	id: typeof META_ID;
+	salt: Uint8Array;
+	iterations: number;
+	check: Sealed;
+	createdAt: number;
+};
+
+// Registro cifrado: só o id e a data (consultas) ficam legíveis (chave e índice do store)
+export type SealedRecord = { id: string; timestamp?: number; sealed: Sealed };
+
+type StoredRecord = { id: string; timestamp?: number };
+
+// Stores com dados de pacientes, cifrados quando o histórico tem senha
+const SEALED_STORES = [HISTORY_STORE, PATIENTS_STORE, PENDING_AUDIO_STORE];
+
+let key: CryptoKey | null = null;
+let statusPromise: Promise<VaultStatus> | null = null;
+// Capturas em andamento; enquanto houver alguma, o bloqueio automático espera
+let autoLockHolds = 0;
+// Gravações e recifragem em fila: nada é cifrado com a chave antiga enquanto
+// o histórico é regravado com a nova
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function exclusive<T>(run: () => Promise<T>): Promise<T> {
+	const result = writeQueue.then(run);
+	writeQueue = result.catch(() => {});
+	return result;
+}
+
+function notifyUpdated() {
+	window.dispatchEvent(new Event("vault-updated"));
+}
+
+function setUnlocked(next: CryptoKey | null) {
+	key = next;
+	statusPromise = Promise.resolve<VaultStatus>(next ? "unlocked" : "none");
+	notifyUpdated();
+}
+
+function loadMeta(): Promise<VaultMeta | undefined> {
+	return withStore(VAULT_STORE, "readonly", (store) =>
+		requestToPromise(store.get(META_ID) as IDBRequest<VaultMeta | undefined>),
+	);
+}
+
+export function vaultStatus(): Promise<VaultStatus> {
+	if (!statusPromise) {
+		statusPromise = loadMeta().then((meta) => (!meta ? "none" : key ? "unlocked" : "locked"));
+		// Permite tentar de novo depois de uma falha ao abrir o banco
+		statusPromise.catch(() => {
+			statusPromise = null;
+		});
+	}
+	return statusPromise;
+}
+
+function subtle() {
+	if (!globalThis.crypto?.subtle) {
+		throw new VaultError("unsupported", "Criptografia indisponível (o navegador exige HTTPS ou localhost)");
+	}
+	return globalThis.crypto.subtle;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number) {
+	const material = await subtle().importKey(
+		"raw",
+		new TextEncoder().encode(passphrase),
+		"PBKDF2",
+		false,
+		["deriveKey"],
+	);
+	return subtle().deriveKey(
+		{ name: "PBKDF2", salt: salt as BufferSource, iterations, hash: "SHA-256" },
+		material,
+		{ name: "AES-GCM", length: 256 },
+		false,
+		["encrypt", "decrypt"],
+	);
+}
+
+async function seal(value: unknown, withKey: CryptoKey): Promise<Sealed> {
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const data = await subtle().encrypt(
+		{ name: "AES-GCM", iv },
+		withKey,
+		new TextEncoder().encode(JSON.stringify(value)),
+	);
+	return { iv, data };
+}
+
+async function unseal<T>(sealed: Sealed, withKey: CryptoKey): Promise<T> {
+	const data = await subtle().decrypt(
+		{ name: "AES-GCM", iv: sealed.iv as BufferSource },
+		withKey,
+		sealed.data,
+	);
+	return JSON.parse(new TextDecoder().decode(data));
+}
+
+// Nova chave (com sal novo) e o registro para conferir a senha
+async function createMeta(passphrase: string): Promise<{ meta: VaultMeta; key: CryptoKey }> {
+	if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+		throw new VaultError(
+			"weak-passphrase",
+			`A senha precisa de pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres`,
+		);
+	}
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const newKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+	const meta: VaultMeta = {
+		id: META_ID,
+		salt,
+		iterations: PBKDF2_ITERATIONS,
+		check: await seal(CHECK_VALUE, newKey),
+		createdAt: Date.now(),
+	};
+	return { meta, key: newKey };
+}
+
+// Chave da senha informada; lança wrong-passphrase se não abrir o registro de conferência
+async function keyFor(passphrase: string, meta: VaultMeta) {
+	const candidate = await deriveKey(passphrase, meta.salt, meta.iterations);
+	try {
+		if ((await unseal(meta.check, candidate)) === CHECK_VALUE) return candidate;
+	} catch {
+		// AES-GCM recusa dados cifrados com outra chave
+	}
+	throw new VaultError("wrong-passphrase", "Senha incorreta");
+}
+
+// Blob guardado dentro do registro cifrado (o JSON não representa Blob)
+type EncodedBlob = { $blob: string; type: string };
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as ArrayBuffer);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsArrayBuffer(blob);
+	});
+}
+
+function isEncodedBlob(value: unknown): value is EncodedBlob {
+	return !!value && typeof value === "object" && "$blob" in value;
+}
+
+// Campos Blob (o áudio da fila) viram base64 antes de cifrar
+async function encodeBlobs(item: StoredRecord): Promise<StoredRecord> {
+	const encoded: Record<string, unknown> = { ...item };
+	for (const [field, value] of Object.entries(encoded)) {
+		if (!(value instanceof Blob)) continue;
+		const bytes = new Uint8Array(await readBlob(value));
+		let binary = "";
+		for (let i = 0; i < bytes.length; i += 0x8000) {
+			binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+		}
+		encoded[field] = { $blob: btoa(binary), type: value.type } satisfies EncodedBlob;
+	}
+	return encoded as StoredRecord;
+}
+
+function decodeBlobs<T>(item: T): T {
+	const decoded: Record<string, unknown> = { ...(item as Record<string, unknown>) };
+	for (const [field, value] of Object.entries(decoded)) {
+		if (!isEncodedBlob(value)) continue;
+		const binary = atob(value.$blob);
+		const bytes = new Uint8Array(binary.length);
+		for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+		decoded[field] = new Blob([bytes], { type: value.type });
+	}
+	return decoded as T;
+}
+
+async function sealWith(item: StoredRecord, withKey: CryptoKey): Promise<SealedRecord> {
+	return { id: item.id, timestamp: item.timestamp, sealed: await seal(await encodeBlobs(item), withKey) };
+}
+
+function isSealed(record: unknown): record is SealedRecord {
+	return !!record && typeof record === "object" && "sealed" in record;
+}
+
+// Regrava o histórico, os pacientes e a fila de áudio com `newKey`, junto com o novo registro do cofre
+async function rewriteHistory(meta: VaultMeta, newKey: CryptoKey, oldKey: CryptoKey | null) {
+	const stored = await withTransaction(SEALED_STORES, "readonly", (tx) =>
+		Promise.all(SEALED_STORES.map((name) => requestToPromise(tx.objectStore(name).getAll()))),
+	);
+	// A cifragem é assíncrona e não pode acontecer dentro da transação de escrita
+	const resealed = await Promise.all(
+		stored.map((records) =>
+			Promise.all(
+				records.map(async (record) => {
+					const item =
+					isSealed(record) && oldKey ? decodeBlobs(await unseal(record.sealed, oldKey)) : record;
+					return sealWith(item as StoredRecord, newKey);
+				}),
+			),
+		),
+	);
+	await withTransaction([...SEALED_STORES, VAULT_STORE], "readwrite", (tx) => {
+		SEALED_STORES.forEach((name, index) => {
+			const store = tx.objectStore(name);
+			for (const record of resealed[index]) store.put(record);
+		});
+		tx.objectStore(VAULT_STORE).put(meta);
+	});
+}
+
+/**
+ * Protege o histórico com senha: cifra as consultas já gravadas e deixa o
+ * cofre desbloqueado nesta aba.
+ */
+export async function createVault(passphrase: string) {
+	if ((await vaultStatus()) !== "none") throw new Error("O histórico já tem senha");
+	const created = await createMeta(passphrase);
+	await exclusive(async () => {
+		if ((await vaultStatus()) !== "none") throw new Error("O histórico já tem senha");
+		await rewriteHistory(created.meta, created.key, null);
+		setUnlocked(created.key);
+	});
+}
+
+export async function unlockVault(passphrase: string) {
+	const meta = await loadMeta();
+	if (!meta) throw new Error("O histórico não tem senha");
+	setUnlocked(await keyFor(passphrase, meta));
+}
+
+export function lockVault() {
+	if (!key) return;
+	key = null;
+	statusPromise = null;
+	notifyUpdated();
+}
+
+// Troca a senha e recifra todas as consultas com a chave nova
+export async function changePassphrase(current: string, next: string) {
+	const meta = await loadMeta();
+	if (!meta) throw new Error("O histórico não tem senha");
+	const oldKey = await keyFor(current, meta);
+	const created = await createMeta(next);
+	await exclusive(async () => {
+		await rewriteHistory(created.meta, created.key, oldKey);
+		setUnlocked(created.key);
+	});
+}
+
+// Senha esquecida: apaga o histórico, os pacientes e o áudio na fila, cifrados (não há
+// como recuperá-los), e a senha
+export function destroyVault() {
+	return exclusive(async () => {
+		await withTransaction([...SEALED_STORES, VAULT_STORE], "readwrite", (tx) => {
+			for (const name of [...SEALED_STORES, VAULT_STORE]) tx.objectStore(name).clear();
+		});
+		setUnlocked(null);
+	});
+}
+
+// Registro pronto para gravar: cifrado se o histórico tem senha
+async function sealRecord<T extends StoredRecord>(item: T): Promise<T | SealedRecord> {
+	const status = await vaultStatus();
+	if (status === "none") return item;
+	if (!key) throw new VaultError("locked", "Histórico bloqueado");
+	return sealWith(item, key);
+}
+
+/**
+ * Grava os registros no store, cifrados quando o histórico tem senha (a
+ * cifragem acontece antes da transação). Lança VaultError("locked") com o
+ * cofre bloqueado, para nada ser gravado em claro.
+ */
+export function putSealedRecords<T extends StoredRecord>(storeName: string, items: T[]): Promise<void> {
+	return exclusive(async () => {
+		const records = await Promise.all(items.map((item) => sealRecord(item)));
+		await withStore(storeName, "readwrite", (store) => {
+			for (const record of records) store.put(record);
+		});
+	});
+}
+
+/**
+ * Registros lidos do store, decifrados quando necessário. Os que não abrem
+ * com a chave atual ficam de fora (e vão para o console) em vez de esconder
+ * todos os outros; com o cofre bloqueado, lança VaultError("locked").
+ */
+export async function openRecords<T>(records: unknown[]): Promise<T[]> {
+	const withKey = key;
+	if (!withKey && records.some(isSealed)) throw new VaultError("locked", "Histórico bloqueado");
+	const opened = await Promise.all(
+		records.map(async (record) => {
+			if (!isSealed(record)) return record as T;
+			try {
+				return decodeBlobs(await unseal<T>(record.sealed, withKey!));
+			} catch (error) {
+				console.error("Registro cifrado ilegível ignorado:", record.id, error);
+				return undefined;
+			}
+		}),
+	);
+	return opened.filter((record) => record !== undefined) as T[];
+}
+
+/**
+ * Adia o bloqueio automático enquanto uma gravação roda (ditar sem tocar no
+ * computador não é inatividade) ou há trabalho ainda não salvo, que o
+ * bloqueio descartaria ao desmontar o aplicativo. Devolve a função que libera.
+ */
+export function holdAutoLock(): () => void {
+	autoLockHolds++;
+	let released = false;
+	return () => {
+		if (released) return;
+		released = true;
+		autoLockHolds--;
+	};
+}
+
+export function isAutoLockHeld() {
+	return autoLockHolds > 0;
+}
+
+// Esquece a chave e o estado em cache (usado nos testes, com um banco novo)
+export function resetVault() {
+	key = null;
+	statusPromise = null;
+	autoLockHolds = 0;
+}
@@ -0,0 +1,49 @@
+import type { VoiceProfile } from "./types";
+
+const KEY = "mednote-voice-profiles-v1";
+const CLINICIAN_KEY = "mednote-clinician-v1";
+
+// Perfis de voz cadastrados, indexados pelo médico
+type StoredProfiles = Record<string, { doctor: VoiceProfile }>;
+
+function clinicianKey(clinician: string) {
+	return clinician.trim().toLowerCase();
+}
+
+function loadAll(): StoredProfiles {
+	try {
+		return JSON.parse(localStorage.getItem(KEY) || "{}");
+	} catch {
+		return {};
+	}
+}
+
+function saveAll(profiles: StoredProfiles) {
+	localStorage.setItem(KEY, JSON.stringify(profiles));
+	window.dispatchEvent(new Event("voice-profiles-updated"));
+}
+
+export function loadDoctorProfile(clinician: string): VoiceProfile | null {
+	if (!clinician.trim()) return null;
+	return loadAll()[clinicianKey(clinician)]?.doctor ?? null;
+}
+
+export function saveDoctorProfile(clinician: string, profile: VoiceProfile) {
+	const all = loadAll();
+	all[clinicianKey(clinician)] = { doctor: profile };
+	saveAll(all);
+}
+
+export function deleteDoctorProfile(clinician: string) {
+	const all = loadAll();
+	delete all[clinicianKey(clinician)];
+	saveAll(all);
+}
+
+export function loadCurrentClinician() {
+	return localStorage.getItem(CLINICIAN_KEY) || "";
+}
+
+export function saveCurrentClinician(clinician: string) {
+	localStorage.setItem(CLINICIAN_KEY, clinician);
+}
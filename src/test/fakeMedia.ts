@@ -0,0 +1,107 @@
+import { vi } from "vitest";
+
+// Substitutos de MediaStream, MediaRecorder e navigator.mediaDevices (o jsdom não tem)
+
+let trackCount = 0;
+
+export class FakeMediaStreamTrack {
+	readonly id = `track-${++trackCount}`;
+	readonly kind: "audio" | "video";
+	readonly label: string;
+	enabled = true;
+	muted = false;
+	readyState: "live" | "ended" = "live";
+
+	constructor(kind: "audio" | "video", label = `${kind} fake`) {
+		this.kind = kind;
+		this.label = label;
+	}
+
+	stop() {
+		this.readyState = "ended";
+	}
+
+	getSettings() {
+		return {};
+	}
+}
+
+export class FakeMediaStream {
+	private tracks: FakeMediaStreamTrack[];
+
+	constructor(tracks: FakeMediaStreamTrack[] = []) {
+		this.tracks = [...tracks];
+	}
+
+	get active() {
+		return this.tracks.some((track) => track.readyState === "live");
+	}
+
+	getTracks() {
+		return [...this.tracks];
+	}
+
+	getAudioTracks() {
+		return this.tracks.filter((track) => track.kind === "audio");
+	}
+
+	getVideoTracks() {
+		return this.tracks.filter((track) => track.kind === "video");
+	}
+}
+
+// Entrega um pedaço de "áudio" ao parar, de forma assíncrona como o navegador
+export class FakeMediaRecorder {
+	static instances: FakeMediaRecorder[] = [];
+	static isTypeSupported = () => true;
+
+	readonly stream: FakeMediaStream;
+	readonly mimeType: string;
+	state: "inactive" | "recording" = "inactive";
+	ondataavailable: ((event: { data: Blob }) => void) | null = null;
+	onstop: (() => void) | null = null;
+
+	constructor(stream: FakeMediaStream, options?: { mimeType?: string }) {
+		this.stream = stream;
+		this.mimeType = options?.mimeType || "audio/webm";
+		FakeMediaRecorder.instances.push(this);
+	}
+
+	start() {
+		this.state = "recording";
+	}
+
+	stop() {
+		if (this.state !== "recording") return;
+		this.state = "inactive";
+		setTimeout(() => {
+			this.ondataavailable?.({ data: new Blob(["fake audio"], { type: this.mimeType }) });
+			this.onstop?.();
+		}, 0);
+	}
+}
+
+export const micStream = () => new FakeMediaStream([new FakeMediaStreamTrack("audio", "Microfone")]);
+
+export const tabStream = ({ audio = true } = {}) =>
+	new FakeMediaStream([
+		new FakeMediaStreamTrack("video", "Aba"),
+		...(audio ? [new FakeMediaStreamTrack("audio", "Áudio da aba")] : []),
+	]);
+
+/**
+ * Instala os substitutos. getUserMedia devolve um microfone e getDisplayMedia
+ * uma aba com áudio; os testes trocam a implementação com mockResolvedValue etc.
+ */
+export function installFakeMedia() {
+	FakeMediaRecorder.instances = [];
+	vi.stubGlobal("MediaStream", FakeMediaStream);
+	vi.stubGlobal("MediaRecorder", FakeMediaRecorder);
+
+	const mediaDevices = {
+		getUserMedia: vi.fn(async () => micStream() as unknown as MediaStream),
+		getDisplayMedia: vi.fn(async () => tabStream() as unknown as MediaStream),
+	};
+	Object.defineProperty(navigator, "mediaDevices", { value: mediaDevices, configurable: true });
+	return mediaDevices;
+}
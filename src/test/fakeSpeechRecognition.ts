@@ -0,0 +1,86 @@
+// webkitSpeechRecognition controlado pelo teste: cada chamada de speak*
+// gera o mesmo evento de resultado que o Chrome enviaria.
+
+type Result = { transcript: string; isFinal: boolean };
+
+export class FakeSpeechRecognition {
+	static instances: FakeSpeechRecognition[] = [];
+
+	lang = "";
+	continuous = false;
+	interimResults = false;
+	onstart: (() => void) | null = null;
+	onresult: ((event: unknown) => void) | null = null;
+	onerror: ((event: { error: string }) => void) | null = null;
+	onend: (() => void) | null = null;
+
+	started = false;
+	private results: Result[] = [];
+
+	constructor() {
+		FakeSpeechRecognition.instances.push(this);
+	}
+
+	// Instância criada por último (cada motor Web Speech cria uma)
+	static latest() {
+		return FakeSpeechRecognition.instances[FakeSpeechRecognition.instances.length - 1];
+	}
+
+	static install() {
+		FakeSpeechRecognition.instances = [];
+		(window as any).webkitSpeechRecognition = FakeSpeechRecognition;
+	}
+
+	static uninstall() {
+		delete (window as any).webkitSpeechRecognition;
+	}
+
+	start() {
+		if (this.started) {
+			throw new DOMException("recognition has already started", "InvalidStateError");
+		}
+		this.started = true;
+		this.results = [];
+		this.onstart?.();
+	}
+
+	stop() {
+		if (!this.started) return;
+		this.started = false;
+		this.onend?.();
+	}
+
+	abort() {
+		this.stop();
+	}
+
+	speakInterim(transcript: string) {
+		this.emit({ transcript, isFinal: false });
+	}
+
+	speakFinal(transcript: string) {
+		this.emit({ transcript, isFinal: true });
+	}
+
+	// Erro seguido do fim da sessão, como no Chrome
+	fail(error: string) {
+		this.onerror?.({ error });
+		this.stop();
+	}
+
+	// Fim da sessão sem pedido (silêncio); a lista de resultados recomeça
+	endSession() {
+		this.stop();
+	}
+
+	private emit(result: Result) {
+		const index = this.results.filter((r) => r.isFinal).length;
+		this.results = [...this.results.slice(0, index), result];
+		this.onresult?.({
+			resultIndex: index,
+			results: this.results.map(({ transcript, isFinal }) =>
+				Object.assign([{ transcript, confidence: 1 }], { isFinal }),
+			),
+		});
+	}
+}
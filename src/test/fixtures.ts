@@ -0,0 +1,42 @@
+import type { DiagnosisResponse, HistoryItem, TranscriptSegment } from "../lib/types";
+
+export function segment(overrides: Partial<TranscriptSegment> = {}): TranscriptSegment {
+	return {
+		id: `seg-${Math.random().toString(36).slice(2)}`,
+		speaker: "doctor",
+		text: "Bom dia",
+		start: 0,
+		end: 1000,
+		source: "mic",
+		interim: false,
+		...overrides,
+	};
+}
+
+export const consultationSegments = (): TranscriptSegment[] => [
+	segment({ speaker: "doctor", text: "O que está sentindo?", start: 0, end: 1500 }),
+	segment({ speaker: "patient", text: "Estou com febre e tosse há três dias.", start: 2000, end: 4500 }),
+];
+
+export function diagnosis(overrides: Partial<DiagnosisResponse> = {}): DiagnosisResponse {
+	return {
+		diagnosis: "Infecção viral",
+		conditions: ["Resfriado comum"],
+		exams: ["Hemograma"],
+		medications: ["Dipirona"],
+		explanation: "Quadro autolimitado.",
+		language: "pt",
+		...overrides,
+	};
+}
+
+export function historyItem(overrides: Partial<HistoryItem> = {}): HistoryItem {
+	return {
+		id: `item-${Math.random().toString(36).slice(2)}`,
+		timestamp: Date.now(),
+		language: "pt",
+		segments: consultationSegments(),
+		result: diagnosis(),
+		...overrides,
+	};
+}
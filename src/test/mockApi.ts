@@ -0,0 +1,13 @@
+import type { MockFailureKind } from "../lib/mockBackend";
+import { saveSettings } from "../lib/settings";
+
+// O backend dos testes é o mesmo backend simulado do modo de demonstração
+
+export function enableMockApi() {
+	saveSettings({ mockBackend: true, mockLatencyMs: 0, mockFailureRate: 0 });
+}
+
+// Todas as chamadas seguintes falham do jeito indicado
+export function failMockApi(kind: MockFailureKind) {
+	saveSettings({ mockBackend: true, mockLatencyMs: 0, mockFailureRate: 1, mockFailureKind: kind });
+}
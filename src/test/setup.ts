@@ -0,0 +1,30 @@
+import "@testing-library/jest-dom/vitest";
+import "fake-indexeddb/auto";
+import { cleanup } from "@testing-library/react";
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, vi } from "vitest";
+import { closeDatabase } from "../lib/db";
+import { resetVault } from "../lib/vault";
+import { installFakeMedia } from "./fakeMedia";
+import { FakeSpeechRecognition } from "./fakeSpeechRecognition";
+import { enableMockApi } from "./mockApi";
+
+beforeEach(async () => {
+	localStorage.clear();
+	// Banco vazio a cada teste
+	await closeDatabase();
+	globalThis.indexedDB = new IDBFactory();
+	resetVault();
+	FakeSpeechRecognition.install();
+	installFakeMedia();
+	enableMockApi();
+	// Os componentes registram cada etapa no console
+	vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+	cleanup();
+	FakeSpeechRecognition.uninstall();
+	vi.unstubAllGlobals();
+	vi.restoreAllMocks();
+});